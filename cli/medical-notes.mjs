@@ -6,28 +6,46 @@
  *   1. Environment variables
  *   2. ~/.medical-notes.json  ← create with: chmod 600 ~/.medical-notes.json
  *
+ * A personal access token (Settings → Personal Access Tokens) is preferred;
+ * email + password still works when no token is set.
+ *
  * Config file format:
+ *   { "token": "mnp_...", "url": "https://www.vmimr.com" }
  *   { "email": "you@example.com", "password": "...", "url": "https://www.vmimr.com" }
  *
  * Usage:
  *   node cli/medical-notes.mjs add "content here" [--tags tag1,tag2]
  *   node cli/medical-notes.mjs add --file ./note.md [--tags tag1,tag2]
  *   echo "content" | node cli/medical-notes.mjs add [--tags tag1,tag2]
- *   node cli/medical-notes.mjs list [--limit 20] [--tag cardiology]
- *   node cli/medical-notes.mjs search "query" [--limit 20]
+ *   node cli/medical-notes.mjs list [--limit 20] [--tag cardiology] [--all | --cursor <c>]
+ *   node cli/medical-notes.mjs search "query" [--sort relevance|newest | --semantic] [--limit 20] [--all | --cursor <c>]
+ *     (query operators: tag:x -tag:x is:starred is:mine has:pdf has:image
+ *      before:YYYY-MM-DD after:YYYY-MM-DD "quoted phrase" — parsed by the API)
  *   node cli/medical-notes.mjs show <post-id>
+ *   node cli/medical-notes.mjs related <post-id> [--limit 5]
+ *   node cli/medical-notes.mjs embed
+ *   node cli/medical-notes.mjs resummarize --post <post-id> | --all-missing | --failed
  *   node cli/medical-notes.mjs edit <post-id>
- *   node cli/medical-notes.mjs delete <post-id> [--force]
+ *   node cli/medical-notes.mjs attach <post-id> <file...> [--keep-original]
+ *   node cli/medical-notes.mjs history <post-id> [--diff <rev> | --restore <rev> [--force]]
+ *   node cli/medical-notes.mjs delete <post-id> [--force] [--permanent]
+ *   node cli/medical-notes.mjs trash list|restore <post-id>|purge [<post-id>] [--expired] [--force]
+ *   node cli/medical-notes.mjs synonyms [list [--all]|add <term> <meaning>[,<meaning>...]|remove <term>]
+ *   node cli/medical-notes.mjs export [--out backup.zip] [--force]
+ *   node cli/medical-notes.mjs import <dir> [--tags extra] [--dry-run]
  *
  * Via npm run (use -- to prevent npm from stripping flags):
  *   npm run cli -- add --file ./note.md --tags cardiology
  */
 
-import { readFileSync, writeFileSync, existsSync, unlinkSync, chmodSync } from 'fs';
-import { resolve, join } from 'path';
+import { readFileSync, writeFileSync, existsSync, unlinkSync, chmodSync, createWriteStream, statSync, readdirSync, openSync, readSync, closeSync } from 'fs';
+import { resolve, join, basename, dirname, relative, extname } from 'path';
 import { homedir, tmpdir } from 'os';
 import { createInterface } from 'readline';
 import { spawnSync } from 'child_process';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { inflateRawSync } from 'zlib';
 
 // ── config ────────────────────────────────────────────────────────────────────
 
@@ -47,21 +65,22 @@ const cfg = loadConfig();
 const BASE_URL = (process.env.MEDICAL_NOTES_URL ?? cfg.url ?? 'http://localhost:3000').replace(/\/$/, '');
 const EMAIL = process.env.MEDICAL_NOTES_EMAIL ?? cfg.email;
 const PASSWORD = process.env.MEDICAL_NOTES_PASSWORD ?? cfg.password;
+const ACCESS_TOKEN = process.env.MEDICAL_NOTES_TOKEN ?? cfg.token;
 
 const isSignup = process.argv[2] === 'signup';
+const isLogout = process.argv[2] === 'logout';
 
-if (!EMAIL || !PASSWORD) {
-  if (isSignup) {
-    // signup doesn't need existing credentials — allow through
+if (!ACCESS_TOKEN && (!EMAIL || !PASSWORD)) {
+  if (isSignup || isLogout) {
+    // signup and logout don't need existing credentials — allow through
   } else {
     console.error('Error: credentials not found. Set env vars or create ~/.medical-notes.json');
     console.error('');
-    console.error('  Option 1 — env vars:');
-    console.error('    export MEDICAL_NOTES_EMAIL="you@example.com"');
-    console.error('    export MEDICAL_NOTES_PASSWORD="yourpassword"');
+    console.error('  Option 1 — env vars (create a token in Settings → Personal Access Tokens):');
+    console.error('    export MEDICAL_NOTES_TOKEN="mnp_..."');
     console.error('');
     console.error('  Option 2 — config file (~/.medical-notes.json):');
-    console.error('    { "email": "you@example.com", "password": "...", "url": "https://www.vmimr.com" }');
+    console.error('    { "token": "mnp_...", "url": "https://www.vmimr.com" }');
     console.error('    chmod 600 ~/.medical-notes.json');
     console.error('');
     console.error('  New user? Run: node cli/medical-notes.mjs signup');
@@ -71,6 +90,40 @@ if (!EMAIL || !PASSWORD) {
 
 // ── auth ─────────────────────────────────────────────────────────────────────
 
+// Password sessions are cached here and refreshed in place, so a batch of
+// commands signs in once instead of once per invocation.
+const SESSION_PATH = join(homedir(), '.medical-notes-session.json');
+// Refresh a little early so a token doesn't expire mid-request
+const SESSION_EXPIRY_MARGIN_SECONDS = 60;
+
+function loadCachedSession() {
+  if (!existsSync(SESSION_PATH)) return null;
+  try {
+    const session = JSON.parse(readFileSync(SESSION_PATH, 'utf-8'));
+    // Ignore a session cached for a different account or server
+    if (session.url !== BASE_URL || session.email !== EMAIL) return null;
+    return session;
+  } catch {
+    return null;
+  }
+}
+
+function saveSession(data) {
+  const session = {
+    url: BASE_URL,
+    email: EMAIL,
+    access_token: data.access_token,
+    refresh_token: data.refresh_token,
+    expires_at: data.expires_at ?? Math.floor(Date.now() / 1000) + (data.expires_in ?? 3600),
+  };
+  writeFileSync(SESSION_PATH, JSON.stringify(session, null, 2) + '\n', { encoding: 'utf-8', mode: 0o600 });
+  chmodSync(SESSION_PATH, 0o600);
+}
+
+function clearCachedSession() {
+  if (existsSync(SESSION_PATH)) unlinkSync(SESSION_PATH);
+}
+
 async function signIn() {
   const res = await fetch(`${BASE_URL}/api/auth`, {
     method: 'POST',
@@ -82,11 +135,42 @@ async function signIn() {
     console.error(`Auth failed: ${data.error ?? JSON.stringify(data)}`);
     process.exit(1);
   }
+  saveSession(data);
   return data.access_token;
 }
 
+async function refreshSession(refreshToken) {
+  const res = await fetch(`${BASE_URL}/api/auth/refresh`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ refresh_token: refreshToken }),
+  });
+  if (!res.ok) return null;
+  const data = await res.json();
+  saveSession(data);
+  return data.access_token;
+}
+
+async function getSessionToken() {
+  const cached = loadCachedSession();
+  const now = Math.floor(Date.now() / 1000);
+
+  if (cached?.access_token && cached.expires_at - SESSION_EXPIRY_MARGIN_SECONDS > now) {
+    return cached.access_token;
+  }
+  if (cached?.refresh_token) {
+    const refreshed = await refreshSession(cached.refresh_token);
+    if (refreshed) return refreshed;
+  }
+  // No usable cache (or the refresh token was revoked) — fall back to a full sign-in
+  return signIn();
+}
+
 // ── helpers ───────────────────────────────────────────────────────────────────
 
+// Flags that never take a value, so they don't swallow the following argument
+const BOOLEAN_FLAGS = new Set(['force', 'all', 'dry-run', 'permanent', 'expired', 'semantic', 'all-missing', 'failed', 'keep-original']);
+
 function parseArgs(argv) {
   const result = { positional: [], flags: {} };
   for (let i = 0; i < argv.length; i++) {
@@ -95,6 +179,8 @@ function parseArgs(argv) {
       if (arg.includes('=')) {
         const eqIdx = arg.indexOf('=');
         result.flags[arg.slice(0, eqIdx)] = arg.slice(eqIdx + 1);
+      } else if (BOOLEAN_FLAGS.has(arg)) {
+        result.flags[arg] = true;
       } else {
         result.flags[arg] = argv[i + 1] ?? true;
         i++;
@@ -109,10 +195,12 @@ function parseArgs(argv) {
   //   b) sets npm_config_<flag>=true when the flag is bare (--force → npm_config_force=true)
   // Reconstruct flags from npm_config_* env vars.
   const remaining = [...result.positional];
-  for (const key of ['file', 'tags', 'tag', 'limit', 'search']) {
-    const envVal = process.env[`npm_config_${key}`];
+  for (const key of ['file', 'tags', 'tag', 'limit', 'search', 'cursor', 'all', 'out', 'dry-run', 'diff', 'restore', 'permanent', 'expired', 'sort']) {
+    const envVal = process.env[`npm_config_${key.replace(/-/g, '_')}`];
     if (!result.flags[key] && envVal !== undefined && envVal !== 'false') {
-      if (envVal === 'true' || envVal === '') {
+      if (BOOLEAN_FLAGS.has(key)) {
+        result.flags[key] = true;
+      } else if (envVal === 'true' || envVal === '') {
         // bare flag — value is the next positional arg
         if (remaining.length) result.flags[key] = remaining.shift();
       } else {
@@ -135,22 +223,54 @@ async function readStdin() {
   return lines.join('\n');
 }
 
-async function apiFetch(token, path, options = {}) {
+async function apiRequest(token, path, options = {}) {
+  // Let fetch set the multipart boundary itself for FormData bodies
+  const isForm = options.body instanceof FormData;
   const res = await fetch(`${BASE_URL}${path}`, {
     ...options,
     headers: {
-      'Content-Type': 'application/json',
+      ...(isForm ? {} : { 'Content-Type': 'application/json' }),
+      ...options.headers,
       'Authorization': `Bearer ${token}`,
     },
   });
-  const json = await res.json();
+  return { res, json: await res.json() };
+}
+
+async function apiFetch(token, path, options = {}) {
+  const { res, json } = await apiRequest(token, path, options);
   if (!res.ok) {
     console.error(`Error ${res.status}: ${json.error ?? JSON.stringify(json)}`);
+    for (const detail of json.errors ?? []) console.error(`  ${detail}`);
     process.exit(1);
   }
   return json;
 }
 
+const MIME_TYPES = {
+  pdf: 'application/pdf',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  avif: 'image/avif',
+  heic: 'image/heic',
+  txt: 'text/plain',
+  md: 'text/markdown',
+  html: 'text/html',
+  htm: 'text/html',
+  doc: 'application/msword',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  ppt: 'application/vnd.ms-powerpoint',
+  pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+};
+
+function mimeTypeFor(filePath) {
+  const ext = basename(filePath).split('.').pop()?.toLowerCase() ?? '';
+  return MIME_TYPES[ext] ?? 'application/octet-stream';
+}
+
 function formatDate(iso) {
   return new Date(iso).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
 }
@@ -159,11 +279,33 @@ function previewContent(text, lines = 4) {
   return text.trim().split('\n').slice(0, lines).join('\n');
 }
 
+const HTML_ENTITIES = { '&amp;': '&', '&lt;': '<', '&gt;': '>', '&quot;': '"', '&#39;': "'" };
+
+// Search snippets arrive as HTML with <mark>ed matches; show them bold in a terminal
+function formatSnippet(html) {
+  const [open, close] = process.stdout.isTTY ? ['\x1b[1;33m', '\x1b[0m'] : ['**', '**'];
+  return html
+    .replace(/<mark>/g, open)
+    .replace(/<\/mark>/g, close)
+    .replace(/&(amp|lt|gt|quot|#39);/g, entity => HTML_ENTITIES[entity])
+    .replace(/\s*\n\s*/g, ' ')
+    .trim();
+}
+
 function printPostSummary(post) {
   const tags = post.tags?.length ? `  [${post.tags.join(', ')}]` : '';
   const star = post.is_starred ? ' ★' : '';
-  console.log(`${formatDate(post.created_at)}${star}  ${post.id.slice(0, 8)}${tags}`);
-  console.log(previewContent(post.content).split('\n').map(l => `  ${l}`).join('\n'));
+  const fuzzy = post.fuzzy ? '  (close match)' : '';
+  const similar = post.similarity != null ? `  (${Math.round(post.similarity * 100)}% similar)` : '';
+  const source = post.match_source === 'summary' ? '  (in summary)'
+    : post.match_source === 'attachment' ? `  (in ${post.match_file_name ?? 'attachment'})`
+    : '';
+  console.log(`${formatDate(post.created_at)}${star}  ${post.id.slice(0, 8)}${tags}${fuzzy}${similar}${source}`);
+  if (post.snippet) {
+    console.log(`  ${formatSnippet(post.snippet)}`);
+  } else {
+    console.log(previewContent(post.content).split('\n').map(l => `  ${l}`).join('\n'));
+  }
   console.log();
 }
 
@@ -217,22 +359,128 @@ async function cmdShow(token, args) {
   console.log(post.content);
   console.log(`${'─'.repeat(60)}`);
   console.log(`URL: ${BASE_URL}/posts/${post.id}`);
+
+  // Attachments are private; these links are signed and stop working after a few minutes
+  const { expires_at, files } = await apiFetch(token, `/api/media?post_id=${encodeURIComponent(id)}`);
+  if (files.length > 0) {
+    console.log(`Attachments (links expire ${new Date(expires_at).toLocaleTimeString()}):`);
+    for (const file of files) {
+      console.log(`  ${file.file_name}  (${file.file_type})`);
+      console.log(`    ${file.url ?? '(no link available)'}`);
+    }
+  }
 }
 
-async function cmdEdit(token, args) {
+async function cmdRelated(token, args) {
   const { positional, flags } = parseArgs(args);
   const id = positional[0];
 
   if (!id) {
-    console.error('Error: post ID required.  Usage: edit <post-id>');
+    console.error('Error: post ID required.  Usage: related <post-id> [--limit 5]');
     process.exit(1);
   }
 
-  const post = await apiFetch(token, `/api/posts/${id}`);
+  const { posts } = await apiFetch(token, `/api/posts/${id}/related?limit=${flags.limit ?? 5}`);
+  if (posts.length === 0) {
+    console.log('No related notes found.');
+    return;
+  }
+  for (const post of posts) {
+    printPostSummary(post);
+  }
+}
+
+async function cmdEmbed(token) {
+  // Each call embeds one batch; stop when a batch makes no progress (all failed)
+  let total = 0;
+  while (true) {
+    const result = await apiFetch(token, '/api/posts/embeddings?limit=50', { method: 'POST' });
+    total += result.embedded;
+    for (const f of result.failed) console.error(`  ${f.id.slice(0, 8)}  ${f.error}`);
+    if (result.remaining > 0) console.log(`Embedded ${total} so far, ${result.remaining} to go…`);
+    if (result.remaining === 0 || result.embedded === 0) {
+      console.log(`Embedded ${total} post${total === 1 ? '' : 's'} with ${result.model}.`);
+      if (result.remaining > 0) process.exit(1);
+      return;
+    }
+  }
+}
+
+const SUMMARY_POLL_MS = 10_000;
+// The queue drains every minute, so this long without any change means it isn't running
+const SUMMARY_STALL_MS = 10 * 60_000;
+
+async function cmdResummarize(token, args) {
+  const { flags } = parseArgs(args);
+  const modes = [
+    flags.post && 'post',
+    flags['all-missing'] && 'missing',
+    flags.failed && 'failed',
+  ].filter(Boolean);
+  if (modes.length !== 1 || flags.post === true) {
+    console.error('Usage: resummarize --post <post-id> | --all-missing | --failed');
+    process.exit(1);
+  }
+  const mode = modes[0];
+
+  // Each call queues one batch and says where the next one starts; attachments
+  // that couldn't be queued are reported once and left behind
+  let since = null;
+  let queued = 0;
+  let queueFailures = 0;
+  let cursor = null;
+  do {
+    const params = new URLSearchParams({ mode, limit: '20' });
+    if (mode === 'post') params.set('post_id', flags.post);
+    if (cursor) params.set('cursor', cursor);
+    const result = await apiFetch(token, `/api/posts/summaries?${params}`, { method: 'POST' });
+    since ??= result.started_at;
+    queued += result.queued.length;
+    queueFailures += result.failed.length;
+    for (const f of result.failed) console.error(`  ${f.post_id.slice(0, 8)}  ${f.file_name}: ${f.error}`);
+    cursor = result.next_cursor;
+    if (cursor && queued > 0) console.log(`Queued ${queued} attachment${queued === 1 ? '' : 's'} so far…`);
+  } while (cursor);
+  if (queued === 0) {
+    console.log(queueFailures > 0 ? 'Nothing could be queued.' : 'Nothing to summarize.');
+    if (queueFailures > 0) process.exit(1);
+    return;
+  }
+  console.log(`Queued ${queued} attachment${queued === 1 ? '' : 's'}. Waiting for the summaries (Ctrl-C is safe: the jobs keep running)…`);
+
+  let lastLine = '';
+  let lastChange = Date.now();
+  while (true) {
+    await new Promise(r => setTimeout(r, SUMMARY_POLL_MS));
+    const { counts, failed } = await apiFetch(token, `/api/posts/summaries?since=${encodeURIComponent(since)}`);
+    const line = `  ${counts.succeeded} done, ${counts.failed} failed, ${counts.running} running, ${counts.queued} queued`;
+    if (line !== lastLine) {
+      console.log(line);
+      lastLine = line;
+      lastChange = Date.now();
+    }
+
+    if (counts.queued + counts.running === 0) {
+      console.log(`\nSummarized ${counts.succeeded} attachment${counts.succeeded === 1 ? '' : 's'}, ${counts.failed + queueFailures} failed.`);
+      for (const f of failed) {
+        console.log(`  ${f.post_id.slice(0, 8)}  ${basename(f.file_path)}  (${f.attempts} attempt${f.attempts === 1 ? '' : 's'}): ${f.error ?? 'unknown error'}`);
+      }
+      if (counts.failed + queueFailures > 0) {
+        console.log('Run "resummarize --failed" to try the failures again.');
+        process.exit(1);
+      }
+      return;
+    }
+    if (Date.now() - lastChange > SUMMARY_STALL_MS) {
+      console.error('No progress in 10 minutes. The jobs stay queued; check that the summary-jobs-drain cron job is scheduled.');
+      process.exit(1);
+    }
+  }
+}
 
-  // Write current content to a temp file
+function editInEditor(id, text) {
   const tmpFile = join(tmpdir(), `medical-note-${id.slice(0, 8)}.md`);
-  writeFileSync(tmpFile, post.content, 'utf-8');
+  writeFileSync(tmpFile, text, 'utf-8');
 
   const editor = process.env.VISUAL ?? process.env.EDITOR ?? 'vi';
   const result = spawnSync(editor, [tmpFile], { stdio: 'inherit' });
@@ -243,50 +491,279 @@ async function cmdEdit(token, args) {
     process.exit(1);
   }
 
-  const newContent = readFileSync(tmpFile, 'utf-8');
+  const edited = readFileSync(tmpFile, 'utf-8');
   unlinkSync(tmpFile);
+  return edited;
+}
+
+function hasConflictMarkers(text) {
+  return text.split('\n').some(line => line === CONFLICT_MARKERS.ours || line === CONFLICT_MARKERS.theirs);
+}
+
+async function cmdEdit(token, args) {
+  const { positional, flags } = parseArgs(args);
+  const id = positional[0];
 
-  if (newContent.trim() === post.content.trim()) {
+  if (!id) {
+    console.error('Error: post ID required.  Usage: edit <post-id>');
+    process.exit(1);
+  }
+
+  const { res: getRes, json: post } = await apiRequest(token, `/api/posts/${id}`);
+  if (!getRes.ok) {
+    console.error(`Error ${getRes.status}: ${post.error ?? JSON.stringify(post)}`);
+    process.exit(1);
+  }
+
+  let base = post;
+  let etag = getRes.headers.get('etag');
+  let content = editInEditor(id, post.content);
+
+  if (content.trim() === post.content.trim()) {
     console.log('No changes detected.');
     return;
   }
 
   // Handle optional --tags flag to update tags as well
-  const updates = { content: newContent };
+  const updates = {};
   if (flags.tags) {
     updates.tags = String(flags.tags).split(',').map(t => t.trim()).filter(Boolean);
   }
 
-  const updated = await apiFetch(token, `/api/posts/${id}`, {
-    method: 'PATCH',
-    body: JSON.stringify(updates),
+  // Save with If-Match; if someone else saved while the editor was open, merge
+  // their version with ours instead of overwriting it.
+  for (;;) {
+    const { res, json } = await apiRequest(token, `/api/posts/${id}`, {
+      method: 'PATCH',
+      headers: etag ? { 'If-Match': etag } : {},
+      body: JSON.stringify({ ...updates, content }),
+    });
+
+    if (res.ok) {
+      console.log(`Updated: ${json.id}`);
+      console.log(`  Tags : ${json.tags?.length ? json.tags.join(', ') : '(none)'}`);
+      console.log(`  URL  : ${BASE_URL}/posts/${json.id}`);
+      return;
+    }
+
+    if (res.status !== 409) {
+      console.error(`Error ${res.status}: ${json.error ?? JSON.stringify(json)}`);
+      process.exit(1);
+    }
+
+    const server = json.current;
+    const merged = merge3(base.content, content, server.content);
+    console.log(`\nThis post was changed elsewhere (saved ${new Date(server.updated_at).toLocaleString()}) while you were editing.`);
+    console.log(merged.conflicts === 0
+      ? 'Your edit and the other change merge cleanly.'
+      : `${merged.conflicts} section${merged.conflicts === 1 ? '' : 's'} changed on both sides.`);
+
+    const choices = merged.conflicts === 0
+      ? '[a]pply merge, [e]dit merge, [o]verwrite with yours, [q]uit'
+      : '[e]dit merge and resolve conflicts, [o]verwrite with yours, [q]uit';
+    const answer = (await promptLine(`${choices}? `)).toLowerCase();
+
+    if (answer === 'a' && merged.conflicts === 0) {
+      content = merged.text;
+    } else if (answer === 'e') {
+      content = editInEditor(id, merged.text);
+      while (hasConflictMarkers(content)) {
+        const again = (await promptLine('Conflict markers remain. [e]dit again, [s]ave anyway, [q]uit? ')).toLowerCase();
+        if (again === 's') break;
+        if (again !== 'e') return quitEdit(id, content);
+        content = editInEditor(id, content);
+      }
+    } else if (answer !== 'o') {
+      return quitEdit(id, content);
+    }
+
+    base = server;
+    etag = res.headers.get('etag');
+  }
+}
+
+// Don't lose the user's text when they abandon a conflicted edit
+function quitEdit(id, content) {
+  const keepFile = join(tmpdir(), `medical-note-${id.slice(0, 8)}-unsaved.md`);
+  writeFileSync(keepFile, content, 'utf-8');
+  console.log(`Not saved. Your version was written to ${keepFile}`);
+  process.exit(1);
+}
+
+async function cmdAttach(token, args) {
+  const { positional, flags } = parseArgs(args);
+  const [id, ...paths] = positional;
+
+  if (!id || paths.length === 0) {
+    console.error('Error: post ID and at least one file required.  Usage: attach <post-id> <file...> [--keep-original]');
+    process.exit(1);
+  }
+
+  const form = new FormData();
+  for (const p of paths) {
+    const full = resolve(p);
+    if (!existsSync(full)) {
+      console.error(`Error: file not found: ${p}`);
+      process.exit(1);
+    }
+    form.append('file', new Blob([readFileSync(full)], { type: mimeTypeFor(full) }), basename(full));
+  }
+  // Images are stored without their location and camera metadata; this keeps
+  // the untouched files as well, visible only to you
+  if (flags['keep-original']) form.append('keep_original', '1');
+
+  const uploaded = await apiFetch(token, `/api/posts/${id}/media`, { method: 'POST', body: form });
+
+  for (const file of uploaded) {
+    console.log(`Attached: ${file.file_name}  (${file.file_type})`);
+    if (file.metadata_kept) console.log('  Note: stored with its location and camera metadata (format not supported for removal); not shared');
+    console.log(`  ID  : ${file.id}`);
+    console.log(`  URL : ${file.url ?? '(no link available)'}`);
+  }
+  console.log('Links expire after a few minutes; run "show <post-id>" for fresh ones.');
+  if (uploaded.some(f => f.file_type.includes('pdf'))) {
+    console.log('PDF summary will appear on the post once generated.');
+  }
+}
+
+// Read one file out of a zip without loading the archive: find it in the
+// central directory at the end, then inflate its data
+function readZipEntry(path, name) {
+  const fd = openSync(path, 'r');
+  try {
+    const read = (position, length) => {
+      const buf = Buffer.alloc(length);
+      readSync(fd, buf, 0, length, position);
+      return buf;
+    };
+    const size = statSync(path).size;
+    const tail = read(Math.max(0, size - 65_557), Math.min(size, 65_557));
+    const eocd = tail.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+    if (eocd < 0) throw new Error('not a zip file');
+    const entries = tail.readUInt16LE(eocd + 10);
+    const directory = read(tail.readUInt32LE(eocd + 16), tail.readUInt32LE(eocd + 12));
+
+    for (let offset = 0, i = 0; i < entries; i++) {
+      const nameLength = directory.readUInt16LE(offset + 28);
+      const next = offset + 46 + nameLength + directory.readUInt16LE(offset + 30) + directory.readUInt16LE(offset + 32);
+      if (directory.toString('utf8', offset + 46, offset + 46 + nameLength) === name) {
+        const method = directory.readUInt16LE(offset + 10);
+        const compressedSize = directory.readUInt32LE(offset + 20);
+        const local = read(directory.readUInt32LE(offset + 42), 30);
+        const dataStart = directory.readUInt32LE(offset + 42) + 30 + local.readUInt16LE(26) + local.readUInt16LE(28);
+        const data = read(dataStart, compressedSize);
+        return (method === 8 ? inflateRawSync(data) : data).toString('utf8');
+      }
+      offset = next;
+    }
+    return null;
+  } finally {
+    closeSync(fd);
+  }
+}
+
+async function cmdExport(token, args) {
+  const { flags } = parseArgs(args);
+  const out = resolve(String(flags.out ?? `medical-notes-export-${new Date().toISOString().slice(0, 10)}.zip`));
+
+  if (existsSync(out) && !flags.force) {
+    console.error(`Error: ${out} already exists. Pass --force to overwrite.`);
+    process.exit(1);
+  }
+
+  console.log('Exporting posts, attachments, patient summaries and quizzes...');
+  const res = await fetch(`${BASE_URL}/api/export`, {
+    headers: { 'Authorization': `Bearer ${token}` },
   });
+  if (!res.ok || !res.body) {
+    const json = await res.json().catch(() => ({}));
+    console.error(`Error ${res.status}: ${json.error ?? res.statusText}`);
+    process.exit(1);
+  }
 
-  console.log(`Updated: ${updated.id}`);
-  console.log(`  Tags : ${updated.tags?.length ? updated.tags.join(', ') : '(none)'}`);
-  console.log(`  URL  : ${BASE_URL}/posts/${updated.id}`);
+  try {
+    await pipeline(Readable.fromWeb(res.body), createWriteStream(out, { mode: 0o600 }));
+  } catch (err) {
+    // A failure mid-stream leaves a truncated zip behind; don't let it pass for a backup
+    if (existsSync(out)) unlinkSync(out);
+    console.error(`Export failed: ${err.message}`);
+    process.exit(1);
+  }
+
+  const sizeMb = (statSync(out).size / (1024 * 1024)).toFixed(1);
+  console.log(`Saved: ${out} (${sizeMb} MB)`);
+
+  // Attachments that couldn't be downloaded are listed in export.json rather
+  // than failing the whole export; a backup without them isn't complete
+  let manifest;
+  try {
+    manifest = JSON.parse(readZipEntry(out, 'export.json') ?? 'null');
+  } catch (err) {
+    console.error(`Could not read export.json from the archive: ${err.message}`);
+    process.exit(1);
+  }
+  if (!manifest) {
+    console.error('The archive has no export.json; it may be incomplete.');
+    process.exit(1);
+  }
+  const missing = manifest.missing_media ?? [];
+  if (missing.length > 0) {
+    console.error(`\n${missing.length} attachment(s) could not be exported:`);
+    for (const path of missing) console.error(`  ${path}`);
+    process.exit(1);
+  }
 }
 
 async function cmdList(token, args) {
   const { positional, flags } = parseArgs(args);
 
-  const params = new URLSearchParams();
-  params.set('limit', String(flags.limit ?? 20));
+  // paginate=1 asks /api/posts for { posts, next_cursor } rather than a bare array
+  const params = new URLSearchParams({ paginate: '1' });
+  // --all pages through everything, so use the largest page the API allows
+  params.set('limit', String(flags.limit ?? (flags.all ? 100 : 20)));
   const search = flags.search ?? (positional.length > 0 ? positional.join(' ') : '');
   if (search) params.set('q', String(search));
   if (flags.tag) params.set('tag', String(flags.tag));
+  if (flags.sort) params.set('sort', String(flags.sort));
+  if (flags.cursor) params.set('cursor', String(flags.cursor));
+  // Semantic search has its own endpoint; it ranks by meaning, so --sort doesn't apply
+  if (flags.semantic) params.set('mode', 'semantic');
+  const endpoint = flags.semantic ? '/api/posts/search' : '/api/posts';
+
+  let count = 0;
+  let nextCursor = null;
+  let suggestions = [];
+  do {
+    if (nextCursor) params.set('cursor', nextCursor);
+    const page = await apiFetch(token, `${endpoint}?${params}`);
+    for (const post of page.posts) {
+      printPostSummary(post);
+    }
+    count += page.posts.length;
+    nextCursor = page.next_cursor;
+    if (page.suggestions?.length) suggestions = page.suggestions;
+  } while (flags.all && nextCursor);
 
-  const posts = await apiFetch(token, `/api/posts?${params}`);
+  if (suggestions.length) {
+    console.log(`Did you mean: ${suggestions.map(s => `"${s}"`).join(', ')}?`);
+  }
 
-  if (!posts.length) {
+  if (!count) {
     console.log('No posts found.');
     return;
   }
 
-  for (const post of posts) {
-    printPostSummary(post);
+  console.log(`${count} post${count === 1 ? '' : 's'}`);
+  if (nextCursor) {
+    console.log(`More available: --cursor ${nextCursor}  (or --all to fetch everything)`);
   }
-  console.log(`${posts.length} post${posts.length === 1 ? '' : 's'}`);
+}
+
+async function confirm(question) {
+  const rl = createInterface({ input: process.stdin, output: process.stdout });
+  const answer = await new Promise(resolve => rl.question(question, resolve));
+  rl.close();
+  return answer.toLowerCase() === 'y';
 }
 
 async function promptLine(query) {
@@ -373,17 +850,585 @@ async function cmdDelete(token, args) {
   }
 
   if (!flags.force) {
-    const rl = createInterface({ input: process.stdin, output: process.stdout });
-    const answer = await new Promise(resolve => rl.question(`Delete post ${id}? (y/N) `, resolve));
-    rl.close();
-    if (answer.toLowerCase() !== 'y') {
+    const question = flags.permanent
+      ? `Permanently delete post ${id} and its media? This cannot be undone. (y/N) `
+      : `Move post ${id} to the trash? (y/N) `;
+    if (!(await confirm(question))) {
+      console.log('Cancelled.');
+      process.exit(0);
+    }
+  }
+
+  const result = await apiFetch(token, `/api/posts/${id}${flags.permanent ? '?permanent=true' : ''}`, { method: 'DELETE' });
+  if (result.permanent) {
+    console.log(`Deleted permanently: ${result.deleted}`);
+  } else {
+    console.log(`Moved to trash: ${result.deleted}`);
+    console.log(`  Restore with "trash restore ${result.deleted}" before ${formatDate(result.purge_after)}`);
+  }
+}
+
+async function cmdTrash(token, args) {
+  const { positional, flags } = parseArgs(args);
+  const [action = 'list', id] = positional;
+
+  switch (action) {
+    case 'list': {
+      const posts = await apiFetch(token, '/api/trash');
+      if (posts.length === 0) {
+        console.log('The trash is empty.');
+        return;
+      }
+      for (const post of posts) {
+        const tags = post.tags?.length ? `  [${post.tags.join(', ')}]` : '';
+        const title = post.content.trim().split('\n')[0] ?? '';
+        console.log(`${post.id}  deleted ${formatDate(post.deleted_at)}, purged ${formatDate(post.purge_after)}${tags}`);
+        console.log(`  ${title.slice(0, 76)}`);
+      }
+      return;
+    }
+
+    case 'restore': {
+      if (!id) {
+        console.error('Error: post ID required.  Usage: trash restore <post-id>');
+        process.exit(1);
+      }
+      const post = await apiFetch(token, `/api/posts/${id}/restore`, { method: 'POST' });
+      console.log(`Restored: ${post.id}`);
+      console.log(`  URL  : ${BASE_URL}/posts/${post.id}`);
+      return;
+    }
+
+    case 'purge': {
+      if (!flags.force) {
+        const question = id
+          ? `Permanently delete post ${id} and its media? This cannot be undone. (y/N) `
+          : flags.expired
+            ? 'Permanently delete trashed posts older than 30 days? (y/N) '
+            : 'Permanently delete everything in the trash? This cannot be undone. (y/N) ';
+        if (!(await confirm(question))) {
+          console.log('Cancelled.');
+          process.exit(0);
+        }
+      }
+      if (id) {
+        const result = await apiFetch(token, `/api/posts/${id}?permanent=true`, { method: 'DELETE' });
+        console.log(`Deleted permanently: ${result.deleted}`);
+      } else {
+        const result = await apiFetch(token, `/api/trash${flags.expired ? '?expired=true' : ''}`, { method: 'DELETE' });
+        console.log(`Purged ${result.purged.length} post${result.purged.length === 1 ? '' : 's'}.`);
+      }
+      return;
+    }
+
+    default:
+      console.error(`Unknown trash action: ${action}.  Usage: trash list|restore <post-id>|purge [<post-id>]`);
+      process.exit(1);
+  }
+}
+
+async function cmdSynonyms(token, args) {
+  const { positional, flags } = parseArgs(args);
+  const [action = 'list', term, ...meaning] = positional;
+
+  switch (action) {
+    case 'list': {
+      const { bundled, custom } = await apiFetch(token, '/api/synonyms');
+      for (const s of custom) {
+        console.log(`${s.term}  →  ${s.expansions.join(', ')}`);
+      }
+      if (flags.all) {
+        if (custom.length) console.log();
+        for (const [t, expansions] of Object.entries(bundled).sort(([a], [b]) => a.localeCompare(b))) {
+          console.log(`${t}  →  ${expansions.join(', ')}  (built-in)`);
+        }
+      } else {
+        if (!custom.length) console.log('No synonyms of your own yet.');
+        console.log(`${Object.keys(bundled).length} built-in abbreviations also apply (--all to show them).`);
+      }
+      return;
+    }
+
+    case 'add': {
+      if (!term || meaning.length === 0) {
+        console.error('Error: term and meaning required.  Usage: synonyms add <term> <meaning>[,<meaning>...]');
+        process.exit(1);
+      }
+      const saved = await apiFetch(token, '/api/synonyms', {
+        method: 'POST',
+        body: JSON.stringify({ term, expansions: meaning.join(' ').split(',') }),
+      });
+      console.log(`Saved: ${saved.term}  →  ${saved.expansions.join(', ')}`);
+      return;
+    }
+
+    case 'remove': {
+      if (!term) {
+        console.error('Error: term required.  Usage: synonyms remove <term>');
+        process.exit(1);
+      }
+      const { custom } = await apiFetch(token, '/api/synonyms');
+      const entry = custom.find(s => s.term === term.toLowerCase());
+      if (!entry) {
+        console.error(`Error: no synonym of your own for "${term}" (built-in ones can't be removed).`);
+        process.exit(1);
+      }
+      await apiFetch(token, `/api/synonyms/${entry.id}`, { method: 'DELETE' });
+      console.log(`Removed: ${entry.term}`);
+      return;
+    }
+
+    default:
+      console.error(`Unknown synonyms action: ${action}.  Usage: synonyms list|add <term> <meaning>|remove <term>`);
+      process.exit(1);
+  }
+}
+
+// ── history & merging ─────────────────────────────────────────────────────────
+
+// Line diff (LCS), ported from diffSequences in src/lib/diff.ts (keep the two
+// in step). Returns [op, line] pairs, op being ' ', '-' or '+'.
+const MAX_LCS_CELLS = 4_000_000;
+
+function diffSequences(a, b) {
+  // Trim the common prefix/suffix first; most edits touch a few lines
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) { endA--; endB--; }
+
+  const head = a.slice(0, start).map(line => [' ', line]);
+  const tail = a.slice(endA).map(line => [' ', line]);
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+
+  // Past this the LCS table takes too much memory; show the middle as replaced
+  if (midA.length * midB.length > MAX_LCS_CELLS) {
+    return [...head, ...midA.map(line => ['-', line]), ...midB.map(line => ['+', line]), ...tail];
+  }
+
+  const lcs = Array.from({ length: midA.length + 1 }, () => new Array(midB.length + 1).fill(0));
+  for (let i = midA.length - 1; i >= 0; i--) {
+    for (let j = midB.length - 1; j >= 0; j--) {
+      lcs[i][j] = midA[i] === midB[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+  const middle = [];
+  let i = 0;
+  let j = 0;
+  while (i < midA.length && j < midB.length) {
+    if (midA[i] === midB[j]) { middle.push([' ', midA[i]]); i++; j++; }
+    else if (lcs[i + 1][j] >= lcs[i][j + 1]) middle.push(['-', midA[i++]]);
+    else middle.push(['+', midB[j++]]);
+  }
+  while (i < midA.length) middle.push(['-', midA[i++]]);
+  while (j < midB.length) middle.push(['+', midB[j++]]);
+  return [...head, ...middle, ...tail];
+}
+
+// For printing a revision against the current version
+function diffLines(before, after) {
+  return diffSequences(before.split('\n'), after.split('\n')).map(([op, line]) => `${op} ${line}`);
+}
+
+// Three-way line merge, mirroring merge3 in src/lib/diff.ts
+const CONFLICT_MARKERS = { ours: '<<<<<<< your edit', separator: '=======', theirs: '>>>>>>> server version' };
+
+function toHunks(base, other) {
+  const hunks = [];
+  let basePos = 0;
+  let current = null;
+  for (const [op, line] of diffSequences(base, other)) {
+    if (op === ' ') {
+      if (current) { hunks.push(current); current = null; }
+      basePos++;
+      continue;
+    }
+    current ??= { baseStart: basePos, baseEnd: basePos, lines: [] };
+    if (op === '-') current.baseEnd = ++basePos;
+    else current.lines.push(line);
+  }
+  if (current) hunks.push(current);
+  return hunks;
+}
+
+function applyHunks(base, start, end, hunks) {
+  const out = [];
+  let pos = start;
+  for (const h of hunks) {
+    out.push(...base.slice(pos, h.baseStart), ...h.lines);
+    pos = h.baseEnd;
+  }
+  out.push(...base.slice(pos, end));
+  return out;
+}
+
+function merge3(base, ours, theirs) {
+  const baseLines = base.split('\n');
+  const oursHunks = toHunks(baseLines, ours.split('\n'));
+  const theirsHunks = toHunks(baseLines, theirs.split('\n'));
+  const out = [];
+  let conflicts = 0;
+  let pos = 0;
+  let i = 0;
+  let j = 0;
+
+  while (i < oursHunks.length || j < theirsHunks.length) {
+    const start = Math.min(oursHunks[i]?.baseStart ?? Infinity, theirsHunks[j]?.baseStart ?? Infinity);
+    out.push(...baseLines.slice(pos, start));
+
+    let end = start;
+    const clusterOurs = [];
+    const clusterTheirs = [];
+    for (;;) {
+      if (i < oursHunks.length && oursHunks[i].baseStart <= end) {
+        end = Math.max(end, oursHunks[i].baseEnd);
+        clusterOurs.push(oursHunks[i++]);
+      } else if (j < theirsHunks.length && theirsHunks[j].baseStart <= end) {
+        end = Math.max(end, theirsHunks[j].baseEnd);
+        clusterTheirs.push(theirsHunks[j++]);
+      } else {
+        break;
+      }
+    }
+
+    const oursText = applyHunks(baseLines, start, end, clusterOurs);
+    const theirsText = applyHunks(baseLines, start, end, clusterTheirs);
+    if (clusterTheirs.length === 0 || oursText.join('\n') === theirsText.join('\n')) {
+      out.push(...oursText);
+    } else if (clusterOurs.length === 0) {
+      out.push(...theirsText);
+    } else {
+      conflicts++;
+      out.push(CONFLICT_MARKERS.ours, ...oursText, CONFLICT_MARKERS.separator, ...theirsText, CONFLICT_MARKERS.theirs);
+    }
+    pos = end;
+  }
+
+  out.push(...baseLines.slice(pos));
+  return { text: out.join('\n'), conflicts };
+}
+
+// A revision is referenced by its number in the listing (1 = previous version) or an id prefix
+function findRevision(revisions, ref) {
+  const key = String(ref);
+  if (/^\d+$/.test(key) && Number(key) >= 1 && Number(key) <= revisions.length) {
+    return revisions[Number(key) - 1];
+  }
+  return revisions.find(r => r.id.startsWith(key)) ?? null;
+}
+
+async function cmdHistory(token, args) {
+  const { positional, flags } = parseArgs(args);
+  const id = positional[0];
+
+  if (!id) {
+    console.error('Error: post ID required.  Usage: history <post-id> [--diff <rev> | --restore <rev>]');
+    process.exit(1);
+  }
+
+  const { current, revisions } = await apiFetch(token, `/api/posts/${id}/revisions`);
+
+  if (revisions.length === 0) {
+    console.log('No earlier versions.');
+    return;
+  }
+
+  const ref = flags.diff ?? flags.restore;
+  if (ref === undefined) {
+    const when = iso => new Date(iso).toLocaleString('en-US', { month: 'short', day: 'numeric', year: 'numeric', hour: 'numeric', minute: '2-digit' });
+    console.log(`current  ${when(current.updated_at)}`);
+    revisions.forEach((rev, i) => {
+      const firstLine = rev.content.trim().split('\n')[0] ?? '';
+      console.log(`${String(i + 1).padStart(3)}  ${rev.id.slice(0, 8)}  ${when(rev.saved_at)}  ${firstLine.slice(0, 60)}`);
+    });
+    console.log('\nUse --diff <n> to compare with the current version, --restore <n> to bring it back.');
+    return;
+  }
+
+  const revision = findRevision(revisions, ref);
+  if (!revision) {
+    console.error(`Error: no revision "${ref}". Run "history ${id}" to list them.`);
+    process.exit(1);
+  }
+
+  if (flags.diff !== undefined) {
+    console.log(`--- revision ${revision.id.slice(0, 8)} (${formatDate(revision.saved_at)})`);
+    console.log(`+++ current`);
+    const tagsBefore = revision.tags?.join(', ') || '(none)';
+    const tagsAfter = current.tags?.join(', ') || '(none)';
+    if (tagsBefore !== tagsAfter) console.log(`Tags: ${tagsBefore} → ${tagsAfter}`);
+    console.log(diffLines(revision.content, current.content).join('\n'));
+    return;
+  }
+
+  if (!flags.force) {
+    if (!(await confirm(`Restore revision ${revision.id.slice(0, 8)} from ${formatDate(revision.saved_at)}? (y/N) `))) {
       console.log('Cancelled.');
       process.exit(0);
     }
   }
 
-  const result = await apiFetch(token, `/api/posts/${id}`, { method: 'DELETE' });
-  console.log(`Deleted: ${result.deleted}`);
+  const result = await apiFetch(token, `/api/posts/${id}/revisions/${revision.id}/restore`, { method: 'POST' });
+  console.log(`Restored revision ${result.restored} (the previous version is kept in history)`);
+  console.log(`  URL  : ${BASE_URL}/posts/${result.post.id}`);
+}
+
+// ── import ────────────────────────────────────────────────────────────────────
+
+const IMPORT_BATCH_SIZE = 25;
+const MARKDOWN_EXTENSIONS = new Set(['.md', '.markdown']);
+const IMAGE_EXTENSIONS = new Set(['.png', '.jpg', '.jpeg', '.gif', '.webp', '.avif', '.heic']);
+
+// Recursively list Markdown files, skipping dot-folders such as .obsidian and .trash
+function findMarkdownFiles(dir) {
+  const found = [];
+  for (const entry of readdirSync(dir, { withFileTypes: true })) {
+    if (entry.name.startsWith('.')) continue;
+    const full = join(dir, entry.name);
+    if (entry.isDirectory()) found.push(...findMarkdownFiles(full));
+    else if (MARKDOWN_EXTENSIONS.has(extname(entry.name).toLowerCase())) found.push(full);
+  }
+  return found.sort();
+}
+
+// Index every image in the folder by file name, for Obsidian's ![[image.png]] embeds
+function indexImages(dir, index = new Map()) {
+  for (const entry of readdirSync(dir, { withFileTypes: true })) {
+    if (entry.name.startsWith('.')) continue;
+    const full = join(dir, entry.name);
+    if (entry.isDirectory()) indexImages(full, index);
+    else if (IMAGE_EXTENSIONS.has(extname(entry.name).toLowerCase()) && !index.has(entry.name)) index.set(entry.name, full);
+  }
+  return index;
+}
+
+function parseYamlScalar(raw) {
+  const value = raw.trim();
+  if (value === '' || value === '~' || value === 'null') return null;
+  if (value === 'true' || value === 'false') return value === 'true';
+  if (/^".*"$/.test(value)) {
+    try { return JSON.parse(value); } catch { return value.slice(1, -1); }
+  }
+  if (/^'.*'$/.test(value)) return value.slice(1, -1).replace(/''/g, "'");
+  if (/^\[.*\]$/.test(value)) {
+    return value.slice(1, -1).split(',').map(v => parseYamlScalar(v)).filter(v => v !== null && v !== '');
+  }
+  return value;
+}
+
+// Just enough YAML for note front matter: scalars, [flow, lists] and "- item" lists
+function parseFrontMatter(text) {
+  const match = text.match(/^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/);
+  if (!match) return { meta: {}, body: text };
+
+  const meta = {};
+  let listKey = null;
+  for (const line of match[1].split(/\r?\n/)) {
+    const item = line.match(/^\s*-\s+(.*)$/);
+    if (item && listKey) {
+      meta[listKey].push(parseYamlScalar(item[1]));
+      continue;
+    }
+    const pair = line.match(/^([A-Za-z0-9_-]+):\s*(.*)$/);
+    if (!pair) continue;
+    const [, key, value] = pair;
+    if (value.trim() === '') {
+      meta[key] = [];
+      listKey = key;
+    } else {
+      meta[key] = parseYamlScalar(value);
+      listKey = null;
+    }
+  }
+  return { meta, body: text.slice(match[0].length) };
+}
+
+// #tags outside code; "# Heading" has a space so it never matches
+function extractHashtags(body) {
+  const withoutCode = body.replace(/```[\s\S]*?```/g, '').replace(/`[^`\n]*`/g, '');
+  const tags = [];
+  for (const m of withoutCode.matchAll(/(^|[\s(])#([A-Za-z][\w/-]*)/g)) tags.push(m[2]);
+  return tags;
+}
+
+function normalizeTags(value) {
+  const list = Array.isArray(value) ? value : typeof value === 'string' ? value.split(/[,\s]+/) : [];
+  return list.map(t => String(t).trim().replace(/^#/, '')).filter(Boolean);
+}
+
+// Resolve a link the way Obsidian does: next to the note, from the vault root, then by file name
+function resolveImage(target, filePath, root, imageIndex) {
+  for (const candidate of [resolve(dirname(filePath), target), resolve(root, target)]) {
+    if (existsSync(candidate)) return candidate;
+  }
+  return imageIndex.get(basename(target)) ?? null;
+}
+
+// Local image references: ![alt](relative/path.png) and ![[image.png]]
+// Markdown link targets are usually percent-encoded, but a bare "%" (as in
+// "50%.png") isn't an escape; such targets are taken as written
+function decodeLinkTarget(target) {
+  try {
+    return decodeURIComponent(target);
+  } catch {
+    return target;
+  }
+}
+
+function findLocalImages(body, filePath, root, imageIndex) {
+  const refs = [];
+  for (const m of body.matchAll(/!\[([^\]]*)\]\(([^)\s]+)(?:\s+"[^"]*")?\)/g)) {
+    const target = decodeLinkTarget(m[2]);
+    if (/^[a-z][a-z0-9+.-]*:/i.test(target)) continue; // http(s):, data:, etc.
+    refs.push({ match: m[0], alt: m[1], path: resolveImage(target, filePath, root, imageIndex), name: target });
+  }
+  for (const m of body.matchAll(/!\[\[([^\]|]+)(?:\|[^\]]*)?\]\]/g)) {
+    const name = m[1].trim();
+    if (!IMAGE_EXTENSIONS.has(extname(name).toLowerCase())) continue;
+    refs.push({ match: m[0], alt: basename(name), path: resolveImage(name, filePath, root, imageIndex), name });
+  }
+  return refs;
+}
+
+function readNote(filePath, root, imageIndex, extraTags) {
+  const raw = readFileSync(filePath, 'utf-8');
+  const { meta, body } = parseFrontMatter(raw);
+  const tags = Array.from(new Set([...normalizeTags(meta.tags ?? meta.tag), ...extractHashtags(body), ...extraTags]));
+  // Prefer the date recorded in the note; fall back to the file's own timestamps
+  const stat = statSync(filePath);
+  const fileDate = stat.birthtimeMs > 0 ? stat.birthtime : stat.mtime;
+  const createdAt = meta.created_at ?? meta.created ?? meta.date ?? fileDate.toISOString();
+  return {
+    source: relative(root, filePath),
+    content: body.trim(),
+    tags,
+    created_at: String(createdAt),
+    images: findLocalImages(body, filePath, root, imageIndex),
+  };
+}
+
+async function cmdImport(token, args) {
+  const { positional, flags } = parseArgs(args);
+  const dir = positional[0] ? resolve(positional[0]) : null;
+  const dryRun = !!flags['dry-run'];
+  const extraTags = flags.tags ? String(flags.tags).split(',').map(t => t.trim()).filter(Boolean) : [];
+
+  if (!dir || !existsSync(dir) || !statSync(dir).isDirectory()) {
+    console.error('Error: a folder is required.  Usage: import <dir> [--tags extra] [--dry-run]');
+    process.exit(1);
+  }
+
+  const files = findMarkdownFiles(dir);
+  if (!files.length) {
+    console.log('No Markdown files found.');
+    return;
+  }
+
+  const imageIndex = indexImages(dir);
+  const notes = files.map(f => readNote(f, dir, imageIndex, extraTags));
+  const report = { created: 0, would_create: 0, resume: 0, duplicate: 0, invalid: 0, images: 0, missingImages: [], failedImages: [] };
+
+  console.log(`${dryRun ? 'Dry run: checking' : 'Importing'} ${notes.length} note${notes.length === 1 ? '' : 's'} from ${dir}\n`);
+
+  for (let i = 0; i < notes.length; i += IMPORT_BATCH_SIZE) {
+    const batch = notes.slice(i, i + IMPORT_BATCH_SIZE);
+    const res = await apiFetch(token, '/api/posts/import', {
+      method: 'POST',
+      body: JSON.stringify({
+        dry_run: dryRun,
+        // Notes with images stay pending until their links point at the uploads,
+        // so an import that stops halfway is resumed by the next run
+        posts: batch.map(({ source, content, tags, created_at, images }) => ({
+          source, content, tags, created_at, pending: images.some(img => img.path),
+        })),
+      }),
+    });
+
+    for (const result of res.results) {
+      const note = batch[result.index];
+      report[result.status]++;
+      const missing = note.images.filter(img => !img.path);
+      report.missingImages.push(...missing.map(img => `${note.source}: ${img.name}`));
+
+      if (result.status === 'duplicate') {
+        console.log(`  skip     ${note.source}  (duplicate of ${result.duplicate_of.slice(0, 8)})`);
+        continue;
+      }
+      if (result.status === 'invalid') {
+        console.log(`  invalid  ${note.source}  (${result.error})`);
+        continue;
+      }
+
+      const uploadable = note.images.filter(img => img.path);
+      const imageNote = uploadable.length ? `, ${uploadable.length} image${uploadable.length === 1 ? '' : 's'}` : '';
+      if (dryRun) {
+        report.images += uploadable.length;
+        console.log(`  ${result.status === 'resume' ? 'resume ' : 'create '}  ${note.source}  [${note.tags.join(', ') || 'no tags'}${imageNote}]`);
+        continue;
+      }
+
+      // Upload each referenced image once, then point the links at the stored
+      // copies. A resumed import reuses what the last run uploaded.
+      const previous = new Map();
+      if (result.status === 'resume' && uploadable.length) {
+        for (const file of await apiFetch(token, `/api/posts/${result.id}/media`)) previous.set(file.file_name, file.embed_url);
+      }
+      let content = note.content;
+      const uploadedByPath = new Map();
+      for (const img of uploadable) {
+        if (!uploadedByPath.has(img.path) && previous.has(basename(img.path))) {
+          uploadedByPath.set(img.path, previous.get(basename(img.path)));
+        } else if (!uploadedByPath.has(img.path)) {
+          const form = new FormData();
+          form.append('file', new Blob([readFileSync(img.path)], { type: mimeTypeFor(img.path) }), basename(img.path));
+          const { res, json } = await apiRequest(token, `/api/posts/${result.id}/media`, { method: 'POST', body: form });
+          if (!res.ok) {
+            console.log(`  image failed  ${note.source}: ${img.name}  (${json.error ?? `HTTP ${res.status}`})`);
+            report.failedImages.push(`${note.source}: ${img.name}`);
+            uploadedByPath.set(img.path, null);
+            continue;
+          }
+          const [uploaded] = json;
+          // The stable link: the app signs it when the note is displayed
+          uploadedByPath.set(img.path, uploaded.embed_url);
+          report.images++;
+        }
+        const embedUrl = uploadedByPath.get(img.path);
+        if (embedUrl) content = content.split(img.match).join(`![${img.alt}](${embedUrl})`);
+      }
+      const verb = result.status === 'resume' ? 'resumed' : 'created';
+      // The post stays pending, so running the import again retries the failed images
+      if ([...uploadedByPath.values()].includes(null)) {
+        console.log(`  ${verb.padEnd(7)}  ${note.source}  → ${result.id.slice(0, 8)}${imageNote}  (incomplete)`);
+        continue;
+      }
+      if (uploadable.length || result.status === 'resume') {
+        await apiFetch(token, `/api/posts/import/${result.id}/complete`, { method: 'POST', body: JSON.stringify({ content }) });
+      }
+      console.log(`  ${verb.padEnd(7)}  ${note.source}  → ${result.id.slice(0, 8)}${imageNote}`);
+    }
+  }
+
+  console.log('');
+  if (dryRun) {
+    const resumable = report.resume ? `, resume ${report.resume} unfinished` : '';
+    console.log(`Would create ${report.would_create}${resumable}, skip ${report.duplicate} duplicate${report.duplicate === 1 ? '' : 's'}, upload ${report.images} image${report.images === 1 ? '' : 's'}.`);
+  } else {
+    const resumed = report.resume ? `, resumed ${report.resume} unfinished` : '';
+    console.log(`Created ${report.created}${resumed}, skipped ${report.duplicate} duplicate${report.duplicate === 1 ? '' : 's'}, uploaded ${report.images} image${report.images === 1 ? '' : 's'}.`);
+  }
+  if (report.invalid) console.log(`${report.invalid} file${report.invalid === 1 ? '' : 's'} could not be imported.`);
+  if (report.missingImages.length) {
+    console.log(`\nImages referenced but not found (${report.missingImages.length}):`);
+    for (const line of report.missingImages) console.log(`  ${line}`);
+  }
+  if (report.failedImages.length) {
+    console.log(`\nImages that could not be uploaded (${report.failedImages.length}); run the import again to retry them:`);
+    for (const line of report.failedImages) console.log(`  ${line}`);
+    process.exit(1);
+  }
 }
 
 // ── dispatch ──────────────────────────────────────────────────────────────────
@@ -395,20 +1440,64 @@ medical-notes CLI
 
 Commands:
   signup                               Create a new account (interactive)
+  logout                               Forget the cached email/password session
   add "content" [--tags tag1,tag2]     Create a post from inline text
   add --file ./note.md [--tags ...]    Create a post from a file
   echo "text" | add [--tags ...]       Create a post from stdin
-  show <post-id>                       Print full post content
+  show <post-id>                       Print full post content, with links to its
+                                       attachments (signed; they expire after 10 minutes)
+  related <post-id> [--limit 5]        List the notes most similar in meaning to a post
+  embed                                Embed older posts so semantic search can find them
+  resummarize --post <post-id>         Summarize a post's attachments again
+  resummarize --all-missing            Summarize attachments of posts that have no summary
+  resummarize --failed                 Retry attachments whose summary failed
+                                       (jobs run a few per minute to stay within the
+                                       model's rate limits; waits and prints a report)
   edit <post-id> [--tags tag1,tag2]    Open post in $EDITOR and save changes
+                                       (offers a merge if it was changed meanwhile)
+  attach <post-id> <file...>           Upload files (images, PDFs, docs) to a post
+                                       (prints signed links that expire after 10 minutes;
+                                       image location/camera metadata is removed)
+    --keep-original                    Also keep the unedited images, visible only to you
   list [--limit 20] [--tag x]          List recent posts (shows first 4 lines)
-  search "query" [--limit 20]          Full-text search posts
-  delete <post-id> [--force]           Delete a post (--force skips confirmation)
+  search "query" [--limit 20]          Full-text search posts, best matches first
+    --sort relevance|newest            Order search results (default: relevance)
+    Operators can be mixed with words: tag:x  -tag:x  is:starred  is:mine
+      has:pdf  has:image  after:2025-01-01  before:2025-02-01  "exact phrase"
+      e.g. search 'tag:cardiology has:pdf "heart failure"'
+    Few exact hits add close matches for misspellings and print "Did you mean" suggestions
+    Abbreviations also match what they stand for (MI → myocardial infarction)
+    PDF summaries and attachment text are searched too; such hits say where they matched
+    --semantic                         Rank by meaning (embeddings) instead of keywords
+    --all                              Follow pagination cursors and print every match
+    --cursor <c>                       Resume from the cursor printed by a previous page
+  history <post-id>                    List earlier versions of a post
+    --diff <n>                         Show what changed between version n and now
+    --restore <n> [--force]            Make version n current again
+  delete <post-id> [--force]           Move a post to the trash (--force skips confirmation)
+    --permanent                        Delete immediately instead of using the trash
+  trash list                           Show posts in the trash (kept for 30 days)
+  trash restore <post-id>              Take a post back out of the trash
+  trash purge [<post-id>] [--force]    Permanently delete one trashed post, or all of them
+    --expired                          Only purge posts past the 30-day window
+  synonyms [list] [--all]              Show your search abbreviations (--all adds built-ins)
+  synonyms add <term> <meaning,...>    Make searches for term also find its meanings
+  synonyms remove <term>               Delete one of your abbreviations
+  export [--out backup.zip] [--force]  Download everything as a zip (Markdown + media + JSON)
+  import <dir> [--tags x] [--dry-run]  Import a Markdown folder or Obsidian vault
+                                       (front matter + #hashtags → tags, local images
+                                       uploaded; notes already imported are skipped,
+                                       ones whose images failed are retried)
 
 Credentials (first match wins):
-  1. Env vars: MEDICAL_NOTES_EMAIL, MEDICAL_NOTES_PASSWORD, MEDICAL_NOTES_URL
+  1. Env vars: MEDICAL_NOTES_TOKEN, MEDICAL_NOTES_URL
+     (or MEDICAL_NOTES_EMAIL + MEDICAL_NOTES_PASSWORD)
   2. Config file: ~/.medical-notes.json
-     { "email": "...", "password": "...", "url": "https://www.vmimr.com" }
+     { "token": "mnp_...", "url": "https://www.vmimr.com" }
      chmod 600 ~/.medical-notes.json
+  Create tokens in the web app under Settings → Personal Access Tokens.
+  Email/password sessions are cached in ~/.medical-notes-session.json (chmod 600)
+  and refreshed automatically; run "logout" to remove it.
 
 Tip: when using npm run, add -- to pass flags correctly:
   npm run cli -- add --file ./note.md --tags cardiology
@@ -425,15 +1514,31 @@ if (command === 'signup') {
   process.exit(0);
 }
 
-const token = await signIn();
+if (command === 'logout') {
+  clearCachedSession();
+  console.log(`Removed cached session (${SESSION_PATH}).`);
+  process.exit(0);
+}
+
+// Personal access tokens are sent as-is; otherwise use the cached password session
+const token = ACCESS_TOKEN ?? await getSessionToken();
 
 switch (command) {
   case 'add':    await cmdAdd(token, rest); break;
   case 'show':   await cmdShow(token, rest); break;
+  case 'related': await cmdRelated(token, rest); break;
+  case 'embed':  await cmdEmbed(token); break;
+  case 'resummarize': await cmdResummarize(token, rest); break;
   case 'edit':   await cmdEdit(token, rest); break;
+  case 'attach': await cmdAttach(token, rest); break;
   case 'list':   await cmdList(token, rest); break;
   case 'search': await cmdList(token, rest); break;
+  case 'history': await cmdHistory(token, rest); break;
   case 'delete': await cmdDelete(token, rest); break;
+  case 'trash':  await cmdTrash(token, rest); break;
+  case 'synonyms': await cmdSynonyms(token, rest); break;
+  case 'export': await cmdExport(token, rest); break;
+  case 'import': await cmdImport(token, rest); break;
   default:
     console.error(`Unknown command: ${command}`);
     console.log(HELP);
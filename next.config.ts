@@ -1,6 +1,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
+  // pdf-parse loads its pdf.js build with a dynamic require, which the bundler can't follow
+  serverExternalPackages: ["pdf-parse"],
 };
 
 export default nextConfig;
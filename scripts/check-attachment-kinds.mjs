@@ -0,0 +1,88 @@
+#!/usr/bin/env node
+// The attachment kinds that can be summarized are listed three times, in code
+// that can't share a module: KINDS in src/lib/attachmentTypes.ts (the app),
+// KINDS and EXTRACTORS in the summarize-document edge function (Deno) and
+// summarizable_file_type() in the latest migration that defines it (SQL).
+// This fails when they disagree.
+//
+//   npm run check:attachment-kinds
+
+import { readFileSync, readdirSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+
+const root = join(dirname(fileURLToPath(import.meta.url)), '..');
+const read = path => readFileSync(join(root, path), 'utf8');
+const strings = list => [...list.matchAll(/'([^']*)'/g)].map(m => m[1]);
+
+// { kind: 'pdf', mimeTypes: [...], extensions: [...] } entries of a KINDS array
+function parseKinds(source, file) {
+  const start = source.indexOf('const KINDS');
+  if (start < 0) throw new Error(`${file}: KINDS not found`);
+  const block = source.slice(start, source.indexOf('\n];', start));
+  const kinds = new Map();
+  for (const m of block.matchAll(/kind:\s*'(\w+)',\s*mimeTypes:\s*\[([^\]]*)\],\s*extensions:\s*\[([^\]]*)\]/g)) {
+    kinds.set(m[1], { mimeTypes: strings(m[2]), extensions: strings(m[3]) });
+  }
+  if (kinds.size === 0) throw new Error(`${file}: no entries found in KINDS`);
+  return kinds;
+}
+
+function parseSql() {
+  const migrations = readdirSync(join(root, 'supabase/migrations')).filter(f => f.endsWith('.sql')).sort();
+  const file = migrations.reverse().find(f => /FUNCTION summarizable_file_type\(/.test(read(`supabase/migrations/${f}`)));
+  if (!file) throw new Error('no migration defines summarizable_file_type()');
+  const source = read(`supabase/migrations/${file}`);
+  const body = source.slice(source.indexOf('FUNCTION summarizable_file_type('));
+  const lists = [...body.matchAll(/\bIN \(([^)]*)\)/g)].map(m => strings(m[1]));
+  // The MIME types, the NOT IN of unknown types, then the extensions
+  const [mimeTypes, , extensions] = lists;
+  if (!mimeTypes || !extensions) throw new Error(`${file}: could not read summarizable_file_type()`);
+  return { file, mimeTypes, extensions };
+}
+
+const sameSet = (a, b) => a.length === b.length && [...a].sort().join('\n') === [...b].sort().join('\n');
+
+const appFile = 'src/lib/attachmentTypes.ts';
+const edgeFile = 'supabase/functions/summarize-document/index.ts';
+const edgeSource = read(edgeFile);
+const app = parseKinds(read(appFile), appFile);
+const edge = parseKinds(edgeSource, edgeFile);
+const sql = parseSql();
+
+const problems = [];
+for (const kind of new Set([...app.keys(), ...edge.keys()])) {
+  const a = app.get(kind);
+  const e = edge.get(kind);
+  if (!a) problems.push(`${edgeFile} has kind "${kind}", ${appFile} doesn't`);
+  else if (!e) problems.push(`${appFile} has kind "${kind}", ${edgeFile} doesn't`);
+  else {
+    if (!sameSet(a.mimeTypes, e.mimeTypes)) problems.push(`"${kind}" MIME types differ between ${appFile} and ${edgeFile}`);
+    if (!sameSet(a.extensions, e.extensions)) problems.push(`"${kind}" extensions differ between ${appFile} and ${edgeFile}`);
+  }
+}
+
+// Images are summarized from their OCR text, every other kind needs an extractor
+const extractorsStart = edgeSource.indexOf('const EXTRACTORS');
+const extractorsBlock = edgeSource.slice(extractorsStart, edgeSource.indexOf('\n};', extractorsStart));
+const extractors = [...extractorsBlock.matchAll(/^ {2}async (\w+)\(/gm)].map(m => m[1]);
+const documentKinds = [...app.keys()].filter(kind => kind !== 'image');
+if (!sameSet(extractors, documentKinds)) {
+  problems.push(`EXTRACTORS in ${edgeFile} covers ${extractors.join(', ')}; expected ${documentKinds.join(', ')}`);
+}
+
+const appMimeTypes = [...app.values()].flatMap(k => k.mimeTypes);
+const appExtensions = [...app.values()].flatMap(k => k.extensions);
+if (!sameSet(appMimeTypes, sql.mimeTypes)) {
+  problems.push(`summarizable_file_type() in ${sql.file} lists different MIME types than ${appFile}`);
+}
+if (!sameSet(appExtensions, sql.extensions)) {
+  problems.push(`summarizable_file_type() in ${sql.file} lists different extensions than ${appFile}`);
+}
+
+if (problems.length > 0) {
+  console.error('Attachment kinds are out of sync:');
+  for (const problem of problems) console.error(`  ${problem}`);
+  process.exit(1);
+}
+console.log(`Attachment kinds agree: ${[...app.keys()].join(', ')} (SQL: ${sql.file})`);
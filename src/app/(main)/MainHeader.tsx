@@ -9,6 +9,7 @@ import { Bars3Icon } from "@heroicons/react/24/outline";
 import type { Session } from "@supabase/supabase-js";
 
 const URL_FILTERS_CHANGED_EVENT = "medical-notes:url-change";
+const SEARCH_SUGGESTIONS_EVENT = "medical-notes:search-suggestions";
 
 function notifyUrlFiltersChanged(url: string) {
   window.dispatchEvent(new CustomEvent(URL_FILTERS_CHANGED_EVENT, { detail: url }));
@@ -32,6 +33,7 @@ export function HeaderFallback() {
 export default function MainHeader() {
   const [session, setSession] = useState<Session | null>(null);
   const [inputValue, setInputValue] = useState("");
+  const [suggestions, setSuggestions] = useState<string[]>([]);
   const router = useRouter();
   const pathname = usePathname();
   const searchParams = useSearchParams();
@@ -44,6 +46,15 @@ export default function MainHeader() {
     return () => subscription.unsubscribe();
   }, []);
 
+  // PostsClient reports "did you mean" queries when a search finds little
+  useEffect(() => {
+    const showSuggestions = (event: Event) => {
+      if (event instanceof CustomEvent && Array.isArray(event.detail)) setSuggestions(event.detail);
+    };
+    window.addEventListener(SEARCH_SUGGESTIONS_EVENT, showSuggestions);
+    return () => window.removeEventListener(SEARCH_SUGGESTIONS_EVENT, showSuggestions);
+  }, []);
+
   useEffect(() => {
     if (!initializedRef.current) {
       initializedRef.current = true;
@@ -148,6 +159,13 @@ export default function MainHeader() {
                         </Link>
                       )}
                     </Menu.Item>
+                    <Menu.Item>
+                      {({ active }: { active: boolean }) => (
+                        <Link href="/trash" legacyBehavior>
+                          <a className={`block px-4 py-2 text-sm text-gray-700 ${active ? "bg-gray-50" : ""}`}>Trash</a>
+                        </Link>
+                      )}
+                    </Menu.Item>
                     <Menu.Item>
                       {({ active }: { active: boolean }) => (
                         <Link href="/integrations" legacyBehavior>
@@ -229,6 +247,13 @@ export default function MainHeader() {
                       </Link>
                     )}
                   </Menu.Item>
+                  <Menu.Item>
+                    {({ active }: { active: boolean }) => (
+                      <Link href="/trash" legacyBehavior>
+                        <a className={`block px-4 py-2 text-sm ${active ? "bg-gray-100 text-gray-900" : "text-gray-700"}`}>Trash</a>
+                      </Link>
+                    )}
+                  </Menu.Item>
                   <div className="border-t border-gray-100 my-1" />
                   <Menu.Item>
                     {({ active }: { active: boolean }) => (
@@ -256,17 +281,40 @@ export default function MainHeader() {
         </div>
       </div>
 
-      <div className="mb-5 relative">
-        <svg className="absolute left-3.5 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400 pointer-events-none" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
-          <path strokeLinecap="round" strokeLinejoin="round" d="m21 21-4.35-4.35M17 11A6 6 0 1 1 5 11a6 6 0 0 1 12 0Z" />
-        </svg>
-        <input
-          type="search"
-          placeholder="Search posts by content or tags..."
-          value={inputValue}
-          onChange={(e) => setInputValue(e.target.value)}
-          className="block w-full pl-10 pr-4 py-2.5 bg-white border border-gray-200 rounded-xl shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 sm:text-sm text-gray-900 placeholder-gray-400"
-        />
+      <div className="mb-5">
+        <div className="relative">
+          <svg className="absolute left-3.5 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400 pointer-events-none" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+            <path strokeLinecap="round" strokeLinejoin="round" d="m21 21-4.35-4.35M17 11A6 6 0 1 1 5 11a6 6 0 0 1 12 0Z" />
+          </svg>
+          <input
+            type="search"
+            placeholder="Search… try tag:cardiology is:starred has:pdf after:2025-01-01"
+            value={inputValue}
+            onChange={(e) => setInputValue(e.target.value)}
+            className="block w-full pl-10 pr-4 py-2.5 bg-white border border-gray-200 rounded-xl shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 sm:text-sm text-gray-900 placeholder-gray-400"
+          />
+        </div>
+        {isHome && inputValue && suggestions.length > 0 && (
+          <p className="mt-2 px-1 text-sm text-gray-500">
+            Did you mean{" "}
+            {suggestions.map((suggestion, i) => (
+              <span key={suggestion}>
+                {i > 0 && (i === suggestions.length - 1 ? " or " : ", ")}
+                <button
+                  type="button"
+                  onClick={() => {
+                    setSuggestions([]);
+                    setInputValue(suggestion);
+                  }}
+                  className="font-medium text-blue-600 hover:underline"
+                >
+                  {suggestion}
+                </button>
+              </span>
+            ))}
+            ?
+          </p>
+        )}
       </div>
     </div>
   );
@@ -1,6 +1,7 @@
 import PostsClient from '../PostsClient';
 import type { Post } from '../PostsClient';
 import { supabase } from '../../lib/supabaseClient';
+import { attachmentKind, type DocumentKind } from '../../lib/attachmentTypes';
 
 const PAGE_SIZE = 20;
 const LIST_CONTENT_MAX_LENGTH = 800;
@@ -19,7 +20,7 @@ async function attachMediaInfo(posts: Post[]): Promise<Post[]> {
   const postIds = posts.map((p) => p.id);
   const { data: mediaFiles, error: mediaError } = await supabase
     .from('media_files')
-    .select('post_id, file_path, file_type')
+    .select('post_id, file_path, file_name, file_type')
     .in('post_id', postIds);
 
   if (mediaError || !mediaFiles) {
@@ -27,18 +28,23 @@ async function attachMediaInfo(posts: Post[]): Promise<Post[]> {
       ...post,
       imagePaths: [],
       hasPdf: false,
+      documentKinds: [],
     }));
   }
 
-  const postMediaInfo: Record<string, { imagePaths: string[]; hasPdf: boolean }> = {};
+  const postMediaInfo: Record<string, { imagePaths: string[]; hasPdf: boolean; documentKinds: DocumentKind[] }> = {};
   mediaFiles.forEach((file) => {
     if (!file.post_id || !file.file_path) return;
     if (!postMediaInfo[file.post_id]) {
-      postMediaInfo[file.post_id] = { imagePaths: [], hasPdf: false };
+      postMediaInfo[file.post_id] = { imagePaths: [], hasPdf: false, documentKinds: [] };
     }
     if (file.file_type?.includes('pdf')) {
       postMediaInfo[file.post_id].hasPdf = true;
     }
+    const kind = attachmentKind(file);
+    if (kind && kind !== 'image' && !postMediaInfo[file.post_id].documentKinds.includes(kind)) {
+      postMediaInfo[file.post_id].documentKinds.push(kind);
+    }
     if (file.file_type?.startsWith('image/')) {
       if (!postMediaInfo[file.post_id].imagePaths.includes(file.file_path)) {
         postMediaInfo[file.post_id].imagePaths.push(file.file_path);
@@ -50,6 +56,7 @@ async function attachMediaInfo(posts: Post[]): Promise<Post[]> {
     ...post,
     imagePaths: postMediaInfo[post.id]?.imagePaths || [],
     hasPdf: postMediaInfo[post.id]?.hasPdf || false,
+    documentKinds: postMediaInfo[post.id]?.documentKinds || [],
   }));
 }
 
@@ -58,6 +65,7 @@ async function getInitialPosts() {
     const { data: postsData, error: postsError } = await supabase
       .from('posts')
       .select('id, created_at, content, tags, is_starred, user_id')
+      .is('deleted_at', null)
       .order('created_at', { ascending: false })
       .range(0, PAGE_SIZE - 1);
 
@@ -11,14 +11,17 @@ import type { Session } from '@supabase/supabase-js';
 import Image from 'next/image';
 import { Fragment } from 'react';
 import PatientSummarySection from '../../../posts/[id]/PatientSummarySection';
-
-type MediaFile = {
-    id: string;
-    file_name: string;
-    file_path: string;
-    file_type: string;
-    uploaded_at: string;
-};
+import RevisionHistory from './RevisionHistory';
+import RelatedNotes from './RelatedNotes';
+import { purgeAfter, TRASH_RETENTION_DAYS } from '@/lib/trash';
+import { refreshEmbedding } from '@/lib/embeddingRefresh';
+import { summaryState, SUMMARY_JOB_COLUMNS, type SummaryJob } from '@/lib/summaryJobs';
+import { attachmentKind } from '@/lib/attachmentTypes';
+import { linkPageCitations } from '@/lib/pageCitations';
+import { pdfHash } from '@/lib/pdfViewer';
+import { mediaPathFromUrl, resolveMediaSrc } from '@/lib/media';
+import PdfViewer, { usePdfDeepLink } from '../../../PdfViewer';
+import { useMediaUrls } from '../../../useMediaUrls';
 
 type Post = {
   id: string;
@@ -28,9 +31,10 @@ type Post = {
   tags: string[] | null;
   is_starred: boolean;
   user_id: string;
-  secret_url?: string | null;
   summary?: string | null;
-  media_files?: MediaFile[];
+  // The attachment the summary was generated from (its page citations link there)
+  summary_file_path?: string | null;
+  deleted_at?: string | null;
 };
 
 type PatientSummary = {
@@ -38,9 +42,11 @@ type PatientSummary = {
   summary: string;
 };
 
+// Never secret_url: share secrets aren't readable (see 20261021_hide_share_secrets.sql)
+const POST_COLUMNS = 'id, created_at, updated_at, content, tags, is_starred, user_id, summary, summary_file_path, deleted_at';
+
 type PostDetailClientProps = {
   initialPost?: Post | null;
-  initialMediaFiles?: MediaFile[];
 };
 
 // ── Accent color ─────────────────────────────────────────────────────────────
@@ -74,7 +80,6 @@ function getAccentColor(tags: string[] | null): AccentColor {
 
 export default function PostDetailClient({
   initialPost = null,
-  initialMediaFiles = [],
 }: PostDetailClientProps) {
   const [post, setPost] = useState<Post | null>(() => {
     if (initialPost) return initialPost;
@@ -92,24 +97,32 @@ export default function PostDetailClient({
     }
   });
   const [session, setSession] = useState<Session | null>(null);
-  const [mediaFiles, setMediaFiles] = useState<MediaFile[]>(initialMediaFiles);
   const [isStarred, setIsStarred] = useState(initialPost?.is_starred || false);
-  const [secretUrl, setSecretUrl] = useState<string | null>(initialPost?.secret_url || null);
+  // Only the owner can read it, through post_share_secret
+  const [secretUrl, setSecretUrl] = useState<string | null>(null);
   const [loading, setLoading] = useState(!initialPost);
   const [togglingStar, setTogglingStar] = useState(false);
   const [generatingLink, setGeneratingLink] = useState(false);
   const [deleting, setDeleting] = useState(false);
+  const [restoring, setRestoring] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [isSummarizationPending, setIsSummarizationPending] = useState(false);
+  const [summaryJobs, setSummaryJobs] = useState<SummaryJob[]>([]);
+  const [retryingSummary, setRetryingSummary] = useState(false);
   const [revokingLink, setRevokingLink] = useState(false);
   const [patientSummary, setPatientSummary] = useState<PatientSummary | null>(null);
   const [patientSummaryLoading, setPatientSummaryLoading] = useState(false);
   const [patientSummaryError, setPatientSummaryError] = useState<string | null>(null);
   const [feedback, setFeedback] = useState('');
   const [showShareUrl, setShowShareUrl] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
   const params = useParams();
   const router = useRouter();
   const postId = params?.id as string;
+  // Attachments are private to the post's owner and come with short-lived signed URLs
+  const { files: mediaFiles, urls: mediaUrls, mediumUrls, error: mediaError } = useMediaUrls(
+    postId ? { postIds: [postId] } : null,
+    session?.access_token
+  );
 
   useLayoutEffect(() => {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -131,11 +144,10 @@ export default function PostDetailClient({
         setSession(currentSession);
         if (!postId) { setError("Post ID is missing."); setLoading(false); return; }
         if (initialPost?.id === postId) {
-          checkSummaryStatus(initialPost, initialMediaFiles);
           setLoading(false);
           return;
         }
-        await Promise.all([fetchPost(postId), fetchMediaFiles(postId)]);
+        await fetchPost(postId);
       } catch (err: unknown) {
         const message = err instanceof Error ? err.message : 'An unknown error occurred during setup.';
         setError(`Failed to load page: ${message}`);
@@ -146,16 +158,16 @@ export default function PostDetailClient({
     checkSessionAndFetch();
     const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => setSession(session));
     return () => subscription?.unsubscribe();
-  }, [postId, router, initialPost, initialMediaFiles]);
+  }, [postId, router, initialPost]);
 
   const fetchPost = async (id: string) => {
     try {
-      const { data, error: fetchError } = await supabase.from('posts').select('*').eq('id', id).single();
+      const { data, error: fetchError } = await supabase.from('posts').select(POST_COLUMNS).eq('id', id).single();
       if (fetchError) {
         setError(prev => prev || (fetchError.code === 'PGRST116' ? "Post not found or permission denied." : fetchError.message));
         setPost(null); setIsStarred(false); setSecretUrl(null);
       } else {
-        setPost(data); setIsStarred(data.is_starred); setSecretUrl(data.secret_url || null);
+        setPost(data); setIsStarred(data.is_starred);
       }
     } catch (err) {
       const message = err instanceof Error ? err.message : 'Unknown error';
@@ -164,31 +176,28 @@ export default function PostDetailClient({
     }
   };
 
-  const fetchMediaFiles = async (id: string) => {
+  // Re-queue failed summaries; progress arrives through the summary_jobs subscription
+  const retrySummary = async () => {
+    if (!post || !session || retryingSummary) return;
+    setRetryingSummary(true);
     try {
-      const { data, error: fetchError } = await supabase.from('media_files').select('*').eq('post_id', id).order('uploaded_at', { ascending: true });
-      if (fetchError) throw fetchError;
-      const fetchedMedia = data || [];
-      setMediaFiles(fetchedMedia);
-      checkSummaryStatus(post, fetchedMedia);
+      const res = await fetch(`/api/posts/${post.id}/summary`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${session.access_token}` },
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => null);
+        throw new Error(body?.error || `HTTP ${res.status}`);
+      }
+      setSummaryJobs(prev => prev.map(job => job.status === 'failed' ? { ...job, status: 'queued', attempts: 0, last_error: null } : job));
     } catch (err) {
       const message = err instanceof Error ? err.message : 'Unknown error';
-      setError(prev => prev || `Failed to load media: ${message}`);
-      setMediaFiles([]);
-    }
-  };
-
-  const checkSummaryStatus = (currentPost: Post | null, currentMedia: MediaFile[]) => {
-    if (currentPost && !currentPost.summary) {
-      setIsSummarizationPending(currentMedia.some(f => f.file_type?.includes('pdf')));
-    } else {
-      setIsSummarizationPending(false);
+      setError(`Retry failed: ${message}`);
+    } finally {
+      setRetryingSummary(false);
     }
   };
 
-  const getMediaUrl = (filePath: string): string =>
-    supabase.storage.from('post-media').getPublicUrl(filePath).data.publicUrl;
-
   const toggleStar = async () => {
     if (!post || togglingStar) return;
     setTogglingStar(true);
@@ -212,11 +221,10 @@ export default function PostDetailClient({
       let link = secretUrl;
       if (!link) {
         const newSecret = uuidv4();
-        const { data: updated, error: updateError } = await supabase.from('posts').update({ secret_url: newSecret }).eq('id', post.id).select('secret_url').single();
+        const { error: updateError } = await supabase.from('posts').update({ secret_url: newSecret }).eq('id', post.id);
         if (updateError) throw updateError;
-        link = updated.secret_url;
+        link = newSecret;
         setSecretUrl(link);
-        setPost(prev => prev ? { ...prev, secret_url: link } : null);
       }
       setShowShareUrl(true);
     } catch (err) {
@@ -239,7 +247,6 @@ export default function PostDetailClient({
       const { error: updateError } = await supabase.from('posts').update({ secret_url: null }).eq('id', post.id).eq('user_id', session.user.id);
       if (updateError) throw updateError;
       setSecretUrl(null);
-      setPost(prev => prev ? { ...prev, secret_url: null } : null);
     } catch (err) {
       const message = err instanceof Error ? err.message : 'Could not revoke link';
       setError(`Error: ${message}`);
@@ -250,13 +257,10 @@ export default function PostDetailClient({
 
   const handleDelete = async () => {
     if (!post || deleting) return;
-    if (!window.confirm("Delete this post and all its media? This cannot be undone.")) return;
+    if (!window.confirm(`Move this post to the trash? You can restore it for ${TRASH_RETENTION_DAYS} days.`)) return;
     setDeleting(true);
     try {
-      const paths = mediaFiles.map(f => f.file_path);
-      if (paths.length > 0) await supabase.storage.from('post-media').remove(paths);
-      await supabase.from('media_files').delete().eq('post_id', post.id);
-      const { error: postErr } = await supabase.from('posts').delete().eq('id', post.id);
+      const { error: postErr } = await supabase.from('posts').update({ deleted_at: new Date().toISOString() }).eq('id', post.id);
       if (postErr) throw postErr;
       router.push('/');
     } catch (err) {
@@ -266,20 +270,63 @@ export default function PostDetailClient({
     }
   };
 
+  const handleRestore = async () => {
+    if (!post || restoring) return;
+    setRestoring(true);
+    try {
+      const { error: restoreErr } = await supabase.from('posts').update({ deleted_at: null }).eq('id', post.id);
+      if (restoreErr) throw restoreErr;
+      setPost(prev => prev ? { ...prev, deleted_at: null } : null);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      setError(`Restore failed: ${message}`);
+    } finally {
+      setRestoring(false);
+    }
+  };
+
   useEffect(() => {
     if (!postId) return;
-    checkSummaryStatus(post, mediaFiles);
     const channel = supabase.channel(`post_updates_${postId}`)
       .on<Post>('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'posts', filter: `id=eq.${postId}` }, (payload) => {
         const updated = payload.new as Post;
         if (post && updated.summary !== post.summary) {
-          setPost(prev => prev ? { ...prev, summary: updated.summary, updated_at: updated.updated_at } : null);
-          setIsSummarizationPending(false);
+          setPost(prev => prev ? { ...prev, summary: updated.summary, summary_file_path: updated.summary_file_path, updated_at: updated.updated_at } : null);
         }
       })
       .subscribe();
     return () => { supabase.removeChannel(channel); };
-  }, [postId, post, mediaFiles]);
+  }, [postId, post]);
+
+  // The share secret isn't readable from posts; the owner asks for it
+  const ownerId = post?.user_id;
+  useEffect(() => {
+    if (!postId || !session || session.user.id !== ownerId) return;
+    supabase.rpc('post_share_secret', { p_post_id: postId }).then(({ data, error: secretError }) => {
+      if (secretError) console.error('Could not load the share link:', secretError);
+      else setSecretUrl((data as string | null) || null);
+    });
+  }, [postId, session, ownerId]);
+
+  // Summary jobs are only visible to the post's owner, so refetch once the session is known
+  useEffect(() => {
+    if (!postId) return;
+    const fetchSummaryJobs = async () => {
+      const { data } = await supabase
+        .from('summary_jobs')
+        .select(SUMMARY_JOB_COLUMNS)
+        .eq('post_id', postId)
+        .order('created_at', { ascending: true });
+      setSummaryJobs((data ?? []) as SummaryJob[]);
+    };
+    fetchSummaryJobs();
+    const channel = supabase.channel(`summary_jobs_${postId}`)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'summary_jobs', filter: `post_id=eq.${postId}` }, () => {
+        fetchSummaryJobs();
+      })
+      .subscribe();
+    return () => { supabase.removeChannel(channel); };
+  }, [postId, session]);
 
   useEffect(() => {
     const fetchExistingPatientSummary = async () => {
@@ -312,6 +359,14 @@ export default function PostDetailClient({
     if (post) document.title = post.content.split('\n').find(l => l.trim()) || 'Medical Note';
   }, [post]);
 
+  // A bare #page=N link opens the PDF the summary came from
+  const pdfFiles = mediaFiles.filter(f => attachmentKind(f) === 'pdf');
+  const pdfIds = pdfFiles
+    .slice()
+    .sort((a, b) => Number(b.file_path === post?.summary_file_path) - Number(a.file_path === post?.summary_file_path))
+    .map(f => f.id);
+  const { open: openPdf, openPdf: showPdf, closePdf, pageChanged } = usePdfDeepLink(pdfIds);
+
   if (loading && !post) return <div className="py-8 text-center text-gray-400 text-sm">Loading post...</div>;
   if (error && !post) return <div className="py-8 text-center"><p className="text-red-600 mb-4">{error}</p><Link href="/"><a className="text-blue-600 hover:underline">Go back</a></Link></div>;
   if (!post) return <div className="py-8 text-center"><p className="text-gray-600 mb-4">Post not found.</p><Link href="/"><a className="text-blue-600 hover:underline">Go back</a></Link></div>;
@@ -320,11 +375,45 @@ export default function PostDetailClient({
   const otherFiles = mediaFiles.filter(f => !f.file_type?.startsWith('image/'));
   const accent = getAccentColor(post.tags);
   const colors = COLOR_CONFIG[accent];
+  const isOwner = !!session && session.user.id === post.user_id;
+  const summaryStatus = summaryState(summaryJobs);
+  const failedSummaryJob = summaryJobs.find(job => job.status === 'failed');
+  // A queued job with an error is waiting out its backoff before the next attempt
+  const backingOffJob = summaryJobs.find(job => job.status === 'queued' && job.last_error);
+  const summaryTemplate = summaryJobs.find(job => job.status === 'succeeded' && job.template_name)?.template_name;
+  // Summaries from before summary_file_path was recorded cite the post's only PDF
+  const citedPdf = post.summary_file_path
+    ? pdfFiles.find(f => f.file_path === post.summary_file_path)
+    : pdfFiles.length === 1 ? pdfFiles[0] : undefined;
+  const summaryMarkdown = post.summary && citedPdf
+    ? linkPageCitations(post.summary, page => pdfHash(citedPdf.id, page))
+    : post.summary;
+  const hasUnsummarized = !post.summary && summaryStatus === 'none' && mediaFiles.some(f => attachmentKind(f) && !f.file_type?.startsWith('image/'));
 
   return (
     <div className="vt-active-card">
+      {/* ── Trash banner ────────────────────────────────────────── */}
+      {post.deleted_at && (
+        <div className="mb-5 p-3 rounded-xl border border-red-200 bg-red-50 flex items-center justify-between gap-4 text-sm text-red-700">
+          <span>
+            This post is in the trash and will be permanently deleted on{' '}
+            {new Date(purgeAfter(post.deleted_at)).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}.
+          </span>
+          <div className="flex items-center gap-2 shrink-0">
+            <Link href="/trash" className="text-xs text-red-600 hover:underline">Trash</Link>
+            <button
+              onClick={handleRestore}
+              disabled={restoring}
+              className="px-3 py-1.5 rounded-lg border border-red-200 bg-white text-xs font-medium text-red-700 hover:bg-red-100 disabled:opacity-50"
+            >
+              {restoring ? 'Restoring…' : 'Restore'}
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* ── Action bar ──────────────────────────────────────────── */}
-      {session && session.user.id === post.user_id && (
+      {session && session.user.id === post.user_id && !post.deleted_at && (
         <div className="mb-5 flex flex-wrap justify-end items-center gap-2">
           <button
             onClick={toggleStar}
@@ -346,6 +435,14 @@ export default function PostDetailClient({
             >
               {generatingLink ? 'Generating…' : (secretUrl ? (showShareUrl ? 'Hide' : 'Share') : 'Share')}
             </button>
+            <button
+              onClick={() => setShowHistory(v => !v)}
+              className={`inline-flex items-center justify-center px-3 py-1.5 text-sm font-medium transition-colors ${
+                showHistory ? 'bg-gray-100 text-gray-800' : 'text-gray-600 hover:bg-gray-50'
+              }`}
+            >
+              History
+            </button>
             <button
               onClick={handleDelete}
               disabled={deleting}
@@ -389,30 +486,110 @@ export default function PostDetailClient({
       </div>
 
       {error && <p className="text-red-600 text-sm mb-4">Note: {error}</p>}
+      {mediaError && <p className="text-red-600 text-sm mb-4">Could not load attachments: {mediaError}</p>}
+
+      {/* ── Revision history ────────────────────────────────────── */}
+      {showHistory && session && session.user.id === post.user_id && (
+        <RevisionHistory
+          post={post}
+          onRestored={updated => {
+            setPost(prev => prev ? { ...prev, ...updated } : null);
+            refreshEmbedding(post.id, session.access_token);
+          }}
+        />
+      )}
 
       {/* ── Article ─────────────────────────────────────────────── */}
       <article
         className="prose prose-gray max-w-none bg-white px-6 py-5 rounded-xl border border-gray-100 shadow-sm mb-6"
         style={{ borderLeft: `3px solid ${colors.border}` }}
       >
-        <ReactMarkdown remarkPlugins={[remarkGfm]}>{post.content}</ReactMarkdown>
+        <ReactMarkdown
+          remarkPlugins={[remarkGfm]}
+          components={{
+            // Images embedded from our storage are swapped for signed URLs
+            img: ({ src, alt }) => {
+              const resolved = typeof src === 'string' ? resolveMediaSrc(src, mediumUrls) : null;
+              // eslint-disable-next-line @next/next/no-img-element
+              if (resolved) return <img src={resolved} alt={alt ?? ''} />;
+              // Attachments of other people's posts aren't signed for us
+              if (!isOwner && typeof src === 'string' && mediaPathFromUrl(src)) {
+                return (
+                  <span className="inline-block px-3 py-2 rounded bg-gray-100 text-xs text-gray-500 not-prose">
+                    🔒 {alt || 'Image'} is only visible to the author
+                  </span>
+                );
+              }
+              return null;
+            },
+          }}
+        >
+          {post.content}
+        </ReactMarkdown>
       </article>
 
       {/* ── Summary ─────────────────────────────────────────────── */}
       <div className="mt-4 mb-6">
-        {isSummarizationPending && !post.summary?.startsWith('Error:') && (
-          <div className="p-4 border-l-4 border-yellow-300 bg-yellow-50 rounded text-sm text-yellow-700">Summary generation in progress...</div>
+        {summaryStatus === 'pending' && (
+          <div className="p-4 border-l-4 border-yellow-300 bg-yellow-50 rounded text-sm text-yellow-700">
+            Summary generation in progress...
+            {backingOffJob && (
+              <p className="mt-1 text-xs">
+                Attempt {backingOffJob.attempts} of {backingOffJob.max_attempts} failed ({backingOffJob.last_error}); retrying at{' '}
+                {new Date(backingOffJob.run_after).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })}.
+              </p>
+            )}
+          </div>
         )}
-        {post.summary?.startsWith('Error:') && (
-          <div className="p-4 border-l-4 border-red-300 bg-red-50 rounded text-sm text-red-700">
-            <h3 className="font-semibold text-red-800">Summarization Failed:</h3>
-            <p className="mt-1">{post.summary}</p>
+        {summaryStatus === 'failed' && failedSummaryJob && (
+          <div className="p-4 border-l-4 border-red-300 bg-red-50 rounded text-sm text-red-700 flex items-start justify-between gap-4">
+            <div>
+              <h3 className="font-semibold text-red-800">Summarization Failed:</h3>
+              <p className="mt-1">{failedSummaryJob.last_error ?? 'Unknown error'}</p>
+              <p className="mt-1 text-xs text-red-600">Gave up after {failedSummaryJob.attempts} attempt{failedSummaryJob.attempts === 1 ? '' : 's'}.</p>
+            </div>
+            {isOwner && !post.deleted_at && (
+              <button
+                onClick={retrySummary}
+                disabled={retryingSummary}
+                className="shrink-0 px-3 py-1.5 rounded-lg border border-red-200 bg-white text-xs font-medium text-red-700 hover:bg-red-100 disabled:opacity-50"
+              >
+                {retryingSummary ? 'Retrying…' : 'Retry summary'}
+              </button>
+            )}
           </div>
         )}
-        {post.summary && !post.summary.startsWith('Error:') && (
+        {hasUnsummarized && isOwner && !post.deleted_at && (
+          <div className="p-4 border-l-4 border-gray-300 bg-gray-50 rounded text-sm text-gray-600 flex items-center justify-between gap-4">
+            <span>The attached document hasn&apos;t been summarized.</span>
+            <button
+              onClick={retrySummary}
+              disabled={retryingSummary}
+              className="shrink-0 px-3 py-1.5 rounded-lg border border-gray-200 bg-white text-xs font-medium text-gray-700 hover:bg-gray-100 disabled:opacity-50"
+            >
+              {retryingSummary ? 'Queuing…' : 'Summarize'}
+            </button>
+          </div>
+        )}
+        {post.summary && (
           <div className="p-4 border-l-4 border-blue-300 bg-blue-50 rounded">
             <h3 className="font-semibold text-blue-700">Summary:</h3>
-            <div className="mt-1 text-sm text-gray-700 prose prose-sm max-w-none"><ReactMarkdown remarkPlugins={[remarkGfm]}>{post.summary}</ReactMarkdown></div>
+            <div className="mt-1 text-sm text-gray-700 prose prose-sm max-w-none">
+              <ReactMarkdown
+                remarkPlugins={[remarkGfm]}
+                components={{
+                  // Page citations are #pdf=…&page=N links that open the viewer below at that page
+                  a: ({ href, children }) => href?.startsWith('#')
+                    ? <a href={href} title={citedPdf ? `Open ${citedPdf.file_name} at this page` : undefined}>{children}</a>
+                    : <a href={href} target="_blank" rel="noopener noreferrer">{children}</a>,
+                }}
+              >
+                {summaryMarkdown}
+              </ReactMarkdown>
+            </div>
+            {summaryTemplate && (
+              <p className="mt-2 text-xs text-blue-600">Summarized with the &ldquo;{summaryTemplate}&rdquo; template.</p>
+            )}
           </div>
         )}
       </div>
@@ -420,9 +597,17 @@ export default function PostDetailClient({
       {/* ── Images ──────────────────────────────────────────────── */}
       {imageFiles.length > 0 && (
         <div className="mb-6 space-y-4">
-          {imageFiles.map(file => (
+          {imageFiles.filter(file => mediumUrls.has(file.file_path)).map(file => (
             <div key={file.id}>
-              <Image src={getMediaUrl(file.file_path)} alt={file.file_name} className="w-full max-w-full h-auto rounded-lg shadow" width={512} height={256} loading="lazy" unoptimized />
+              {/* The medium rendition; the full-size original opens on click */}
+              <a href={mediaUrls.get(file.file_path)} target="_blank" rel="noopener noreferrer">
+                <Image src={mediumUrls.get(file.file_path)!} alt={file.file_name} className="w-full max-w-full h-auto rounded-lg shadow" width={512} height={256} loading="lazy" unoptimized />
+              </a>
+              {file.original_url && (
+                <a href={file.original_url} target="_blank" rel="noopener noreferrer" className="mt-1 inline-block text-xs text-gray-500 hover:underline">
+                  Unedited original (with location and camera data, only visible to you)
+                </a>
+              )}
             </div>
           ))}
         </div>
@@ -434,12 +619,35 @@ export default function PostDetailClient({
           <h3 className="text-base font-semibold mb-4 text-gray-800">Attached Files</h3>
           <ul className="space-y-3">
             {otherFiles.map(file => (
-              <li key={file.id} className="border border-gray-200 rounded-lg p-3 text-sm flex justify-between items-center">
-                <div>
-                  <p className="text-gray-800 font-medium mb-1 truncate" title={file.file_name}>{file.file_name}</p>
-                  <p className="text-xs text-gray-500">{file.file_type}</p>
+              <li key={file.id} className="border border-gray-200 rounded-lg p-3 text-sm">
+                <div className="flex justify-between items-center">
+                  <div className="min-w-0">
+                    <p className="text-gray-800 font-medium mb-1 truncate" title={file.file_name}>{file.file_name}</p>
+                    <p className="text-xs text-gray-500">{file.file_type}</p>
+                  </div>
+                  {attachmentKind(file) === 'pdf' ? (
+                    <div className="flex gap-3 ml-4 text-xs whitespace-nowrap">
+                      <button onClick={() => openPdf?.pdf === file.id ? closePdf() : showPdf(file.id)} className="text-blue-600 hover:underline">
+                        {openPdf?.pdf === file.id ? 'Hide' : 'View'}
+                      </button>
+                      <a href={mediaUrls.get(file.file_path)} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">Download</a>
+                    </div>
+                  ) : (
+                    <button onClick={() => window.open(mediaUrls.get(file.file_path), '_blank')} className="text-blue-600 hover:underline text-xs ml-4 whitespace-nowrap">View/Download</button>
+                  )}
                 </div>
-                <button onClick={() => window.open(getMediaUrl(file.file_path), '_blank')} className="text-blue-600 hover:underline text-xs ml-4 whitespace-nowrap">View/Download</button>
+                {openPdf?.pdf === file.id && (
+                  <div className="mt-3">
+                    <PdfViewer
+                      filePath={file.file_path}
+                      fileName={file.file_name}
+                      getUrl={async path => mediaUrls.get(path) ?? null}
+                      page={openPdf.page}
+                      onPageChange={page => pageChanged(file.id, page)}
+                      onClose={closePdf}
+                    />
+                  </div>
+                )}
               </li>
             ))}
           </ul>
@@ -457,6 +665,11 @@ export default function PostDetailClient({
         post={post}
       />
 
+      {/* ── Related notes ───────────────────────────────────────── */}
+      {session && !post.deleted_at && (
+        <RelatedNotes postId={post.id} accessToken={session.access_token} version={post.updated_at} />
+      )}
+
       <div className="mt-8 text-xs text-gray-400 border-t border-gray-100 pt-4">
         <p>Created: {new Date(post.created_at).toLocaleString()}</p>
         <p>Last Updated: {new Date(post.updated_at).toLocaleString()}</p>
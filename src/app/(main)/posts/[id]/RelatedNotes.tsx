@@ -0,0 +1,74 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+
+type RelatedPost = {
+  id: string;
+  created_at: string;
+  content: string;
+  tags: string[] | null;
+  similarity: number;
+};
+
+type RelatedNotesProps = {
+  postId: string;
+  accessToken: string;
+  // The post's updated_at: the list is refetched after edits and new summaries
+  version: string;
+};
+
+function firstLine(content: string) {
+  return content.split('\n').find(l => l.trim())?.replace(/^#+\s*/, '') || '(empty note)';
+}
+
+export default function RelatedNotes({ postId, accessToken, version }: RelatedNotesProps) {
+  const [related, setRelated] = useState<RelatedPost[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    const fetchRelated = async () => {
+      setLoading(true);
+      try {
+        const res = await fetch(`/api/posts/${postId}/related?limit=5`, {
+          headers: { Authorization: `Bearer ${accessToken}` },
+        });
+        const json = await res.json();
+        if (!cancelled) setRelated(res.ok ? json.posts : []);
+      } catch {
+        if (!cancelled) setRelated([]);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+    fetchRelated();
+    return () => { cancelled = true; };
+  }, [postId, accessToken, version]);
+
+  // Nothing to show is the common case for a new account; stay out of the way
+  if (!loading && related.length === 0) return null;
+
+  return (
+    <div className="mt-6 p-6 bg-white rounded-xl border border-gray-100 shadow-sm">
+      <h3 className="text-base font-semibold mb-3 text-gray-800">Related notes</h3>
+      {loading ? (
+        <p className="text-sm text-gray-400">Finding related notes...</p>
+      ) : (
+        <ul className="space-y-2">
+          {related.map(note => (
+            <li key={note.id} className="flex items-baseline justify-between gap-4 text-sm">
+              <Link href={`/posts/${note.id}`} className="min-w-0 truncate text-gray-800 hover:underline">
+                {firstLine(note.content)}
+              </Link>
+              <span className="shrink-0 text-xs text-gray-400">
+                {note.tags && note.tags.length > 0 ? `${note.tags.slice(0, 2).join(', ')} · ` : ''}
+                {Math.round(note.similarity * 100)}% similar
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,162 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { supabase } from '@/lib/supabaseClient';
+import { diffLines, toSideBySide, type SideBySideRow } from '@/lib/diff';
+
+type Revision = {
+  id: string;
+  content: string;
+  tags: string[] | null;
+  saved_at: string;
+  replaced_at: string;
+};
+
+type RevisionHistoryProps = {
+  post: { id: string; content: string; tags: string[] | null };
+  onRestored: (updated: { content: string; tags: string[] | null; updated_at: string }) => void;
+};
+
+const ROW_STYLES: Record<SideBySideRow['type'], { left: string; right: string }> = {
+  equal:   { left: 'text-gray-600',                right: 'text-gray-600' },
+  changed: { left: 'bg-red-50 text-red-800',       right: 'bg-green-50 text-green-800' },
+  removed: { left: 'bg-red-50 text-red-800',       right: 'bg-gray-50' },
+  added:   { left: 'bg-gray-50',                   right: 'bg-green-50 text-green-800' },
+};
+
+function formatTimestamp(iso: string) {
+  return new Date(iso).toLocaleString('en-US', { month: 'short', day: 'numeric', year: 'numeric', hour: 'numeric', minute: '2-digit' });
+}
+
+function tagsLabel(tags: string[] | null) {
+  return tags && tags.length > 0 ? tags.join(', ') : '(no tags)';
+}
+
+export default function RevisionHistory({ post, onRestored }: RevisionHistoryProps) {
+  const [revisions, setRevisions] = useState<Revision[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [restoring, setRestoring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reload whenever the post changes underneath us (edits, restores)
+  useEffect(() => {
+    let cancelled = false;
+    const fetchRevisions = async () => {
+      setLoading(true);
+      const { data, error: fetchError } = await supabase
+        .from('post_revisions')
+        .select('id, content, tags, saved_at, replaced_at')
+        .eq('post_id', post.id)
+        .order('replaced_at', { ascending: false });
+      if (cancelled) return;
+      if (fetchError) {
+        setError(fetchError.message);
+      } else {
+        setRevisions(data || []);
+        setSelectedId(prev => (prev && data?.some(r => r.id === prev) ? prev : data?.[0]?.id ?? null));
+      }
+      setLoading(false);
+    };
+    fetchRevisions();
+    return () => { cancelled = true; };
+  }, [post.id, post.content, post.tags]);
+
+  const selected = revisions.find(r => r.id === selectedId) ?? null;
+  const rows = useMemo(
+    () => (selected ? toSideBySide(diffLines(selected.content, post.content)) : []),
+    [selected, post.content]
+  );
+  const tagsChanged = selected ? tagsLabel(selected.tags) !== tagsLabel(post.tags) : false;
+
+  const handleRestore = async () => {
+    if (!selected || restoring) return;
+    if (!window.confirm(`Restore the version from ${formatTimestamp(selected.saved_at)}? The current version will be kept in the history.`)) return;
+    setRestoring(true);
+    setError(null);
+    try {
+      const { data, error: updateError } = await supabase
+        .from('posts')
+        .update({ content: selected.content, tags: selected.tags, updated_at: new Date().toISOString() })
+        .eq('id', post.id)
+        .select('content, tags, updated_at')
+        .single();
+      if (updateError) throw updateError;
+      onRestored(data);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      setError(`Restore failed: ${message}`);
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  if (loading && revisions.length === 0) {
+    return <div className="mb-6 p-4 text-sm text-gray-400">Loading history...</div>;
+  }
+
+  if (revisions.length === 0) {
+    return (
+      <div className="mb-6 p-4 bg-white rounded-xl border border-gray-100 shadow-sm text-sm text-gray-500">
+        {error ? <span className="text-red-600">{error}</span> : 'No earlier versions yet. Each edit saves the previous version here.'}
+      </div>
+    );
+  }
+
+  return (
+    <div className="mb-6 bg-white rounded-xl border border-gray-100 shadow-sm flex flex-col md:flex-row overflow-hidden">
+      {/* ── Timeline ─────────────────────────────────────────────── */}
+      <ol className="md:w-56 shrink-0 border-b md:border-b-0 md:border-r border-gray-100 max-h-96 overflow-y-auto">
+        {revisions.map((rev, i) => (
+          <li key={rev.id}>
+            <button
+              onClick={() => setSelectedId(rev.id)}
+              className={`w-full text-left px-4 py-2.5 text-xs border-l-2 transition-colors ${
+                rev.id === selectedId ? 'border-blue-500 bg-blue-50 text-blue-800' : 'border-transparent text-gray-600 hover:bg-gray-50'
+              }`}
+            >
+              <span className="block font-medium">{formatTimestamp(rev.saved_at)}</span>
+              <span className="block text-gray-400">
+                {i === 0 ? 'Previous version' : `${i + 1} versions ago`} · replaced {formatTimestamp(rev.replaced_at)}
+              </span>
+            </button>
+          </li>
+        ))}
+      </ol>
+
+      {/* ── Side-by-side diff ───────────────────────────────────── */}
+      {selected && (
+        <div className="flex-1 min-w-0 p-4">
+          <div className="flex items-center justify-between gap-4 mb-3">
+            <div className="grid grid-cols-2 flex-1 text-xs font-semibold text-gray-500">
+              <span>{formatTimestamp(selected.saved_at)}</span>
+              <span>Current</span>
+            </div>
+            <button
+              onClick={handleRestore}
+              disabled={restoring}
+              className="px-3 py-1.5 rounded-lg border border-gray-200 text-xs font-medium text-gray-600 hover:bg-gray-50 disabled:opacity-50 shrink-0"
+            >
+              {restoring ? 'Restoring…' : 'Restore this version'}
+            </button>
+          </div>
+          {error && <p className="text-red-600 text-xs mb-2">{error}</p>}
+          {tagsChanged && (
+            <div className="grid grid-cols-2 gap-2 mb-2 text-xs">
+              <span className="px-2 py-1 rounded bg-red-50 text-red-800">Tags: {tagsLabel(selected.tags)}</span>
+              <span className="px-2 py-1 rounded bg-green-50 text-green-800">Tags: {tagsLabel(post.tags)}</span>
+            </div>
+          )}
+          <div className="grid grid-cols-2 gap-x-2 font-mono text-xs max-h-96 overflow-auto border border-gray-100 rounded">
+            {rows.map((row, i) => (
+              <div key={i} className="contents">
+                <pre className={`whitespace-pre-wrap break-words px-2 py-0.5 ${ROW_STYLES[row.type].left}`}>{row.left ?? ''}</pre>
+                <pre className={`whitespace-pre-wrap break-words px-2 py-0.5 ${ROW_STYLES[row.type].right}`}>{row.right ?? ''}</pre>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
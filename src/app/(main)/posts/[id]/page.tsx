@@ -5,14 +5,6 @@ const STARRED_SHORTCUT_POST_ID = "5a57a71a-5508-4dcd-bc8e-c8227dffe5b1";
 
 export const revalidate = 60;
 
-type MediaFile = {
-  id: string;
-  file_name: string;
-  file_path: string;
-  file_type: string;
-  uploaded_at: string;
-};
-
 type Post = {
   id: string;
   created_at: string;
@@ -21,11 +13,14 @@ type Post = {
   tags: string[] | null;
   is_starred: boolean;
   user_id: string;
-  secret_url?: string | null;
   summary?: string | null;
-  media_files?: MediaFile[];
+  summary_file_path?: string | null;
+  deleted_at?: string | null;
 };
 
+// Never secret_url: share secrets aren't readable (see 20261021_hide_share_secrets.sql)
+const POST_COLUMNS = "id, created_at, updated_at, content, tags, is_starred, user_id, summary, summary_file_path, deleted_at";
+
 type PageProps = {
   params: Promise<{ id: string }>;
 };
@@ -34,36 +29,25 @@ export async function generateStaticParams() {
   return [{ id: STARRED_SHORTCUT_POST_ID }];
 }
 
-async function getInitialPost(id: string): Promise<{ post: Post | null; mediaFiles: MediaFile[] }> {
+// Attachments aren't fetched here: they're private, and PostDetailClient asks
+// /api/media for them once it knows who is looking
+async function getInitialPost(id: string): Promise<Post | null> {
   try {
     const { data: post, error: postError } = await supabase
       .from("posts")
-      .select("*")
+      .select(POST_COLUMNS)
       .eq("id", id)
       .single();
 
-    if (postError || !post) {
-      return { post: null, mediaFiles: [] };
-    }
-
-    const { data: mediaFiles, error: mediaError } = await supabase
-      .from("media_files")
-      .select("*")
-      .eq("post_id", id)
-      .order("uploaded_at", { ascending: true });
-
-    return {
-      post: post as Post,
-      mediaFiles: mediaError ? [] : (mediaFiles || []) as MediaFile[],
-    };
+    return postError || !post ? null : post as Post;
   } catch {
-    return { post: null, mediaFiles: [] };
+    return null;
   }
 }
 
 export default async function PostPage({ params }: PageProps) {
   const { id } = await params;
-  const { post, mediaFiles } = await getInitialPost(id);
+  const post = await getInitialPost(id);
 
-  return <PostDetailClient initialPost={post} initialMediaFiles={mediaFiles} />;
+  return <PostDetailClient initialPost={post} />;
 }
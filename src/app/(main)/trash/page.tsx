@@ -0,0 +1,168 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import { supabase } from "@/lib/supabaseClient";
+import { purgeAfter, TRASH_RETENTION_DAYS } from "@/lib/trash";
+import type { Session } from "@supabase/supabase-js";
+
+type TrashedPost = {
+  id: string;
+  created_at: string;
+  deleted_at: string;
+  content: string;
+  tags: string[] | null;
+};
+
+function formatShortDate(iso: string) {
+  return new Date(iso).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" });
+}
+
+function firstLine(content: string) {
+  return content.split("\n").find(l => l.trim())?.replace(/^#+\s*/, "") || "(empty note)";
+}
+
+export default function TrashPage() {
+  const [session, setSession] = useState<Session | null>(null);
+  const [posts, setPosts] = useState<TrashedPost[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [emptying, setEmptying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTrash = useCallback(async (userId: string) => {
+    const { data, error: fetchError } = await supabase
+      .from("posts")
+      .select("id, created_at, deleted_at, content, tags")
+      .eq("user_id", userId)
+      .not("deleted_at", "is", null)
+      .order("deleted_at", { ascending: false });
+    if (fetchError) setError(fetchError.message);
+    else setPosts((data as TrashedPost[]) || []);
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      setSession(session);
+      if (session) loadTrash(session.user.id);
+      else setLoading(false);
+    });
+  }, [loadTrash]);
+
+  const handleRestore = async (id: string) => {
+    setBusyId(id);
+    setError(null);
+    const { error: restoreError } = await supabase.from("posts").update({ deleted_at: null }).eq("id", id);
+    setBusyId(null);
+    if (restoreError) setError(`Restore failed: ${restoreError.message}`);
+    else setPosts(prev => prev.filter(p => p.id !== id));
+  };
+
+  // Permanent deletion goes through the API so storage objects are removed too
+  const purge = async (path: string) => {
+    const res = await fetch(path, {
+      method: "DELETE",
+      headers: { Authorization: `Bearer ${session!.access_token}` },
+    });
+    const json = await res.json();
+    if (!res.ok) throw new Error(json.error ?? "Request failed");
+    return json;
+  };
+
+  const handleDeleteForever = async (id: string) => {
+    if (!window.confirm("Permanently delete this post and all its media? This cannot be undone.")) return;
+    setBusyId(id);
+    setError(null);
+    try {
+      await purge(`/api/posts/${id}?permanent=true`);
+      setPosts(prev => prev.filter(p => p.id !== id));
+    } catch (err) {
+      setError(`Deletion failed: ${err instanceof Error ? err.message : "Unknown error"}`);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleEmptyTrash = async () => {
+    if (!window.confirm(`Permanently delete all ${posts.length} posts in the trash? This cannot be undone.`)) return;
+    setEmptying(true);
+    setError(null);
+    try {
+      const { purged } = await purge("/api/trash");
+      setPosts(prev => prev.filter(p => !purged.includes(p.id)));
+    } catch (err) {
+      setError(`Emptying trash failed: ${err instanceof Error ? err.message : "Unknown error"}`);
+    } finally {
+      setEmptying(false);
+    }
+  };
+
+  if (loading) return <div className="py-8 text-center text-gray-400 text-sm">Loading trash...</div>;
+  if (!session) {
+    return (
+      <div className="py-8 text-center">
+        <p className="text-gray-600 mb-4">Log in to see your trash.</p>
+        <Link href="/login" className="text-blue-600 hover:underline">Login</Link>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <h1 className="text-xl font-semibold text-gray-900">Trash</h1>
+        {posts.length > 0 && (
+          <button
+            onClick={handleEmptyTrash}
+            disabled={emptying}
+            className="px-3 py-1.5 rounded-lg border border-gray-200 bg-white text-sm font-medium text-gray-500 hover:bg-red-50 hover:text-red-600 disabled:opacity-50 shadow-sm"
+          >
+            {emptying ? "Emptying…" : "Empty trash"}
+          </button>
+        )}
+      </div>
+      <p className="text-sm text-gray-500 mb-6">
+        Deleted posts are kept for {TRASH_RETENTION_DAYS} days, then removed permanently along with their attachments.
+      </p>
+
+      {error && <p className="text-red-600 text-sm mb-4">{error}</p>}
+
+      {posts.length === 0 ? (
+        <p className="py-8 text-center text-gray-400 text-sm">The trash is empty.</p>
+      ) : (
+        <ul className="space-y-3">
+          {posts.map(post => (
+            <li key={post.id} className="bg-white rounded-xl border border-gray-100 shadow-sm px-5 py-4 flex items-start justify-between gap-4">
+              <div className="min-w-0">
+                <Link href={`/posts/${post.id}`} className="block font-medium text-gray-800 truncate hover:underline">
+                  {firstLine(post.content)}
+                </Link>
+                <p className="text-xs text-gray-400 mt-1">
+                  Deleted {formatShortDate(post.deleted_at)} · purged {formatShortDate(purgeAfter(post.deleted_at))}
+                  {post.tags && post.tags.length > 0 && ` · ${post.tags.join(", ")}`}
+                </p>
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                <button
+                  onClick={() => handleRestore(post.id)}
+                  disabled={busyId === post.id}
+                  className="px-3 py-1.5 rounded-lg border border-gray-200 text-xs font-medium text-gray-600 hover:bg-gray-50 disabled:opacity-50"
+                >
+                  Restore
+                </button>
+                <button
+                  onClick={() => handleDeleteForever(post.id)}
+                  disabled={busyId === post.id}
+                  className="px-3 py-1.5 rounded-lg border border-gray-200 text-xs font-medium text-gray-500 hover:bg-red-50 hover:text-red-600 disabled:opacity-50"
+                >
+                  Delete forever
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
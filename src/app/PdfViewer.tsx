@@ -0,0 +1,444 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import type { RenderTask, TextItem } from 'pdfjs-dist/types/src/display/api';
+import { findMatches, matchSpans, pageText, parsePdfHash, pdfHash, type PageText, type PdfMatch } from '@/lib/pdfViewer';
+
+// Inline PDF viewer for attachments on the post and share pages: one page at a
+// time at the width of the screen, page thumbnails, text search and
+// #page=N deep links. Renders with pdf.js in the browser, so PDFs display the
+// same on phones (which otherwise tend to download them) as on desktops.
+
+// pdf.js is loaded on first use and never on the server
+let pdfjsPromise: Promise<typeof import('pdfjs-dist')> | null = null;
+function loadPdfjs() {
+  pdfjsPromise ??= import('pdfjs-dist').then(pdfjs => {
+    pdfjs.GlobalWorkerOptions.workerSrc = new URL('pdfjs-dist/build/pdf.worker.min.mjs', import.meta.url).toString();
+    return pdfjs;
+  });
+  return pdfjsPromise;
+}
+
+const THUMBNAIL_WIDTH = 72;
+const ZOOM_LEVELS = [0.5, 0.75, 1, 1.25, 1.5, 2, 3];
+
+type PageContent = { items: TextItem[]; text: PageText };
+
+const NO_MATCHES: PdfMatch[] = [];
+
+type Highlight = { left: number; top: number; width: number; height: number; current: boolean };
+
+function isCancelled(err: unknown) {
+  return err instanceof Error && err.name === 'RenderingCancelledException';
+}
+
+function PageCanvas({
+  doc,
+  pageNumber,
+  width,
+  loadContent,
+  matches = NO_MATCHES,
+  currentMatch = null,
+}: {
+  doc: PDFDocumentProxy;
+  pageNumber: number;
+  width: number;
+  loadContent?: (pageNumber: number) => Promise<PageContent>;
+  matches?: PdfMatch[];
+  currentMatch?: PdfMatch | null;
+}) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+  const [highlights, setHighlights] = useState<Highlight[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    let task: RenderTask | null = null;
+    (async () => {
+      const page = await doc.getPage(pageNumber);
+      const canvas = canvasRef.current;
+      if (cancelled || !canvas) return;
+      const viewport = page.getViewport({ scale: width / page.getViewport({ scale: 1 }).width });
+      const ratio = window.devicePixelRatio || 1;
+      canvas.width = Math.floor(viewport.width * ratio);
+      canvas.height = Math.floor(viewport.height * ratio);
+      setSize({ width: viewport.width, height: viewport.height });
+      task = page.render({ canvas, viewport, transform: ratio === 1 ? undefined : [ratio, 0, 0, ratio, 0, 0] });
+      await task.promise;
+    })().catch(err => {
+      if (!isCancelled(err)) console.error(`[pdf] page ${pageNumber} failed to render:`, err);
+    });
+    return () => {
+      cancelled = true;
+      task?.cancel();
+    };
+  }, [doc, pageNumber, width]);
+
+  // Search matches are drawn as boxes over the text items they cover
+  useEffect(() => {
+    if (!loadContent || matches.length === 0) {
+      setHighlights(current => current.length ? [] : current);
+      return;
+    }
+    let cancelled = false;
+    (async () => {
+      const [page, content] = await Promise.all([doc.getPage(pageNumber), loadContent(pageNumber)]);
+      const viewport = page.getViewport({ scale: width / page.getViewport({ scale: 1 }).width });
+      const boxes = matches.flatMap(match => matchSpans(content.text, match).map(([index, from, to]) => {
+        const item = content.items[index];
+        const length = Math.max(item.str.length, 1);
+        const [, , , , x, y] = item.transform as number[];
+        const x1 = x + item.width * (from / length);
+        const x2 = x + item.width * (Math.min(to, length) / length);
+        const [left, top, right, bottom] = viewport.convertToViewportRectangle([x1, y, x2, y + item.height]);
+        return {
+          left: Math.min(left, right),
+          top: Math.min(top, bottom),
+          width: Math.abs(right - left),
+          height: Math.abs(bottom - top),
+          current: match === currentMatch,
+        };
+      }));
+      if (!cancelled) setHighlights(boxes);
+    })().catch(err => console.error(`[pdf] page ${pageNumber} highlights failed:`, err));
+    return () => {
+      cancelled = true;
+    };
+  }, [doc, pageNumber, width, loadContent, matches, currentMatch]);
+
+  return (
+    <div className="relative mx-auto bg-white shadow" style={size ? { width: size.width, height: size.height } : { width, minHeight: width * 1.3 }}>
+      <canvas ref={canvasRef} className="block" style={size ? { width: size.width, height: size.height } : undefined} />
+      {highlights.map((h, i) => (
+        <span
+          key={i}
+          className={`absolute pointer-events-none rounded-sm ${h.current ? 'bg-orange-400/50' : 'bg-yellow-300/50'}`}
+          style={{ left: h.left, top: h.top, width: h.width, height: h.height }}
+        />
+      ))}
+    </div>
+  );
+}
+
+// Thumbnails render once they scroll into view, so long documents stay cheap
+function Thumbnail({ doc, pageNumber, active, onSelect }: { doc: PDFDocumentProxy; pageNumber: number; active: boolean; onSelect: (page: number) => void }) {
+  const ref = useRef<HTMLButtonElement>(null);
+  const [visible, setVisible] = useState(false);
+
+  useEffect(() => {
+    const el = ref.current;
+    if (!el) return;
+    const observer = new IntersectionObserver(([entry]) => {
+      if (entry.isIntersecting) {
+        setVisible(true);
+        observer.disconnect();
+      }
+    }, { rootMargin: '200px' });
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  // Keep the current page's thumbnail in view without scrolling the page itself
+  useEffect(() => {
+    const el = ref.current;
+    const strip = el?.parentElement;
+    if (!active || !el || !strip) return;
+    strip.scrollTo({ left: el.offsetLeft - (strip.clientWidth - el.clientWidth) / 2, behavior: 'smooth' });
+  }, [active]);
+
+  return (
+    <button
+      ref={ref}
+      type="button"
+      onClick={() => onSelect(pageNumber)}
+      title={`Page ${pageNumber}`}
+      className={`shrink-0 flex flex-col items-center gap-1 p-1 rounded ${active ? 'bg-blue-100 ring-2 ring-blue-400' : 'hover:bg-gray-200'}`}
+    >
+      <div style={{ width: THUMBNAIL_WIDTH, minHeight: THUMBNAIL_WIDTH * 1.3 }} className="overflow-hidden">
+        {visible && <PageCanvas doc={doc} pageNumber={pageNumber} width={THUMBNAIL_WIDTH} />}
+      </div>
+      <span className="text-[10px] text-gray-500">{pageNumber}</span>
+    </button>
+  );
+}
+
+type PdfViewerProps = {
+  filePath: string;
+  fileName: string;
+  // Resolves the file's URL (public or signed); called again only if filePath changes
+  getUrl: (filePath: string) => Promise<string | null>;
+  // Page to show, e.g. from a #page=N link
+  page?: number;
+  onPageChange?: (page: number) => void;
+  onClose?: () => void;
+};
+
+export default function PdfViewer({ filePath, fileName, getUrl, page: requestedPage = 1, onPageChange, onClose }: PdfViewerProps) {
+  const rootRef = useRef<HTMLDivElement>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const getUrlRef = useRef(getUrl);
+  const onPageChangeRef = useRef(onPageChange);
+  const shownPageRef = useRef(requestedPage);
+  const contentCache = useRef(new Map<number, Promise<PageContent>>());
+  const [doc, setDoc] = useState<PDFDocumentProxy | null>(null);
+  const [fileUrl, setFileUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [page, setPage] = useState(requestedPage);
+  const [pageInput, setPageInput] = useState(String(requestedPage));
+  const [zoom, setZoom] = useState(1);
+  const [containerWidth, setContainerWidth] = useState(0);
+  const [showThumbnails, setShowThumbnails] = useState(true);
+  const [query, setQuery] = useState('');
+  const [searchedFor, setSearchedFor] = useState<string | null>(null);
+  const [searching, setSearching] = useState(false);
+  const [matches, setMatches] = useState<PdfMatch[]>([]);
+  const [matchIndex, setMatchIndex] = useState(0);
+
+  useEffect(() => {
+    getUrlRef.current = getUrl;
+    onPageChangeRef.current = onPageChange;
+  }, [getUrl, onPageChange]);
+
+  useEffect(() => {
+    let cancelled = false;
+    let loaded: PDFDocumentProxy | null = null;
+    setDoc(null);
+    setError(null);
+    contentCache.current = new Map();
+    (async () => {
+      const [pdfjs, url] = await Promise.all([loadPdfjs(), getUrlRef.current(filePath)]);
+      if (!url) throw new Error('Could not get a link to this file.');
+      // Fetched whole rather than with range requests: a signed URL may expire
+      // while the document is open, and later pages must still load
+      const res = await fetch(url);
+      if (!res.ok) throw new Error(`Could not load the PDF (${res.status}).`);
+      const data = new Uint8Array(await res.arrayBuffer());
+      loaded = await pdfjs.getDocument({ data }).promise;
+      if (cancelled) return;
+      setFileUrl(url);
+      setDoc(loaded);
+    })().catch(err => {
+      console.error(`[pdf] ${filePath} failed to load:`, err);
+      if (!cancelled) setError(err instanceof Error ? err.message : 'Could not load the PDF.');
+    });
+    return () => {
+      cancelled = true;
+      loaded?.destroy();
+    };
+  }, [filePath]);
+
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(([entry]) => setContainerWidth(Math.floor(entry.contentRect.width)));
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, [doc]);
+
+  const pageCount = doc?.numPages ?? 0;
+
+  const goTo = useCallback((target: number, notify = true) => {
+    if (!pageCount) return;
+    const next = Math.min(Math.max(1, target), pageCount);
+    shownPageRef.current = next;
+    setPage(next);
+    setPageInput(String(next));
+    scrollRef.current?.scrollTo({ top: 0 });
+    if (notify) onPageChangeRef.current?.(next);
+  }, [pageCount]);
+
+  // Bring the viewer into view once it has something to show
+  useEffect(() => {
+    if (doc) rootRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  }, [doc]);
+
+  // A deep link (or a click on a page citation) to another page moves there
+  useEffect(() => {
+    if (!doc) return;
+    if (requestedPage !== shownPageRef.current) rootRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+    goTo(requestedPage, false);
+  }, [doc, requestedPage, goTo]);
+
+  const loadContent = useCallback((pageNumber: number) => {
+    let content = contentCache.current.get(pageNumber);
+    if (!content && doc) {
+      content = doc.getPage(pageNumber)
+        .then(p => p.getTextContent())
+        .then(({ items }) => {
+          const textItems = items.filter((item): item is TextItem => 'str' in item);
+          return { items: textItems, text: pageText(textItems) };
+        });
+      contentCache.current.set(pageNumber, content);
+    }
+    return content ?? Promise.reject(new Error('No document'));
+  }, [doc]);
+
+  const showMatch = (index: number, list = matches) => {
+    if (list.length === 0) return;
+    const wrapped = (index + list.length) % list.length;
+    setMatchIndex(wrapped);
+    if (list[wrapped].page !== page) goTo(list[wrapped].page);
+  };
+
+  // Enter searches; pressing it again with the same text steps to the next match
+  const handleSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!doc || searching) return;
+    const text = query.trim();
+    if (!text) {
+      setSearchedFor(null);
+      setMatches([]);
+      return;
+    }
+    if (text === searchedFor) {
+      showMatch(matchIndex + 1);
+      return;
+    }
+    setSearching(true);
+    try {
+      const pages = new Map<number, PageText>();
+      for (let n = 1; n <= doc.numPages; n++) pages.set(n, (await loadContent(n)).text);
+      const found = findMatches(pages, text);
+      setSearchedFor(text);
+      setMatches(found);
+      // Start from the first match at or after the current page
+      const first = found.findIndex(m => m.page >= page);
+      showMatch(first === -1 ? 0 : first, found);
+    } catch (err) {
+      console.error('[pdf] search failed:', err);
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const pageMatches = useMemo(() => matches.filter(m => m.page === page), [matches, page]);
+  const currentMatch = matches[matchIndex] ?? null;
+  const pageWidth = Math.max(containerWidth - 16, 0) * zoom;
+  const zoomIndex = ZOOM_LEVELS.indexOf(zoom);
+  const buttonClass = 'px-2 py-1 rounded border border-gray-200 bg-white text-gray-700 hover:bg-gray-100 disabled:opacity-40';
+
+  return (
+    <div ref={rootRef} className="border border-gray-200 rounded-lg overflow-hidden bg-gray-100 scroll-mt-4">
+      {/* ── Toolbar ── */}
+      <div className="flex flex-wrap items-center gap-2 px-3 py-2 bg-gray-50 border-b border-gray-200 text-xs">
+        <span className="font-medium text-gray-800 truncate max-w-[12rem]" title={fileName}>{fileName}</span>
+        <button type="button" onClick={() => setShowThumbnails(s => !s)} disabled={!doc} className={buttonClass} title="Page thumbnails">
+          ▤
+        </button>
+        <div className="flex items-center gap-1">
+          <button type="button" onClick={() => goTo(page - 1)} disabled={!doc || page <= 1} className={buttonClass} aria-label="Previous page">‹</button>
+          <form onSubmit={e => { e.preventDefault(); goTo(Number(pageInput) || page); }}>
+            <input
+              value={pageInput}
+              onChange={e => setPageInput(e.target.value.replace(/\D/g, ''))}
+              onBlur={() => setPageInput(String(page))}
+              inputMode="numeric"
+              aria-label="Page"
+              className="w-10 px-1 py-1 text-center border border-gray-200 rounded"
+            />
+          </form>
+          <span className="text-gray-500">/ {pageCount || '…'}</span>
+          <button type="button" onClick={() => goTo(page + 1)} disabled={!doc || page >= pageCount} className={buttonClass} aria-label="Next page">›</button>
+        </div>
+        <div className="flex items-center gap-1">
+          <button type="button" onClick={() => setZoom(ZOOM_LEVELS[zoomIndex - 1])} disabled={zoomIndex <= 0} className={buttonClass} aria-label="Zoom out">−</button>
+          <span className="w-10 text-center text-gray-500">{Math.round(zoom * 100)}%</span>
+          <button type="button" onClick={() => setZoom(ZOOM_LEVELS[zoomIndex + 1])} disabled={zoomIndex >= ZOOM_LEVELS.length - 1} className={buttonClass} aria-label="Zoom in">+</button>
+        </div>
+        <form onSubmit={handleSearch} className="flex items-center gap-1 flex-1 min-w-[10rem]">
+          <input
+            type="search"
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            placeholder="Search in document"
+            disabled={!doc}
+            className="flex-1 min-w-0 px-2 py-1 border border-gray-200 rounded"
+          />
+          {searching && <span className="text-gray-500">Searching…</span>}
+          {!searching && searchedFor !== null && (
+            <>
+              <span className="text-gray-500 whitespace-nowrap">{matches.length ? `${matchIndex + 1} of ${matches.length}` : 'No matches'}</span>
+              <button type="button" onClick={() => showMatch(matchIndex - 1)} disabled={matches.length === 0} className={buttonClass} aria-label="Previous match">↑</button>
+              <button type="button" onClick={() => showMatch(matchIndex + 1)} disabled={matches.length === 0} className={buttonClass} aria-label="Next match">↓</button>
+            </>
+          )}
+        </form>
+        {fileUrl && (
+          <a href={fileUrl} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline whitespace-nowrap">Download</a>
+        )}
+        {onClose && (
+          <button type="button" onClick={onClose} className="text-gray-500 hover:text-gray-800" aria-label="Close viewer">✕</button>
+        )}
+      </div>
+
+      {error && <p className="p-4 text-sm text-red-600">{error}</p>}
+      {!doc && !error && <p className="p-4 text-sm text-gray-500">Loading PDF…</p>}
+
+      {/* ── Thumbnails ── */}
+      {doc && showThumbnails && (
+        <div className="relative flex gap-1 overflow-x-auto px-2 py-2 bg-gray-50 border-b border-gray-200">
+          {Array.from({ length: pageCount }, (_, i) => (
+            <Thumbnail key={i + 1} doc={doc} pageNumber={i + 1} active={page === i + 1} onSelect={goTo} />
+          ))}
+        </div>
+      )}
+
+      {/* ── Page ── */}
+      {doc && (
+        <div ref={scrollRef} className="overflow-auto max-h-[80vh] p-2">
+          {pageWidth > 0 && (
+            <PageCanvas
+              doc={doc}
+              pageNumber={page}
+              width={pageWidth}
+              loadContent={loadContent}
+              matches={pageMatches}
+              currentMatch={currentMatch}
+            />
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Which PDF on the page is open, and at what page, mirrored in the URL hash
+// so it can be linked to (see parsePdfHash). pdfIds are media_files ids.
+export function usePdfDeepLink(pdfIds: string[]) {
+  const [open, setOpen] = useState<{ pdf: string; page: number } | null>(null);
+  const key = pdfIds.join(',');
+
+  useEffect(() => {
+    const ids = key ? key.split(',') : [];
+    const apply = () => {
+      const location = parsePdfHash(window.location.hash);
+      if (!location) return;
+      const pdf = location.pdf && ids.includes(location.pdf) ? location.pdf : ids[0];
+      if (pdf) setOpen({ pdf, page: location.page });
+    };
+    apply();
+    window.addEventListener('hashchange', apply);
+    return () => window.removeEventListener('hashchange', apply);
+  }, [key]);
+
+  const replaceHash = (hash: string) =>
+    window.history.replaceState(window.history.state, '', `${window.location.pathname}${window.location.search}${hash}`);
+
+  return {
+    open,
+    openPdf: (pdf: string, page = 1) => {
+      setOpen({ pdf, page });
+      replaceHash(pdfHash(pdf, page));
+    },
+    closePdf: () => {
+      setOpen(null);
+      replaceHash('');
+    },
+    // Paging inside the viewer is mirrored too, so a later link back to the requested page still moves there
+    pageChanged: (pdf: string, page: number) => {
+      setOpen({ pdf, page });
+      replaceHash(pdfHash(pdf, page));
+    },
+  };
+}
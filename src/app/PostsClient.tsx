@@ -6,10 +6,17 @@ import { supabase } from "../lib/supabaseClient";
 import type { Session } from "@supabase/supabase-js";
 import Image from "next/image";
 import { useRouter } from 'next/navigation';
+import { searchPosts, snippetMatches, splitSnippet, suggestSearches, type SearchMatchSource, type SearchSort } from "../lib/search";
+import { applySearchFilters, parseSearchQuery } from "../lib/searchQuery";
+import { loadSynonyms } from "../lib/synonyms";
+import { attachmentKind, DOCUMENT_BADGES, type DocumentKind } from "../lib/attachmentTypes";
+import { mediaPathFromUrl, resolveMediaSrc } from "../lib/media";
+import { useMediaUrls } from "./useMediaUrls";
 
 const PAGE_SIZE = 20;
 const POSTS_CACHE_KEY = 'postsCache';
 const URL_FILTERS_CHANGED_EVENT = 'medical-notes:url-change';
+const SEARCH_SUGGESTIONS_EVENT = 'medical-notes:search-suggestions';
 const LIST_CONTENT_MAX_LENGTH = 800;
 
 // Define Post type
@@ -22,7 +29,13 @@ export type Post = {
   user_id: string;
   imagePaths?: string[];
   hasPdf?: boolean;
+  documentKinds?: DocumentKind[];
   summary?: string;
+  // ts_headline excerpt for search results (see lib/search)
+  snippet?: string;
+  fuzzy?: boolean;
+  matchSource?: SearchMatchSource;
+  matchFileName?: string | null;
 };
 
 type Props = {
@@ -35,7 +48,7 @@ type Props = {
 
 function readUrlFilters(url?: string) {
   if (typeof window === 'undefined') {
-    return { searchTerm: '', showOnlyMine: false, showOnlyStarred: false };
+    return { searchTerm: '', showOnlyMine: false, showOnlyStarred: false, sort: 'relevance' as SearchSort };
   }
 
   const search = url ? new URL(url, window.location.origin).search : window.location.search;
@@ -44,6 +57,7 @@ function readUrlFilters(url?: string) {
     searchTerm: params.get('q') || '',
     showOnlyMine: params.get('mine') === '1',
     showOnlyStarred: params.get('starred') === '1',
+    sort: (params.get('sort') === 'newest' ? 'newest' : 'relevance') as SearchSort,
   };
 }
 
@@ -51,6 +65,11 @@ function notifyUrlFiltersChanged(url: string) {
   window.dispatchEvent(new CustomEvent(URL_FILTERS_CHANGED_EVENT, { detail: url }));
 }
 
+// "Did you mean" queries are shown by MainHeader under the search box
+function notifySearchSuggestions(suggestions: string[]) {
+  window.dispatchEvent(new CustomEvent(SEARCH_SUGGESTIONS_EVENT, { detail: suggestions }));
+}
+
 function toListContent(content: string) {
   return content.length > LIST_CONTENT_MAX_LENGTH
     ? content.slice(0, LIST_CONTENT_MAX_LENGTH)
@@ -81,7 +100,7 @@ async function attachMediaInfo(posts: Post[]): Promise<Post[]> {
   const postIds = posts.map((p) => p.id);
   const { data: mediaFiles, error: mediaError } = await supabase
     .from("media_files")
-    .select("post_id, file_path, file_type")
+    .select("post_id, file_path, file_name, file_type")
     .in("post_id", postIds);
 
   if (mediaError || !mediaFiles) {
@@ -89,18 +108,23 @@ async function attachMediaInfo(posts: Post[]): Promise<Post[]> {
       ...post,
       imagePaths: post.imagePaths || [],
       hasPdf: post.hasPdf || false,
+      documentKinds: post.documentKinds || [],
     }));
   }
 
-  const postMediaInfo: Record<string, { imagePaths: string[]; hasPdf: boolean }> = {};
+  const postMediaInfo: Record<string, { imagePaths: string[]; hasPdf: boolean; documentKinds: DocumentKind[] }> = {};
   mediaFiles.forEach((file) => {
     if (!file.post_id || !file.file_path) return;
     if (!postMediaInfo[file.post_id]) {
-      postMediaInfo[file.post_id] = { imagePaths: [], hasPdf: false };
+      postMediaInfo[file.post_id] = { imagePaths: [], hasPdf: false, documentKinds: [] };
     }
     if (file.file_type?.includes("pdf")) {
       postMediaInfo[file.post_id].hasPdf = true;
     }
+    const kind = attachmentKind(file);
+    if (kind && kind !== "image" && !postMediaInfo[file.post_id].documentKinds.includes(kind)) {
+      postMediaInfo[file.post_id].documentKinds.push(kind);
+    }
     if (file.file_type?.startsWith("image/")) {
       if (!postMediaInfo[file.post_id].imagePaths.includes(file.file_path)) {
         postMediaInfo[file.post_id].imagePaths.push(file.file_path);
@@ -113,6 +137,7 @@ async function attachMediaInfo(posts: Post[]): Promise<Post[]> {
     user_id: post.user_id || '',
     imagePaths: postMediaInfo[post.id]?.imagePaths || [],
     hasPdf: postMediaInfo[post.id]?.hasPdf || false,
+    documentKinds: postMediaInfo[post.id]?.documentKinds || [],
   }));
 }
 
@@ -142,11 +167,14 @@ function toPlainText(md: string): string {
     .trim();
 }
 
-// Wrap occurrences of `term` in <mark> for card preview highlighting
-function highlightText(text: string, term: string): ReactNode {
-  if (!term.trim()) return text;
-  const escaped = term.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-  const parts = text.split(new RegExp(`(${escaped})`, 'gi'));
+// Wrap occurrences of any of `terms` in <mark> for card preview highlighting
+function highlightText(text: string, terms: string[]): ReactNode {
+  const escaped = terms
+    .map(t => t.trim())
+    .filter(Boolean)
+    .map(t => t.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  if (escaped.length === 0) return text;
+  const parts = text.split(new RegExp(`(${escaped.join('|')})`, 'gi'));
   if (parts.length === 1) return text;
   return (
     <>
@@ -159,6 +187,15 @@ function highlightText(text: string, term: string): ReactNode {
   );
 }
 
+// Render a search snippet with the words Postgres matched (including stemmed forms) marked
+function renderSnippet(snippet: string): ReactNode {
+  return splitSnippet(snippet).map((part, i) =>
+    part.match
+      ? <mark key={i} className="bg-yellow-100 rounded-sm px-0.5">{part.text}</mark>
+      : part.text
+  );
+}
+
 function formatCardDate(iso: string): string {
   const date = new Date(iso);
   const now = new Date();
@@ -248,13 +285,24 @@ export default function PostsClient({
     searchTerm: initialSearchTerm,
     showOnlyMine: initialShowOnlyMine,
     showOnlyStarred: initialShowOnlyStarred,
+    sort: 'relevance' as SearchSort,
   }));
   const postsContainerRef = useRef<HTMLDivElement | null>(null);
   const firstFetchComplete = useRef<boolean>(
     initialPostsReady
   );
 
-  const { searchTerm, showOnlyMine, showOnlyStarred } = urlFilters;
+  const { searchTerm, showOnlyMine, showOnlyStarred, sort } = urlFilters;
+
+  // The Mine/Starred toggles are shorthands for is:mine / is:starred in the search box
+  const searchQuery = useMemo(() => {
+    const query = parseSearchQuery(searchTerm);
+    if (showOnlyMine) query.mine = true;
+    if (showOnlyStarred) query.starred = true;
+    return query;
+  }, [searchTerm, showOnlyMine, showOnlyStarred]);
+  const { mine: mineOnly, starred: starredOnly } = searchQuery;
+  const searchText = searchQuery.text.trim();
 
   useEffect(() => {
     setPosts(initialPosts);
@@ -283,7 +331,7 @@ export default function PostsClient({
 
   useEffect(() => {
     if (initialPostsReady) return;
-    if (searchTerm.trim() || showOnlyMine || showOnlyStarred) return;
+    if (searchTerm.trim() || mineOnly || starredOnly) return;
 
     const cachedPosts = readPostsCache();
     if (!cachedPosts || cachedPosts.length === 0) return;
@@ -292,7 +340,7 @@ export default function PostsClient({
     setHasMorePosts(cachedPosts.length === PAGE_SIZE);
     firstFetchComplete.current = true;
     setLoadingPosts(false);
-  }, [initialPostsReady, searchTerm, showOnlyMine, showOnlyStarred]);
+  }, [initialPostsReady, searchTerm, mineOnly, starredOnly]);
 
   // Fetch session and listen for changes
   useEffect(() => {
@@ -303,37 +351,55 @@ export default function PostsClient({
     });
     const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
       setSession(session);
-      if (!session && showOnlyMine) {
+      if (!session && mineOnly) {
         setPosts([]);
         setError(null);
         setHasMorePosts(false);
       }
     });
     return () => subscription?.unsubscribe();
-  }, [showOnlyMine]);
+  }, [mineOnly]);
 
   const fetchPostsPage = useCallback(async (pageIndex: number) => {
-    let queryBuilder = supabase
-      .from("posts")
-      .select("id, created_at, content, tags, is_starred, user_id")
-      .order("created_at", { ascending: false })
-      .range(pageIndex * PAGE_SIZE, (pageIndex + 1) * PAGE_SIZE - 1);
-
-    if (session && showOnlyMine) {
-      queryBuilder = queryBuilder.eq("user_id", session.user.id);
-    }
-    if (showOnlyStarred) {
-      queryBuilder = queryBuilder.eq("is_starred", true);
-    }
-    if (searchTerm.trim()) {
-      // Full-text search on the indexed fts column (stemming + ranking),
-      // OR exact tag match. Sanitise the term to keep PostgREST syntax clean.
-      const term = searchTerm.trim().replace(/[(),]/g, ' ').trim();
-      queryBuilder = queryBuilder.or(
-        `fts.plfts(english).${term},tags.cs.{${term}}`
-      );
+    if (searchText) {
+      // Ranked full-text search (or exact tag match) with highlighted snippets
+      const { hits, error: searchError, fallback } = await searchPosts(supabase, {
+        query: searchQuery,
+        sort,
+        limit: PAGE_SIZE,
+        offset: pageIndex * PAGE_SIZE,
+        userId: session?.user.id,
+        synonyms: await loadSynonyms(supabase, session?.user.id),
+      });
+      if (searchError) throw searchError;
+      if (pageIndex === 0) {
+        notifySearchSuggestions(fallback ? await suggestSearches(supabase, searchTerm, searchQuery) : []);
+      }
+
+      return attachMediaInfo(hits.map((hit) => ({
+        id: hit.id,
+        created_at: hit.created_at,
+        content: toListContent(hit.content || ''),
+        tags: hit.tags,
+        is_starred: hit.is_starred,
+        user_id: hit.user_id || '',
+        snippet: hit.snippet,
+        fuzzy: hit.fuzzy,
+        matchSource: hit.match_source,
+        matchFileName: hit.match_file_name,
+      })));
     }
 
+    const queryBuilder = applySearchFilters(
+      supabase
+        .from("posts")
+        .select("id, created_at, content, tags, is_starred, user_id")
+        .is("deleted_at", null)
+        .order("created_at", { ascending: false })
+        .range(pageIndex * PAGE_SIZE, (pageIndex + 1) * PAGE_SIZE - 1),
+      searchQuery,
+      session?.user.id
+    );
     const { data: postsData, error: fetchError } = await queryBuilder;
     if (fetchError) throw fetchError;
 
@@ -344,14 +410,22 @@ export default function PostsClient({
     }));
 
     return attachMediaInfo(postsPage);
-  }, [session, searchTerm, showOnlyMine, showOnlyStarred]);
+  }, [session, searchQuery, searchTerm, searchText, sort]);
 
   // Fetch the first small page after auth resolves. Cached posts render immediately while this refreshes.
   useEffect(() => {
-    const isInitialDefaultView = initialPostsReady && !searchTerm.trim() && !showOnlyMine && !showOnlyStarred;
+    if (!searchText) notifySearchSuggestions([]);
+    const isInitialDefaultView = initialPostsReady && !searchTerm.trim() && !mineOnly && !starredOnly;
     if (isInitialDefaultView) return;
-    if (showOnlyMine && loadingSession) return;
-    if (showOnlyMine && !session) {
+    if (searchQuery.errors.length > 0) {
+      setPosts([]);
+      setHasMorePosts(false);
+      firstFetchComplete.current = true;
+      setLoadingPosts(false);
+      return;
+    }
+    if (mineOnly && loadingSession) return;
+    if (mineOnly && !session) {
       setPosts([]);
       setHasMorePosts(false);
       firstFetchComplete.current = true;
@@ -371,7 +445,7 @@ export default function PostsClient({
         setNextPage(1);
         setHasMorePosts(postsWithImages.length === PAGE_SIZE);
         firstFetchComplete.current = true;
-        if (!searchTerm.trim() && !showOnlyMine && !showOnlyStarred) {
+        if (!searchTerm.trim() && !mineOnly && !starredOnly) {
           writePostsCache(postsWithImages);
         }
       } catch (err) {
@@ -389,7 +463,7 @@ export default function PostsClient({
     return () => {
       cancelled = true;
     };
-  }, [fetchPostsPage, initialPostsReady, loadingSession, searchTerm, showOnlyMine, showOnlyStarred, session]);
+  }, [fetchPostsPage, initialPostsReady, loadingSession, searchQuery, searchTerm, searchText, mineOnly, starredOnly, sort, session]);
 
   const loadMorePosts = useCallback(async () => {
     if (loadingMore || loadingPosts || !hasMorePosts) return;
@@ -412,8 +486,29 @@ export default function PostsClient({
     }
   }, [fetchPostsPage, hasMorePosts, loadingMore, loadingPosts, nextPage]);
 
-  const getPublicImageUrl = useCallback((path: string): string =>
-    supabase.storage.from("post-media").getPublicUrl(path).data.publicUrl, []);
+  const changeSort = useCallback((next: SearchSort) => {
+    const params = new URLSearchParams(window.location.search);
+    if (next === 'relevance') params.delete('sort');
+    else params.set('sort', next);
+    const target = `/?${params}`;
+    router.replace(target, { scroll: false });
+    notifyUrlFiltersChanged(target);
+  }, [router]);
+
+  // Attachments are private: thumbnails are shown for your own posts, through signed URLs
+  const ownPostIds = useMemo(
+    () => session ? posts.filter((p) => p.user_id === session.user.id).map((p) => p.id) : [],
+    [posts, session]
+  );
+  const { files: ownMedia, thumbnailUrls } = useMediaUrls({ postIds: ownPostIds }, session?.access_token);
+  const thumbnailsByPost = useMemo(() => {
+    const byPost = new Map<string, string[]>();
+    ownMedia.forEach((file) => {
+      if (!file.thumbnail_url || !file.file_type?.startsWith("image/")) return;
+      byPost.set(file.post_id, [...(byPost.get(file.post_id) ?? []), file.thumbnail_url]);
+    });
+    return byPost;
+  }, [ownMedia]);
 
   // Restore scroll position robustly: wait until posts are rendered in the DOM
   useEffect(() => {
@@ -475,12 +570,19 @@ export default function PostsClient({
     }
 
     let visiblePosts = posts;
-    if (showOnlyMine && session) {
+    if (mineOnly && session) {
       visiblePosts = visiblePosts.filter((p) => p.user_id === session.user.id);
     }
-    if (showOnlyStarred) {
+    if (starredOnly) {
       visiblePosts = visiblePosts.filter((p) => p.is_starred);
     }
+    if (searchQuery.errors.length > 0) {
+      return (
+        <div className="text-center text-sm text-amber-700">
+          {searchQuery.errors.map((message) => <p key={message}>{message}</p>)}
+        </div>
+      );
+    }
     if (error) {
       return <p className="text-center text-red-600">{error}</p>;
     }
@@ -501,10 +603,10 @@ export default function PostsClient({
         </p>
       );
     }
-    if (visiblePosts.length === 0 && (showOnlyMine || showOnlyStarred)) {
+    if (visiblePosts.length === 0 && (mineOnly || starredOnly)) {
       return (
         <p className="text-center text-gray-500">
-          No {showOnlyStarred ? 'starred ' : ''}{showOnlyMine ? 'posts by you' : 'posts'}
+          No {starredOnly ? 'starred ' : ''}{mineOnly ? 'posts by you' : 'posts'}
           {searchTerm.trim() ? ` matching "${searchTerm}"` : ''}.
         </p>
       );
@@ -512,6 +614,23 @@ export default function PostsClient({
     if (visiblePosts.length > 0) {
       return (
         <>
+          {searchText && (
+            <div className="flex justify-end items-center gap-1 mb-3 text-xs text-gray-500">
+              <span className="mr-1">Sort:</span>
+              {(['relevance', 'newest'] as const).map((option) => (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => changeSort(option)}
+                  className={`px-2 py-0.5 rounded-full border transition-colors ${
+                    sort === option ? 'bg-gray-800 border-gray-800 text-white' : 'bg-white border-gray-200 hover:bg-gray-50'
+                  }`}
+                >
+                  {option === 'relevance' ? 'Relevance' : 'Newest'}
+                </button>
+              ))}
+            </div>
+          )}
           <div ref={postsContainerRef} className="space-y-4">
             {visiblePosts.map((post) => {
               const accent = getAccentColor(post.tags);
@@ -553,24 +672,47 @@ export default function PostsClient({
                 }}
               >
                 {(() => {
-                  const { text, inlineImageUrls } = stripMarkdownImages(post.content);
+                  const { text, inlineImageUrls: embeddedImageUrls } = stripMarkdownImages(post.content);
+                  const inlineImageUrls = embeddedImageUrls
+                    .map((url) => resolveMediaSrc(url, thumbnailUrls))
+                    .filter((url): url is string => !!url);
+                  // Attachments of other people's posts aren't signed for us
+                  const hiddenImages = session?.user.id === post.user_id
+                    ? 0
+                    : embeddedImageUrls.filter((url) => mediaPathFromUrl(url)).length;
                   const plain = toPlainText(text);
                   const newlineIdx = plain.indexOf('. ');
                   const title = newlineIdx > 0 && newlineIdx < 120 ? plain.substring(0, newlineIdx + 1) : plain.substring(0, 80);
                   const body = plain.substring(title.length).trim();
                   const bodyPreview = body.substring(0, 160) + (body.length > 160 ? "…" : "");
+                  const matchedTerms = post.snippet ? snippetMatches(post.snippet) : [];
                   return (
                     <>
                       <div className="flex items-center gap-2 mb-2">
-                        {post.hasPdf && <span title="Contains PDF" className="text-xs">📄</span>}
+                        {post.documentKinds?.map(kind => (
+                          <span key={kind} title={`Contains ${DOCUMENT_BADGES[kind].label}`} className="text-xs">{DOCUMENT_BADGES[kind].icon}</span>
+                        ))}
                         <span className="text-xs text-gray-400">{formatCardDate(post.created_at)}</span>
+                        {post.fuzzy && (
+                          <span title="No exact match: found by similar spelling" className="text-xs text-amber-600">≈ close match</span>
+                        )}
+                        {post.matchSource === 'summary' && (
+                          <span className="text-xs text-indigo-600">Found in summary</span>
+                        )}
+                        {post.matchSource === 'attachment' && (
+                          <span className="text-xs text-indigo-600 truncate">Found in {post.matchFileName ?? 'attachment'}</span>
+                        )}
                       </div>
                       <p className="text-gray-900 text-sm font-semibold leading-snug mb-1">
-                        {highlightText(title, searchTerm)}
+                        {highlightText(title, matchedTerms)}
                       </p>
-                      {bodyPreview && (
+                      {post.snippet ? (
                         <p className="text-gray-500 text-sm leading-relaxed">
-                          {highlightText(bodyPreview, searchTerm)}
+                          {renderSnippet(toPlainText(post.snippet))}
+                        </p>
+                      ) : bodyPreview && (
+                        <p className="text-gray-500 text-sm leading-relaxed">
+                          {bodyPreview}
                         </p>
                       )}
                       {inlineImageUrls.length > 0 && (
@@ -583,6 +725,11 @@ export default function PostsClient({
                           ))}
                         </div>
                       )}
+                      {hiddenImages > 0 && (
+                        <p className="mt-2 text-xs text-gray-400">
+                          🔒 {hiddenImages === 1 ? '1 image is' : `${hiddenImages} images are`} only visible to the author
+                        </p>
+                      )}
                     </>
                   );
                 })()}
@@ -594,7 +741,8 @@ export default function PostsClient({
                         onClick={(e) => {
                           e.preventDefault();
                           e.stopPropagation();
-                          const target = `/?q=${encodeURIComponent(tag)}`;
+                          const operator = /\s/.test(tag) ? `tag:"${tag}"` : `tag:${tag}`;
+                          const target = `/?q=${encodeURIComponent(operator)}`;
                           router.replace(target, { scroll: false });
                           notifyUrlFiltersChanged(target);
                         }}
@@ -605,12 +753,12 @@ export default function PostsClient({
                     ))}
                   </div>
                 )}
-                {post.imagePaths && post.imagePaths.length > 0 && (
+                {thumbnailsByPost.has(post.id) && (
                   <div className="mt-3 grid grid-cols-4 gap-2">
-                    {post.imagePaths.slice(0, 4).map((path, index) => (
+                    {thumbnailsByPost.get(post.id)!.slice(0, 4).map((url, index) => (
                       <div key={index} className="w-full h-20 bg-gray-100 rounded overflow-hidden">
                         <Image
-                          src={getPublicImageUrl(path)}
+                          src={url}
                           alt={`Post thumbnail ${index + 1}`}
                           className="w-full h-full object-cover rounded"
                           width={128}
@@ -643,7 +791,7 @@ export default function PostsClient({
       );
     }
     return null;
-  }, [posts, showOnlyMine, showOnlyStarred, session, loadingPosts, error, searchTerm, getPublicImageUrl, hasMorePosts, loadMorePosts, loadingMore, router]);
+  }, [posts, mineOnly, starredOnly, session, loadingPosts, error, searchQuery, searchTerm, searchText, sort, changeSort, thumbnailUrls, thumbnailsByPost, hasMorePosts, loadMorePosts, loadingMore, router]);
 
   return <>{renderPostsList}</>;
 }
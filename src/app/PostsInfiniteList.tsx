@@ -14,7 +14,6 @@ type Post = {
   is_starred: boolean;
   user_id: string;
   summary?: string;
-  secret_url?: string;
 };
 
 // Fetch a page of posts, optionally filtered by user
@@ -25,7 +24,8 @@ const fetchPostsPage = async (
 ): Promise<Post[]> => {
   let query = supabase
     .from("posts")
-    .select("id, created_at, content, tags, is_starred, user_id, summary, secret_url")
+    .select("id, created_at, content, tags, is_starred, user_id, summary")
+    .is("deleted_at", null)
     .order("created_at", { ascending: false })
     .range(pageIndex * PAGE_SIZE, (pageIndex + 1) * PAGE_SIZE - 1);
   if (userId) query = query.eq("user_id", userId);
@@ -77,9 +77,6 @@ export default function PostsInfiniteList({ userId, searchTerm }: PostsInfiniteL
         <div key={post.id} style={{ borderBottom: "1px solid #eee", marginBottom: 16, paddingBottom: 16 }}>
           <h3>{post.summary || post.content.slice(0, 50)}</h3>
           <p>{post.created_at}</p>
-          {post.secret_url && (
-            <img src={post.secret_url} alt="media" style={{ maxWidth: 200, maxHeight: 200 }} />
-          )}
         </div>
       ))}
       <div ref={loadMoreRef} style={{ height: 40, textAlign: "center", color: "#888" }}>
@@ -0,0 +1,31 @@
+import { createClient } from '@supabase/supabase-js';
+import { NextRequest, NextResponse } from 'next/server';
+
+// POST /api/auth/refresh — trade a refresh token for a new session
+// Refresh tokens are single-use: the response carries the replacement to store.
+export async function POST(req: NextRequest) {
+  const { refresh_token } = await req.json();
+
+  if (!refresh_token || typeof refresh_token !== 'string') {
+    return NextResponse.json({ error: 'refresh_token is required' }, { status: 400 });
+  }
+
+  const supabase = createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+  );
+
+  const { data, error } = await supabase.auth.refreshSession({ refresh_token });
+
+  if (error || !data.session || !data.user) {
+    return NextResponse.json({ error: error?.message ?? 'Invalid refresh token' }, { status: 401 });
+  }
+
+  return NextResponse.json({
+    access_token: data.session.access_token,
+    refresh_token: data.session.refresh_token,
+    expires_in: data.session.expires_in,
+    expires_at: data.session.expires_at,
+    user: { id: data.user.id, email: data.user.email },
+  });
+}
@@ -3,6 +3,7 @@ import { NextRequest, NextResponse } from 'next/server';
 
 // POST /api/auth — exchange email+password for a Supabase JWT
 // Used by the CLI and AI agents to authenticate programmatically.
+// Keep the refresh_token and call /api/auth/refresh instead of signing in again.
 // You create accounts manually in Supabase Dashboard → Authentication → Users.
 export async function POST(req: NextRequest) {
   const { email, password } = await req.json();
@@ -24,7 +25,9 @@ export async function POST(req: NextRequest) {
 
   return NextResponse.json({
     access_token: data.session.access_token,
+    refresh_token: data.session.refresh_token,
     expires_in: data.session.expires_in,
+    expires_at: data.session.expires_at,
     user: { id: data.user.id, email: data.user.email },
   });
 }
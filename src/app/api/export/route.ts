@@ -0,0 +1,214 @@
+import { NextRequest } from 'next/server';
+import { Zip, ZipDeflate, ZipPassThrough } from 'fflate';
+import { getAuthenticatedUser, getBackgroundClient, type AuthUser, type UserClient } from '@/lib/apiAuth';
+import { MEDIA_BUCKET } from '@/lib/media';
+import { withFrontMatter } from '@/lib/frontMatter';
+
+// Large exports can take a while: every attachment is downloaded and re-streamed
+export const maxDuration = 300;
+
+const FETCH_BATCH = 1000;
+
+type ExportPost = {
+  id: string;
+  created_at: string;
+  updated_at: string;
+  content: string;
+  tags: string[] | null;
+  is_starred: boolean;
+  summary: string | null;
+  deleted_at: string | null;
+};
+
+type ExportMedia = {
+  id: string;
+  post_id: string;
+  file_name: string;
+  file_path: string;
+  file_type: string;
+  uploaded_at: string;
+};
+
+// PostgREST caps a single response, so page through with range()
+async function fetchAll<T>(
+  supabase: UserClient,
+  table: string,
+  columns: string,
+  userId: string,
+  orderBy = 'created_at'
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += FETCH_BATCH) {
+    const { data, error } = await supabase
+      .from(table)
+      .select(columns)
+      .eq('user_id', userId)
+      .order(orderBy, { ascending: true })
+      .range(from, from + FETCH_BATCH - 1);
+    if (error) throw new Error(`Failed to read ${table}: ${error.message}`);
+    rows.push(...(data as T[]));
+    if (!data || data.length < FETCH_BATCH) return rows;
+  }
+}
+
+function slugify(text: string) {
+  const firstLine = text.split('\n').find(l => l.trim()) ?? '';
+  return firstLine
+    .replace(/[#*_`>[\]()!]/g, '')
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 50) || 'note';
+}
+
+// Storage paths are <user>/<post>/<uuid>-<name>; drop the user segment inside the archive
+function archiveMediaPath(filePath: string) {
+  return `media/${filePath.split('/').slice(1).join('/')}`;
+}
+
+// The archive's entries, added a step at a time so pull() only produces as
+// much as the client is reading. Each step leaves new entries in the zip.
+async function* archiveSteps(zip: Zip, supabase: UserClient, user: AuthUser): AsyncGenerator<void> {
+  const encoder = new TextEncoder();
+  const addText = (name: string, text: string) => {
+    const entry = new ZipDeflate(name, { level: 6 });
+    zip.add(entry);
+    entry.push(encoder.encode(text), true);
+  };
+
+  // Posts with media joined by id, written one Markdown file per post. Posts in
+  // the trash are on their way out and are left out, with their attachments.
+  const posts = (await fetchAll<ExportPost>(
+    supabase, 'posts', 'id, created_at, updated_at, content, tags, is_starred, summary, deleted_at', user.id
+  )).filter(post => !post.deleted_at);
+  const livePostIds = new Set(posts.map(post => post.id));
+  const media = (await fetchAll<ExportMedia>(
+    supabase, 'media_files', 'id, post_id, file_name, file_path, file_type, uploaded_at', user.id, 'uploaded_at'
+  )).filter(file => livePostIds.has(file.post_id));
+
+  const mediaByPost = new Map<string, ExportMedia[]>();
+  for (const file of media) {
+    mediaByPost.set(file.post_id, [...(mediaByPost.get(file.post_id) ?? []), file]);
+  }
+
+  for (const post of posts) {
+    const attachments = (mediaByPost.get(post.id) ?? []).map(f => archiveMediaPath(f.file_path));
+    const name = `posts/${post.created_at.slice(0, 10)}-${slugify(post.content)}-${post.id.slice(0, 8)}.md`;
+    addText(name, withFrontMatter({
+      id: post.id,
+      created_at: post.created_at,
+      updated_at: post.updated_at,
+      tags: post.tags ?? [],
+      is_starred: post.is_starred,
+      summary: post.summary,
+      attachments,
+    }, post.content));
+    yield;
+  }
+
+  // Attachments are usually already compressed (images, PDFs), so store them as-is
+  const failedMedia: string[] = [];
+  for (const file of media) {
+    const { data: blob, error } = await supabase.storage.from(MEDIA_BUCKET).download(file.file_path);
+    if (error || !blob) {
+      failedMedia.push(file.file_path);
+      continue;
+    }
+    const entry = new ZipPassThrough(archiveMediaPath(file.file_path));
+    zip.add(entry);
+    entry.push(new Uint8Array(await blob.arrayBuffer()), true);
+    yield;
+  }
+
+  const { data: patientSummaries, error: summariesError } = await supabase
+    .from('patient_summaries')
+    .select('id, post_id, summary_text, feedback, created_at, updated_at')
+    .eq('user_id', user.id)
+    .order('created_at', { ascending: true });
+  if (summariesError) throw new Error(`Failed to read patient_summaries: ${summariesError.message}`);
+  const liveSummaries = (patientSummaries ?? []).filter(summary => livePostIds.has(summary.post_id));
+
+  const { data: quizzes, error: quizzesError } = await supabase
+    .from('quizzes')
+    .select('*')
+    .eq('user_id', user.id)
+    .order('created_at', { ascending: true });
+  if (quizzesError) throw new Error(`Failed to read quizzes: ${quizzesError.message}`);
+
+  addText('patient_summaries.json', JSON.stringify(liveSummaries, null, 2));
+  addText('quizzes.json', JSON.stringify(quizzes ?? [], null, 2));
+  addText('media_files.json', JSON.stringify(
+    media.map(f => ({ ...f, archive_path: archiveMediaPath(f.file_path) })), null, 2
+  ));
+  // Written last, once the missing media are known; the CLI reads it back
+  addText('export.json', JSON.stringify({
+    exported_at: new Date().toISOString(),
+    user: { id: user.id, email: user.email },
+    counts: {
+      posts: posts.length,
+      media_files: media.length - failedMedia.length,
+      patient_summaries: liveSummaries.length,
+      quizzes: quizzes?.length ?? 0,
+    },
+    missing_media: failedMedia,
+  }, null, 2));
+}
+
+// GET /api/export — stream a zip of every post (except those in the trash),
+// attachment, patient summary and quiz
+export async function GET(req: NextRequest) {
+  const { user, token, error: authError } = await getAuthenticatedUser(req);
+  if (!user) return authError;
+
+  // The archive keeps streaming long after a PAT's request token would expire
+  const supabase = getBackgroundClient(user, token);
+
+  // fflate hands over output synchronously as entries are added; it waits here
+  // until the stream asks for more
+  const chunks: Uint8Array[] = [];
+  let zipError: Error | null = null;
+  let finished = false;
+  const zip = new Zip((err, chunk, final) => {
+    if (err) {
+      zipError = err;
+      return;
+    }
+    chunks.push(chunk);
+    if (final) finished = true;
+  });
+  const steps = archiveSteps(zip, supabase, user);
+
+  const stream = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        while (chunks.length === 0 && !finished) {
+          const { done } = await steps.next();
+          if (done) zip.end();
+          if (zipError) throw zipError;
+        }
+      } catch (err) {
+        console.error('[export] Failed to build archive:', err);
+        // Erroring the stream cuts the response short, so the client never
+        // mistakes a partial archive for a complete one
+        controller.error(err);
+        return;
+      }
+      for (const chunk of chunks.splice(0)) controller.enqueue(chunk);
+      if (finished) controller.close();
+    },
+    async cancel() {
+      await steps.return(undefined);
+      zip.terminate();
+    },
+  });
+
+  const filename = `medical-notes-export-${new Date().toISOString().slice(0, 10)}.zip`;
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'application/zip',
+      'Content-Disposition': `attachment; filename="${filename}"`,
+      'Cache-Control': 'no-store',
+    },
+  });
+}
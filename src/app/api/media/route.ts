@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthenticatedUser, getClientForUser, getUserClient } from '@/lib/apiAuth';
+import { supabase as anonClient } from '@/lib/supabaseClient';
+import { MEDIA_FILE_COLUMNS, MEDIA_URL_TTL_SECONDS, signMediaFiles, type MediaFile } from '@/lib/media';
+
+// Enough for a page of the feed
+const MAX_POST_IDS = 100;
+
+// Kept originals and files that kept their metadata are never shared, so
+// shared_post_media leaves them out
+type SharedMediaRow = Omit<MediaFile, 'original_path' | 'metadata_kept'> & { owner_id: string };
+
+function signed(files: Awaited<ReturnType<typeof signMediaFiles>>) {
+  return NextResponse.json(
+    {
+      expires_at: new Date(Date.now() + MEDIA_URL_TTL_SECONDS * 1000).toISOString(),
+      files,
+    },
+    { headers: { 'Cache-Control': 'private, no-store' } }
+  );
+}
+
+// GET /api/media?post_id=<id>[,<id>…] — signed URLs for the attachments of your own posts
+// GET /api/media?secret=<share secret> — signed URLs for a shared post's attachments (no login)
+export async function GET(req: NextRequest) {
+  const { searchParams } = new URL(req.url);
+  const secret = searchParams.get('secret');
+
+  if (secret) {
+    const { data, error } = await anonClient.rpc('shared_post_media', { p_secret: secret });
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+    const rows = (data ?? []) as SharedMediaRow[];
+    if (rows.length === 0) return signed([]);
+
+    // The secret is the authorization here; sign as the owner, who can read the objects
+    const files: MediaFile[] = rows.map(row => ({
+      id: row.id,
+      post_id: row.post_id,
+      file_name: row.file_name,
+      file_path: row.file_path,
+      file_type: row.file_type,
+      uploaded_at: row.uploaded_at,
+      thumbnail_path: row.thumbnail_path,
+      medium_path: row.medium_path,
+      original_path: null,
+      metadata_kept: false,
+    }));
+    try {
+      return signed(await signMediaFiles(getClientForUser({ id: rows[0].owner_id }), files));
+    } catch (err) {
+      return NextResponse.json({ error: err instanceof Error ? err.message : String(err) }, { status: 500 });
+    }
+  }
+
+  const { user, token, error: authError } = await getAuthenticatedUser(req);
+  if (!user) return authError;
+
+  const postIds = Array.from(new Set(
+    (searchParams.get('post_id') ?? '').split(',').map(id => id.trim()).filter(Boolean)
+  ));
+  if (postIds.length === 0) {
+    return NextResponse.json({ error: 'post_id or secret is required' }, { status: 400 });
+  }
+  if (postIds.length > MAX_POST_IDS) {
+    return NextResponse.json({ error: `At most ${MAX_POST_IDS} post ids per request` }, { status: 400 });
+  }
+
+  const supabase = getUserClient(token);
+
+  // Other people's posts are silently left out: their attachments aren't yours to open
+  const { data: posts, error: postsError } = await supabase
+    .from('posts')
+    .select('id')
+    .in('id', postIds)
+    .eq('user_id', user.id);
+  if (postsError) {
+    return NextResponse.json({ error: postsError.message }, { status: 500 });
+  }
+  const ownIds = (posts ?? []).map(post => post.id);
+  if (ownIds.length === 0) return signed([]);
+
+  const { data: files, error } = await supabase
+    .from('media_files')
+    .select(MEDIA_FILE_COLUMNS)
+    .in('post_id', ownIds)
+    .order('uploaded_at', { ascending: true });
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  try {
+    return signed(await signMediaFiles(supabase, (files ?? []) as MediaFile[]));
+  } catch (err) {
+    return NextResponse.json({ error: err instanceof Error ? err.message : String(err) }, { status: 500 });
+  }
+}
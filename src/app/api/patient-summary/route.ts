@@ -31,6 +31,7 @@ export async function POST(req: NextRequest) {
     .from('posts')
     .select('content, user_id, tags')
     .eq('id', post_id)
+    .is('deleted_at', null)
     .single();
   if (postError || !post) {
     return NextResponse.json({ error: 'Post not found' }, { status: 404 });
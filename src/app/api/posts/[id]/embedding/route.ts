@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthenticatedUser, getUserClient } from '@/lib/apiAuth';
+import { embedPost } from '@/lib/embeddings';
+
+// POST /api/posts/[id]/embedding — (re)compute a post's embedding if its text changed.
+// The web editor calls this after saving, since it writes to Supabase directly.
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { user, token, error: authError } = await getAuthenticatedUser(req, 'write');
+  if (!user) return authError;
+
+  const { id } = await params;
+  const supabase = getUserClient(token);
+
+  const { data: post } = await supabase
+    .from('posts')
+    .select('id')
+    .eq('id', id)
+    .eq('user_id', user.id)
+    .is('deleted_at', null)
+    .maybeSingle();
+  if (!post) {
+    return NextResponse.json({ error: 'Post not found' }, { status: 404 });
+  }
+
+  try {
+    const { updated } = await embedPost(supabase, id);
+    return NextResponse.json({ post_id: id, updated });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Embedding failed';
+    return NextResponse.json({ error: message }, { status: 502 });
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthenticatedUser, getUserClient } from '@/lib/apiAuth';
+import { createPostRenditions } from '@/lib/renditions';
+
+// POST /api/posts/[id]/media/renditions — create the thumbnail and medium
+// renditions of the post's images that don't have them yet: images uploaded
+// before renditions existed, or written to Supabase Storage directly. Uploads
+// through /api/posts/[id]/media get theirs automatically.
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { user, token, error: authError } = await getAuthenticatedUser(req, 'write');
+  if (!user) return authError;
+
+  const { id } = await params;
+  const supabase = getUserClient(token);
+
+  const { data: post } = await supabase
+    .from('posts')
+    .select('id')
+    .eq('id', id)
+    .eq('user_id', user.id)
+    .is('deleted_at', null)
+    .maybeSingle();
+  if (!post) {
+    return NextResponse.json({ error: 'Post not found' }, { status: 404 });
+  }
+
+  try {
+    const result = await createPostRenditions(supabase, id);
+    return NextResponse.json({ post_id: id, ...result });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Creating renditions failed';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,260 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { getAuthenticatedUser, getBackgroundClient, getUserClient, type UserClient } from '@/lib/apiAuth';
+import { v4 as uuidv4 } from 'uuid';
+import { embedPostQuietly } from '@/lib/embeddings';
+import { indexPostAttachmentsQuietly } from '@/lib/extractors';
+import { attachmentKind } from '@/lib/attachmentTypes';
+import { enqueueSummary, runSummaryJob } from '@/lib/summaryJobs';
+import { createPostRenditionsQuietly } from '@/lib/renditions';
+import { hasImageMetadata, originalPath, stripImageMetadata } from '@/lib/imageMetadata';
+import { MEDIA_BUCKET, MEDIA_FILE_COLUMNS, imageTypeFromBytes, mediaObjectPaths, mediaEmbedUrl, safeFileName, signMediaFiles, type MediaFile } from '@/lib/media';
+
+async function findOwnPost(supabase: UserClient, id: string, userId: string) {
+  const { data: post } = await supabase
+    .from('posts')
+    .select('id')
+    .eq('id', id)
+    .eq('user_id', userId)
+    .is('deleted_at', null)
+    .single();
+  return post;
+}
+
+// Attachments come back with a short-lived signed `url` for downloading and the
+// stable `embed_url` to put in a note's Markdown
+async function withUrls<T extends { file_path: string }>(supabase: UserClient, files: T[]) {
+  const signed = await signMediaFiles(supabase, files);
+  return signed.map(file => ({ ...file, embed_url: mediaEmbedUrl(file.file_path) }));
+}
+
+// GET /api/posts/[id]/media — list a post's attachments
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { user, token, error: authError } = await getAuthenticatedUser(req);
+  if (!user) return authError;
+
+  const { id } = await params;
+  const supabase = getUserClient(token);
+
+  if (!(await findOwnPost(supabase, id, user.id))) {
+    return NextResponse.json({ error: 'Post not found' }, { status: 404 });
+  }
+
+  const { data, error } = await supabase
+    .from('media_files')
+    .select(MEDIA_FILE_COLUMNS)
+    .eq('post_id', id)
+    .order('uploaded_at', { ascending: true });
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  try {
+    return NextResponse.json(await withUrls(supabase, data ?? []));
+  } catch (err) {
+    return NextResponse.json({ error: err instanceof Error ? err.message : String(err) }, { status: 500 });
+  }
+}
+
+// POST /api/posts/[id]/media — upload one or more files (multipart field "file").
+// Images are stored without their EXIF/XMP/IPTC metadata; with keep_original=1
+// the untouched file is also kept, readable only by you. Images that can't be
+// decoded here (HEIC) are stored as uploaded with metadata_kept: true.
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { user, token, error: authError } = await getAuthenticatedUser(req, 'write');
+  if (!user) return authError;
+
+  const { id } = await params;
+  const supabase = getUserClient(token);
+
+  if (!(await findOwnPost(supabase, id, user.id))) {
+    return NextResponse.json({ error: 'Post not found' }, { status: 404 });
+  }
+
+  let form: FormData;
+  try {
+    form = await req.formData();
+  } catch {
+    return NextResponse.json({ error: 'Expected multipart/form-data' }, { status: 415 });
+  }
+
+  const files = form.getAll('file').filter((f): f is File => f instanceof File);
+  if (files.length === 0) {
+    return NextResponse.json({ error: 'At least one "file" field is required' }, { status: 400 });
+  }
+
+  const keepOriginals = ['1', 'true', 'on'].includes(String(form.get('keep_original') ?? ''));
+
+  const uploaded: MediaFile[] = [];
+  const summaryJobs: string[] = [];
+  for (const file of files) {
+    // Same path layout as the web form: <user>/<post>/<uuid>-<name>. The name
+    // comes from the client, so it can't be allowed to add path segments.
+    const fileName = safeFileName(file.name);
+    const filePath = `${user.id}/${id}/${uuidv4()}-${fileName}`;
+    let fileType = file.type || 'application/octet-stream';
+    let body: File | Buffer = file;
+    let keptOriginal: string | null = null;
+    let metadataKept = false;
+
+    // The bytes decide when the type and name don't say it's an image
+    const data = Buffer.from(await file.arrayBuffer());
+    const sniffedType = imageTypeFromBytes(data);
+    if (sniffedType || hasImageMetadata({ file_type: fileType, file_name: file.name })) {
+      let stripped;
+      try {
+        stripped = await stripImageMetadata(data);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        return NextResponse.json(
+          { error: `Could not remove the metadata from ${file.name}: ${message}`, uploaded },
+          { status: 422 }
+        );
+      }
+      if (stripped) {
+        body = stripped.data;
+        fileType = stripped.contentType;
+        if (keepOriginals) keptOriginal = originalPath(filePath);
+      } else {
+        // HEIC and other formats sharp can't read are stored as uploaded,
+        // and the row says so (see metadata_kept in the response)
+        metadataKept = true;
+        if (sniffedType && !fileType.startsWith('image/')) fileType = sniffedType;
+      }
+    }
+
+    const { error: uploadError } = await supabase.storage
+      .from(MEDIA_BUCKET)
+      .upload(filePath, body, { contentType: fileType });
+
+    if (uploadError) {
+      return NextResponse.json(
+        { error: `Upload failed for ${file.name}: ${uploadError.message}`, uploaded },
+        { status: 500 }
+      );
+    }
+
+    if (keptOriginal) {
+      const { error: originalError } = await supabase.storage
+        .from(MEDIA_BUCKET)
+        .upload(keptOriginal, file, { contentType: file.type || 'application/octet-stream' });
+      if (originalError) {
+        await supabase.storage.from(MEDIA_BUCKET).remove([filePath]);
+        return NextResponse.json(
+          { error: `Upload failed for the original of ${file.name}: ${originalError.message}`, uploaded },
+          { status: 500 }
+        );
+      }
+    }
+
+    const { data: media, error: insertError } = await supabase
+      .from('media_files')
+      .insert({
+        post_id: id,
+        user_id: user.id,
+        file_path: filePath,
+        file_name: fileName,
+        file_type: fileType,
+        original_path: keptOriginal,
+        metadata_kept: metadataKept,
+      })
+      .select(MEDIA_FILE_COLUMNS)
+      .single();
+
+    if (insertError || !media) {
+      await supabase.storage.from(MEDIA_BUCKET).remove(keptOriginal ? [filePath, keptOriginal] : [filePath]);
+      return NextResponse.json(
+        { error: `Failed to record ${file.name}: ${insertError?.message ?? 'unknown error'}`, uploaded },
+        { status: 500 }
+      );
+    }
+
+    if (attachmentKind({ file_type: fileType, file_name: file.name })) {
+      // Queue the summary now so it survives a lost invocation; it runs after the response is sent
+      try {
+        summaryJobs.push(await enqueueSummary(supabase, id, filePath));
+      } catch (err) {
+        console.error(`[media] could not queue a summary for ${filePath}:`, err);
+      }
+    }
+
+    uploaded.push(media);
+  }
+
+  const imageIds = uploaded.filter(file => file.file_type.startsWith('image/')).map(file => file.id);
+  if (summaryJobs.length > 0 || imageIds.length > 0) {
+    after(async () => {
+      const background = getBackgroundClient(user, token);
+      // Until these exist the pages show the original. Only this upload's
+      // images, so uploads running side by side don't redo each other's.
+      if (imageIds.length > 0) await createPostRenditionsQuietly(background, id, imageIds);
+      // Extract the text first: it makes the files searchable, and images are
+      // summarized from their OCR text
+      await indexPostAttachmentsQuietly(background, id);
+      for (const jobId of summaryJobs) {
+        const { error } = await runSummaryJob(background, jobId);
+        if (error) console.error(`[media] summarize-document failed for job ${jobId}:`, error);
+      }
+      // The summary is part of what gets embedded
+      await embedPostQuietly(background, id);
+    });
+  }
+
+  // The files are stored either way; a signing hiccup only costs the URLs
+  const withLinks = await withUrls(supabase, uploaded).catch(err => {
+    console.error(`[media] could not sign URLs for post ${id}:`, err);
+    return uploaded.map(file => ({ ...file, url: null, embed_url: mediaEmbedUrl(file.file_path) }));
+  });
+  return NextResponse.json(withLinks, { status: 201 });
+}
+
+// DELETE /api/posts/[id]/media?media_id=<id> — remove one attachment
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { user, token, error: authError } = await getAuthenticatedUser(req, 'delete');
+  if (!user) return authError;
+
+  const { id } = await params;
+  const mediaId = new URL(req.url).searchParams.get('media_id');
+  if (!mediaId) {
+    return NextResponse.json({ error: 'media_id is required' }, { status: 400 });
+  }
+
+  const supabase = getUserClient(token);
+
+  if (!(await findOwnPost(supabase, id, user.id))) {
+    return NextResponse.json({ error: 'Post not found' }, { status: 404 });
+  }
+
+  const { data: media } = await supabase
+    .from('media_files')
+    .select('id, file_path, thumbnail_path, medium_path, original_path')
+    .eq('id', mediaId)
+    .eq('post_id', id)
+    .single();
+
+  if (!media) {
+    return NextResponse.json({ error: 'Attachment not found' }, { status: 404 });
+  }
+
+  await supabase.storage.from(MEDIA_BUCKET).remove(mediaObjectPaths(media));
+
+  const { error: deleteError } = await supabase
+    .from('media_files')
+    .delete()
+    .eq('id', media.id);
+
+  if (deleteError) {
+    return NextResponse.json({ error: deleteError.message }, { status: 500 });
+  }
+
+  return NextResponse.json({ deleted: media.id });
+}
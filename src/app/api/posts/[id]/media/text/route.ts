@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { getAuthenticatedUser, getBackgroundClient, getUserClient } from '@/lib/apiAuth';
+import { indexPostAttachments } from '@/lib/extractors';
+import { runSummaryJob } from '@/lib/summaryJobs';
+
+// POST /api/posts/[id]/media/text — extract the text of the post's attachments
+// (PDF, Word, slides, web pages, OCR for images) that haven't been indexed yet,
+// so search can match inside them. The web form calls this after uploading,
+// since it writes to Supabase Storage directly. Summaries still queued (images
+// wait for their OCR text) are run afterwards.
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { user, token, error: authError } = await getAuthenticatedUser(req, 'write');
+  if (!user) return authError;
+
+  const { id } = await params;
+  const supabase = getUserClient(token);
+
+  const { data: post } = await supabase
+    .from('posts')
+    .select('id')
+    .eq('id', id)
+    .eq('user_id', user.id)
+    .is('deleted_at', null)
+    .maybeSingle();
+  if (!post) {
+    return NextResponse.json({ error: 'Post not found' }, { status: 404 });
+  }
+
+  let result: { indexed: number; failed: number };
+  try {
+    result = await indexPostAttachments(supabase, id);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Text extraction failed';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+
+  if (result.indexed > 0) {
+    after(async () => {
+      const background = getBackgroundClient(user, token);
+      const { data: queued } = await background
+        .from('summary_jobs')
+        .select('id')
+        .eq('post_id', id)
+        .eq('status', 'queued');
+      for (const job of queued ?? []) {
+        const { error } = await runSummaryJob(background, job.id);
+        if (error) console.error(`[media/text] job ${job.id} failed to run:`, error);
+      }
+    });
+  }
+
+  return NextResponse.json({ post_id: id, ...result });
+}
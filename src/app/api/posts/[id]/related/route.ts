@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthenticatedUser, getUserClient } from '@/lib/apiAuth';
+import { embedPost, type SemanticHit } from '@/lib/embeddings';
+
+// GET /api/posts/[id]/related — the posts whose embeddings are closest to this one
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { user, token, error: authError } = await getAuthenticatedUser(req);
+  if (!user) return authError;
+
+  const { id } = await params;
+  const { searchParams } = new URL(req.url);
+  const limit = Math.min(parseInt(searchParams.get('limit') ?? '5') || 5, 20);
+  const supabase = getUserClient(token);
+
+  const { data: post } = await supabase
+    .from('posts')
+    .select('id, user_id')
+    .eq('id', id)
+    .is('deleted_at', null)
+    .maybeSingle();
+  if (!post) {
+    return NextResponse.json({ error: 'Post not found' }, { status: 404 });
+  }
+
+  // Catch up on edits made since the last embedding (e.g. a new PDF summary).
+  // Only the owner can write it; everyone else sees the stored one.
+  if (post.user_id === user.id) {
+    try {
+      await embedPost(supabase, id);
+    } catch (err) {
+      console.error(`[related] embedding post ${id} failed:`, err);
+    }
+  }
+
+  const { data, error } = await supabase.rpc('related_posts', { p_post_id: id, p_limit: limit });
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json({
+    posts: ((data ?? []) as SemanticHit[]).map(hit => ({
+      id: hit.id,
+      created_at: hit.created_at,
+      content: hit.content,
+      tags: hit.tags,
+      similarity: hit.similarity,
+    })),
+  });
+}
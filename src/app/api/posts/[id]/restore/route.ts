@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthenticatedUser, getUserClient } from '@/lib/apiAuth';
+
+// POST /api/posts/[id]/restore — take a post back out of the trash
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { user, token, error: authError } = await getAuthenticatedUser(req, 'write');
+  if (!user) return authError;
+
+  const { id } = await params;
+  const supabase = getUserClient(token);
+
+  const { data: post, error } = await supabase
+    .from('posts')
+    .update({ deleted_at: null })
+    .eq('id', id)
+    .eq('user_id', user.id)
+    .not('deleted_at', 'is', null)
+    .select('id, created_at, updated_at, content, tags')
+    .single();
+
+  if (error || !post) {
+    return NextResponse.json({ error: 'Post not found in trash' }, { status: 404 });
+  }
+
+  return NextResponse.json(post);
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { getAuthenticatedUser, getBackgroundClient, getUserClient } from '@/lib/apiAuth';
+import { embedPostQuietly } from '@/lib/embeddings';
+
+// POST /api/posts/[id]/revisions/[revisionId]/restore — make an old revision current.
+// The current version is kept as a new revision by the posts trigger, so a restore can be undone.
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; revisionId: string }> }
+) {
+  const { user, token, error: authError } = await getAuthenticatedUser(req, 'write');
+  if (!user) return authError;
+
+  const { id, revisionId } = await params;
+  const supabase = getUserClient(token);
+
+  const { data: revision } = await supabase
+    .from('post_revisions')
+    .select('id, content, tags')
+    .eq('id', revisionId)
+    .eq('post_id', id)
+    .single();
+
+  if (!revision) {
+    return NextResponse.json({ error: 'Revision not found' }, { status: 404 });
+  }
+
+  const { data: post, error } = await supabase
+    .from('posts')
+    .update({
+      content: revision.content,
+      tags: revision.tags,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', id)
+    .eq('user_id', user.id)
+    .select('id, created_at, updated_at, content, tags')
+    .single();
+
+  if (error || !post) {
+    return NextResponse.json({ error: error?.message ?? 'Post not found' }, { status: 404 });
+  }
+
+  after(() => embedPostQuietly(getBackgroundClient(user, token), id));
+
+  return NextResponse.json({ restored: revision.id, post });
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthenticatedUser, getUserClient } from '@/lib/apiAuth';
+
+// GET /api/posts/[id]/revisions — previous versions of a post, newest first
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { user, token, error: authError } = await getAuthenticatedUser(req);
+  if (!user) return authError;
+
+  const { id } = await params;
+  const supabase = getUserClient(token);
+
+  const { data: post } = await supabase
+    .from('posts')
+    .select('id, updated_at, content, tags')
+    .eq('id', id)
+    .eq('user_id', user.id)
+    .single();
+
+  if (!post) {
+    return NextResponse.json({ error: 'Post not found' }, { status: 404 });
+  }
+
+  const { data, error } = await supabase
+    .from('post_revisions')
+    .select('id, content, tags, saved_at, replaced_at')
+    .eq('post_id', id)
+    .order('replaced_at', { ascending: false });
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json({ current: post, revisions: data ?? [] });
+}
@@ -1,61 +1,59 @@
-import { createClient } from '@supabase/supabase-js';
-import { NextRequest, NextResponse } from 'next/server';
-
-function getUserClient(token: string) {
-  return createClient(
-    process.env.NEXT_PUBLIC_SUPABASE_URL!,
-    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
-    { global: { headers: { Authorization: `Bearer ${token}` } } }
-  );
-}
+import { NextRequest, NextResponse, after } from 'next/server';
+import { getAuthenticatedUser, getBackgroundClient, getUserClient } from '@/lib/apiAuth';
+import { purgeAfter, purgePosts } from '@/lib/trash';
+import { parseETag, postETag } from '@/lib/etag';
+import { embedPostQuietly } from '@/lib/embeddings';
 
-async function getAuthenticatedUser(req: NextRequest) {
-  const authHeader = req.headers.get('authorization') ?? '';
-  const token = authHeader.startsWith('Bearer ') ? authHeader.slice(7) : null;
-  if (!token) return { user: null, token: null };
-  const supabase = getUserClient(token);
-  const { data: { user } } = await supabase.auth.getUser();
-  return { user, token };
-}
+const POST_COLUMNS = 'id, created_at, updated_at, content, tags, is_starred';
 
-// GET /api/posts/[id] — fetch a single post
+// GET /api/posts/[id] — fetch a single post. The ETag header carries its
+// version; send it back as If-Match on PATCH to avoid overwriting other edits.
 export async function GET(
   req: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
-  const { user, token } = await getAuthenticatedUser(req);
-  if (!user) {
-    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-  }
+  const { user, token, error: authError } = await getAuthenticatedUser(req);
+  if (!user) return authError;
 
   const { id } = await params;
-  const supabase = getUserClient(token!);
+  const supabase = getUserClient(token);
 
   const { data: post, error } = await supabase
     .from('posts')
-    .select('id, created_at, updated_at, content, tags, is_starred')
+    .select(POST_COLUMNS)
     .eq('id', id)
     .eq('user_id', user.id)
+    .is('deleted_at', null)
     .single();
 
   if (error || !post) {
     return NextResponse.json({ error: 'Post not found' }, { status: 404 });
   }
 
-  return NextResponse.json(post);
+  const etag = postETag(post.updated_at);
+  if (parseETag(req.headers.get('if-none-match')) === post.updated_at) {
+    return new NextResponse(null, { status: 304, headers: { ETag: etag } });
+  }
+
+  return NextResponse.json(post, { headers: { ETag: etag } });
 }
 
-// PATCH /api/posts/[id] — update content and/or tags
+// PATCH /api/posts/[id] — update content and/or tags.
+// With If-Match, the update only applies if the post is still at that version;
+// otherwise it fails with 409 and the current server version.
 export async function PATCH(
   req: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
-  const { user, token } = await getAuthenticatedUser(req);
-  if (!user) {
-    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-  }
+  const { user, token, error: authError } = await getAuthenticatedUser(req, 'write');
+  if (!user) return authError;
 
   const { id } = await params;
+  const expectedVersion = parseETag(req.headers.get('if-match'));
+  if (expectedVersion === undefined) {
+    return NextResponse.json({ error: 'Invalid If-Match header' }, { status: 400 });
+  }
+
   const body = await req.json();
   const updates: Record<string, unknown> = {};
   if (typeof body.content === 'string') updates.content = body.content.trim();
@@ -64,45 +62,71 @@ export async function PATCH(
   if (Object.keys(updates).length === 0) {
     return NextResponse.json({ error: 'No updatable fields provided' }, { status: 400 });
   }
+  updates.updated_at = new Date().toISOString();
 
-  const supabase = getUserClient(token!);
+  const supabase = getUserClient(token);
 
-  const { data: post, error } = await supabase
+  let query = supabase
     .from('posts')
     .update(updates)
     .eq('id', id)
     .eq('user_id', user.id)
-    .select('id, created_at, content, tags')
-    .single();
+    .is('deleted_at', null);
 
-  if (error || !post) {
-    return NextResponse.json({ error: error?.message ?? 'Post not found' }, { status: 404 });
+  if (expectedVersion) {
+    query = query.eq('updated_at', expectedVersion);
   }
 
-  return NextResponse.json(post);
+  const { data: post, error } = await query.select(POST_COLUMNS).maybeSingle();
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  if (!post) {
+    const { data: current } = await supabase
+      .from('posts')
+      .select(POST_COLUMNS)
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .is('deleted_at', null)
+      .maybeSingle();
+
+    if (!current) {
+      return NextResponse.json({ error: 'Post not found' }, { status: 404 });
+    }
+    return NextResponse.json(
+      { error: 'Post was modified since it was read', current },
+      { status: 409, headers: { ETag: postETag(current.updated_at) } }
+    );
+  }
+
+  after(() => embedPostQuietly(getBackgroundClient(user, token), id));
+
+  return NextResponse.json(post, { headers: { ETag: postETag(post.updated_at) } });
 }
 
-// DELETE /api/posts/[id] — delete a post and its media files
+// DELETE /api/posts/[id] — move a post to the trash (restorable for 30 days).
+// ?permanent=true skips the trash and removes the post and its media now.
 export async function DELETE(
   req: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
-  const { user, token } = await getAuthenticatedUser(req);
-  if (!user) {
-    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-  }
+  const { user, token, error: authError } = await getAuthenticatedUser(req, 'delete');
+  if (!user) return authError;
 
   const { id } = await params;
   if (!id) {
     return NextResponse.json({ error: 'Post ID is required' }, { status: 400 });
   }
 
-  const supabase = getUserClient(token!);
+  const permanent = new URL(req.url).searchParams.get('permanent') === 'true';
+  const supabase = getUserClient(token);
 
   // Verify the post exists and belongs to this user
   const { data: post, error: fetchError } = await supabase
     .from('posts')
-    .select('id')
+    .select('id, deleted_at')
     .eq('id', id)
     .eq('user_id', user.id)
     .single();
@@ -111,29 +135,26 @@ export async function DELETE(
     return NextResponse.json({ error: 'Post not found or not yours' }, { status: 404 });
   }
 
-  // Delete associated storage files
-  const { data: mediaFiles } = await supabase
-    .from('media_files')
-    .select('file_path')
-    .eq('post_id', id);
-
-  if (mediaFiles && mediaFiles.length > 0) {
-    const paths = mediaFiles.map((f: { file_path: string }) => f.file_path);
-    await supabase.storage.from('post-media').remove(paths);
+  const deletedAt = post.deleted_at ?? new Date().toISOString();
+  if (!post.deleted_at) {
+    const { error: trashError } = await supabase
+      .from('posts')
+      .update({ deleted_at: deletedAt })
+      .eq('id', id)
+      .eq('user_id', user.id);
+
+    if (trashError) {
+      return NextResponse.json({ error: trashError.message }, { status: 500 });
+    }
   }
 
-  // Delete media_files records, then the post (cascade would handle this but be explicit)
-  await supabase.from('media_files').delete().eq('post_id', id);
-
-  const { error: deleteError } = await supabase
-    .from('posts')
-    .delete()
-    .eq('id', id)
-    .eq('user_id', user.id);
-
-  if (deleteError) {
-    return NextResponse.json({ error: deleteError.message }, { status: 500 });
+  if (permanent) {
+    const { error: purgeError } = await purgePosts(supabase, [id]);
+    if (purgeError) {
+      return NextResponse.json({ error: purgeError.message }, { status: 500 });
+    }
+    return NextResponse.json({ deleted: id, permanent: true });
   }
 
-  return NextResponse.json({ deleted: id });
+  return NextResponse.json({ deleted: id, permanent: false, purge_after: purgeAfter(deletedAt) });
 }
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { getAuthenticatedUser, getBackgroundClient, getUserClient } from '@/lib/apiAuth';
+import { embedPostQuietly } from '@/lib/embeddings';
+import { indexPostAttachmentsQuietly } from '@/lib/extractors';
+import {
+  retrySummaries,
+  runSummaryJob,
+  summaryState,
+  SUMMARY_JOB_COLUMNS,
+  type SummaryJob,
+} from '@/lib/summaryJobs';
+
+// GET /api/posts/[id]/summary — the attachment summary and the state of its jobs
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { user, token, error: authError } = await getAuthenticatedUser(req);
+  if (!user) return authError;
+
+  const { id } = await params;
+  const supabase = getUserClient(token);
+
+  const { data: post } = await supabase
+    .from('posts')
+    .select('id, summary, summary_file_path')
+    .eq('id', id)
+    .eq('user_id', user.id)
+    .maybeSingle();
+  if (!post) {
+    return NextResponse.json({ error: 'Post not found' }, { status: 404 });
+  }
+
+  const { data: jobs, error } = await supabase
+    .from('summary_jobs')
+    .select(SUMMARY_JOB_COLUMNS)
+    .eq('post_id', id)
+    .order('created_at', { ascending: true });
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json({
+    post_id: id,
+    summary: post.summary,
+    summary_file_path: post.summary_file_path,
+    state: summaryState(jobs ?? []),
+    jobs: jobs as SummaryJob[],
+  });
+}
+
+// POST /api/posts/[id]/summary — retry failed summaries (and summarize attachments
+// that never were). The jobs run after the response is sent.
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { user, token, error: authError } = await getAuthenticatedUser(req, 'write');
+  if (!user) return authError;
+
+  const { id } = await params;
+  const supabase = getUserClient(token);
+
+  let jobIds: string[];
+  try {
+    jobIds = await retrySummaries(supabase, id);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Retry failed';
+    return NextResponse.json({ error: message }, { status: message === 'Post not found' ? 404 : 500 });
+  }
+
+  if (jobIds.length > 0) {
+    after(async () => {
+      const background = getBackgroundClient(user, token);
+      // Images are summarized from their OCR text, so extract anything still missing first
+      await indexPostAttachmentsQuietly(background, id);
+      for (const jobId of jobIds) {
+        const { error } = await runSummaryJob(background, jobId);
+        if (error) console.error(`[summary] job ${jobId} failed to run:`, error);
+      }
+      // The summary is part of what gets embedded
+      await embedPostQuietly(background, id);
+    });
+  }
+
+  return NextResponse.json({ post_id: id, queued: jobIds }, { status: 202 });
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthenticatedUser, getUserClient } from '@/lib/apiAuth';
+import { embedPost, getEmbeddingProvider, type EmbeddingProvider } from '@/lib/embeddings';
+
+// POST /api/posts/embeddings?limit=50 — embed the caller's posts that have no
+// embedding from the current provider yet (notes written before semantic
+// search existed, or after switching providers). Call until remaining is 0.
+export async function POST(req: NextRequest) {
+  const { user, token, error: authError } = await getAuthenticatedUser(req, 'write');
+  if (!user) return authError;
+
+  const { searchParams } = new URL(req.url);
+  const limit = Math.min(parseInt(searchParams.get('limit') ?? '50') || 50, 200);
+  const supabase = getUserClient(token);
+
+  let provider: EmbeddingProvider;
+  try {
+    provider = getEmbeddingProvider();
+  } catch (err) {
+    return NextResponse.json({ error: err instanceof Error ? err.message : 'No embedding provider' }, { status: 500 });
+  }
+
+  const { data, error } = await supabase
+    .from('posts')
+    .select('id, post_embeddings(model)')
+    .eq('user_id', user.id)
+    .is('deleted_at', null)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  const missing = (data ?? [])
+    .filter(post => {
+      const embedding = post.post_embeddings as { model: string } | { model: string }[] | null;
+      const model = Array.isArray(embedding) ? embedding[0]?.model : embedding?.model;
+      return model !== provider.model;
+    })
+    .map(post => post.id);
+
+  const embedded: string[] = [];
+  const failed: { id: string; error: string }[] = [];
+  for (const id of missing.slice(0, limit)) {
+    try {
+      await embedPost(supabase, id, provider);
+      embedded.push(id);
+    } catch (err) {
+      failed.push({ id, error: err instanceof Error ? err.message : 'Embedding failed' });
+    }
+  }
+
+  return NextResponse.json({
+    model: provider.model,
+    embedded: embedded.length,
+    failed,
+    remaining: missing.length - embedded.length - failed.length,
+  });
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { getAuthenticatedUser, getBackgroundClient, getUserClient } from '@/lib/apiAuth';
+import { embedPostQuietly } from '@/lib/embeddings';
+
+// POST /api/posts/import/[id]/complete — finish a post imported with pending: true
+// once its attachments are uploaded. Body: { content? } — the text with its
+// image links pointed at the uploads. No revision is recorded and updated_at
+// is left alone (see 20261024_import_pending.sql).
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { user, token, error: authError } = await getAuthenticatedUser(req, 'write');
+  if (!user) return authError;
+
+  const { id } = await params;
+  const body = await req.json().catch(() => ({}));
+  if (body.content !== undefined && (typeof body.content !== 'string' || !body.content.trim())) {
+    return NextResponse.json({ error: 'content must be a non-empty string' }, { status: 400 });
+  }
+
+  const supabase = getUserClient(token);
+  const { data: post, error } = await supabase
+    .from('posts')
+    .update({ import_pending: false, ...(body.content !== undefined ? { content: body.content.trim() } : {}) })
+    .eq('id', id)
+    .eq('user_id', user.id)
+    .eq('import_pending', true)
+    .is('deleted_at', null)
+    .select('id, created_at, updated_at, content, tags')
+    .maybeSingle();
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+  if (!post) {
+    return NextResponse.json({ error: 'No unfinished import with that id' }, { status: 404 });
+  }
+
+  after(() => embedPostQuietly(getBackgroundClient(user, token), id));
+
+  return NextResponse.json(post);
+}
@@ -0,0 +1,170 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { createHash } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { getAuthenticatedUser, getBackgroundClient, getUserClient } from '@/lib/apiAuth';
+import { embedPostQuietly } from '@/lib/embeddings';
+
+const MAX_BATCH = 100;
+
+type ImportItem = {
+  content?: unknown;
+  tags?: unknown;
+  created_at?: unknown;
+  source?: unknown;
+  pending?: unknown;
+};
+
+type ImportResult = {
+  index: number;
+  source: string | null;
+  status: 'created' | 'would_create' | 'resume' | 'duplicate' | 'invalid';
+  id?: string;
+  duplicate_of?: string;
+  error?: string;
+};
+
+// Matches the generated posts.content_hash column (md5 of the stored text)
+function contentHash(content: string) {
+  return createHash('md5').update(content, 'utf-8').digest('hex');
+}
+
+// POST /api/posts/import — create many posts at once, skipping duplicates
+// Body: { posts: [{ content, tags?, created_at?, source?, pending? }], dry_run?: boolean }
+// pending: true is for posts whose attachments the client uploads next: the
+// post stays an unfinished import until POST /api/posts/import/[id]/complete,
+// and importing the same text again returns it as "resume" rather than as a
+// duplicate. Posts in the trash don't count as duplicates.
+export async function POST(req: NextRequest) {
+  const { user, token, error: authError } = await getAuthenticatedUser(req, 'write');
+  if (!user) return authError;
+
+  const body = await req.json();
+  const items: ImportItem[] = Array.isArray(body.posts) ? body.posts : [];
+  const dryRun = body.dry_run === true;
+
+  if (items.length === 0) {
+    return NextResponse.json({ error: 'posts must be a non-empty array' }, { status: 400 });
+  }
+  if (items.length > MAX_BATCH) {
+    return NextResponse.json({ error: `At most ${MAX_BATCH} posts per request` }, { status: 400 });
+  }
+
+  const results: ImportResult[] = [];
+  const candidates: {
+    index: number;
+    source: string | null;
+    content: string;
+    tags: string[];
+    created_at: string | null;
+    hash: string;
+    pending: boolean;
+  }[] = [];
+
+  items.forEach((item, index) => {
+    const source = typeof item.source === 'string' ? item.source : null;
+    const content = typeof item.content === 'string' ? item.content.trim() : '';
+    if (!content) {
+      results.push({ index, source, status: 'invalid', error: 'content is required' });
+      return;
+    }
+    let createdAt: string | null = null;
+    if (item.created_at != null) {
+      const parsed = new Date(String(item.created_at));
+      if (Number.isNaN(parsed.getTime())) {
+        results.push({ index, source, status: 'invalid', error: `Unrecognised created_at "${item.created_at}"` });
+        return;
+      }
+      createdAt = parsed.toISOString();
+    }
+    const tags = Array.isArray(item.tags)
+      ? Array.from(new Set(item.tags.filter((t): t is string => typeof t === 'string' && !!t.trim()).map(t => t.trim())))
+      : [];
+    candidates.push({ index, source, content, tags, created_at: createdAt, hash: contentHash(content), pending: item.pending === true });
+  });
+
+  const supabase = getUserClient(token);
+  const hashes = Array.from(new Set(candidates.map(c => c.hash)));
+  const existing = new Map<string, { id: string; pending: boolean }>();
+  // A finished post wins over an unfinished import of the same text
+  const remember = (hash: string | null, id: string, pending: boolean) => {
+    if (hash && (!existing.has(hash) || existing.get(hash)!.pending)) existing.set(hash, { id, pending });
+  };
+
+  if (hashes.length > 0) {
+    const hashList = hashes.join(',');
+    const { data, error } = await supabase
+      .from('posts')
+      .select('id, content_hash, import_hash, import_pending')
+      .eq('user_id', user.id)
+      .is('deleted_at', null)
+      .or(`content_hash.in.(${hashList}),import_hash.in.(${hashList})`);
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+    for (const row of data ?? []) {
+      remember(row.content_hash, row.id, row.import_pending);
+      remember(row.import_hash, row.id, row.import_pending);
+    }
+  }
+
+  const toInsert: (typeof candidates[number] & { id: string })[] = [];
+  for (const candidate of candidates) {
+    const match = existing.get(candidate.hash);
+    if (match?.pending) {
+      results.push({ index: candidate.index, source: candidate.source, status: 'resume', id: match.id });
+      continue;
+    }
+    if (match) {
+      results.push({ index: candidate.index, source: candidate.source, status: 'duplicate', duplicate_of: match.id });
+      continue;
+    }
+    // Ids are assigned up front so duplicates within the same batch point at the first copy
+    const id = uuidv4();
+    existing.set(candidate.hash, { id, pending: false });
+    toInsert.push({ ...candidate, id });
+  }
+
+  if (!dryRun && toInsert.length > 0) {
+    const { error } = await supabase.from('posts').insert(
+      toInsert.map(c => ({
+        id: c.id,
+        content: c.content,
+        tags: c.tags,
+        user_id: user.id,
+        secret_url: uuidv4(),
+        import_hash: c.hash,
+        import_pending: c.pending,
+        ...(c.created_at ? { created_at: c.created_at, updated_at: c.created_at } : {}),
+      }))
+    );
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    // Pending posts are embedded once they're complete
+    after(async () => {
+      const background = getBackgroundClient(user, token);
+      for (const c of toInsert) if (!c.pending) await embedPostQuietly(background, c.id);
+    });
+  }
+
+  for (const c of toInsert) {
+    results.push({ index: c.index, source: c.source, status: dryRun ? 'would_create' : 'created', id: dryRun ? undefined : c.id });
+  }
+  results.sort((a, b) => a.index - b.index);
+
+  const count = (status: ImportResult['status']) => results.filter(r => r.status === status).length;
+  return NextResponse.json({
+    dry_run: dryRun,
+    results,
+    summary: {
+      created: count('created'),
+      would_create: count('would_create'),
+      resume: count('resume'),
+      duplicate: count('duplicate'),
+      invalid: count('invalid'),
+    },
+  }, { status: dryRun ? 200 : 201 });
+}
@@ -1,31 +1,23 @@
-import { createClient } from '@supabase/supabase-js';
-import { NextRequest, NextResponse } from 'next/server';
+import { NextRequest, NextResponse, after } from 'next/server';
+import { getAuthenticatedUser, getBackgroundClient, getUserClient } from '@/lib/apiAuth';
 import { v4 as uuidv4 } from 'uuid';
-
-function getUserClient(token: string) {
-  return createClient(
-    process.env.NEXT_PUBLIC_SUPABASE_URL!,
-    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
-    { global: { headers: { Authorization: `Bearer ${token}` } } }
-  );
-}
-
-async function getAuthenticatedUser(req: NextRequest) {
-  const authHeader = req.headers.get('authorization') ?? '';
-  const token = authHeader.startsWith('Bearer ') ? authHeader.slice(7) : null;
-  if (!token) return { user: null, token: null };
-
-  const supabase = getUserClient(token);
-  const { data: { user } } = await supabase.auth.getUser();
-  return { user, token };
-}
+import {
+  decodeSearchCursor,
+  encodeSearchCursor,
+  parseSearchSort,
+  searchPosts,
+  snippetToHtml,
+  suggestSearches,
+} from '@/lib/search';
+import { applySearchFilters, parseSearchQuery } from '@/lib/searchQuery';
+import { loadSynonyms } from '@/lib/synonyms';
+import { embedPostQuietly } from '@/lib/embeddings';
+import { afterPostCursor, decodePostCursor, encodePostCursor } from '@/lib/postCursor';
 
 // POST /api/posts — create a post
 export async function POST(req: NextRequest) {
-  const { user, token } = await getAuthenticatedUser(req);
-  if (!user) {
-    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-  }
+  const { user, token, error: authError } = await getAuthenticatedUser(req, 'write');
+  if (!user) return authError;
 
   const body = await req.json();
   const { content, tags } = body;
@@ -34,7 +26,7 @@ export async function POST(req: NextRequest) {
     return NextResponse.json({ error: 'content is required' }, { status: 400 });
   }
 
-  const supabase = getUserClient(token!);
+  const supabase = getUserClient(token);
   const { data, error } = await supabase
     .from('posts')
     .insert({
@@ -50,36 +42,110 @@ export async function POST(req: NextRequest) {
     return NextResponse.json({ error: error.message }, { status: 500 });
   }
 
+  after(() => embedPostQuietly(getBackgroundClient(user, token), data.id));
+
   return NextResponse.json(data, { status: 201 });
 }
 
-// GET /api/posts — list or search the authenticated user's posts
+// GET /api/posts — list or search the authenticated user's posts.
+// q accepts the search query language (tag:, -tag:, is:, has:, before:, after:),
+// and abbreviations in it also match their expansions (bundled + the user's own).
+// When it has free text, results come from search_posts: ranked by relevance
+// (or sort=newest) and each hit carries an HTML-safe snippet with <mark>ed matches.
+// If exact matches are scarce, typo-tolerant matches (fuzzy: true) are appended
+// and "did you mean" queries are returned as suggestions. PDF summaries and
+// attachment text are searched too; match_source says which one a hit came from.
+// With paginate=1 or a cursor the response is { posts, next_cursor } (plus
+// suggestions for searches); otherwise it is the plain array of the first
+// limit posts, as it was before pagination.
 export async function GET(req: NextRequest) {
-  const { user, token } = await getAuthenticatedUser(req);
-  if (!user) {
-    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-  }
+  const { user, token, error: authError } = await getAuthenticatedUser(req);
+  if (!user) return authError;
 
   const { searchParams } = new URL(req.url);
   const q = searchParams.get('q') ?? '';
-  const limit = Math.min(parseInt(searchParams.get('limit') ?? '20'), 100);
+  const limit = Math.max(1, Math.min(parseInt(searchParams.get('limit') ?? '20') || 20, 100));
+  // Callers from before pagination (which may send limit) get a bare array of posts
+  const paged = searchParams.get('paginate') === '1' || searchParams.has('cursor');
   const tag = searchParams.get('tag') ?? '';
+  const cursorParam = searchParams.get('cursor');
+  const sort = parseSearchSort(searchParams.get('sort'));
+  if (!sort) {
+    return NextResponse.json({ error: 'sort must be "relevance" or "newest"' }, { status: 400 });
+  }
+
+  const search = parseSearchQuery(q);
+  if (search.errors.length > 0) {
+    return NextResponse.json({ error: 'Invalid search query', errors: search.errors }, { status: 400 });
+  }
+  if (tag && !search.tags.includes(tag)) search.tags.push(tag);
+
+  const supabase = getUserClient(token);
+
+  if (search.text.trim()) {
+    const offset = cursorParam ? decodeSearchCursor(cursorParam) : 0;
+    if (offset === null) {
+      return NextResponse.json({ error: 'Invalid cursor' }, { status: 400 });
+    }
+
+    // Fetch one extra row to know whether another page exists
+    const synonyms = await loadSynonyms(supabase, user.id);
+    const { hits, error, fallback } = await searchPosts(supabase, {
+      query: search,
+      sort,
+      limit: limit + 1,
+      offset,
+      userId: user.id,
+      synonyms,
+    });
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    // Fuzzy matches only ever fill the first page, so there is nothing after them
+    const hasMore = !fallback && hits.length > limit;
+    const posts = hits.slice(0, limit).map(hit => ({
+      id: hit.id,
+      created_at: hit.created_at,
+      content: hit.content,
+      tags: hit.tags,
+      is_starred: hit.is_starred,
+      rank: hit.rank,
+      snippet: snippetToHtml(hit.snippet),
+      fuzzy: hit.fuzzy ?? false,
+      match_source: hit.match_source,
+      match_file_name: hit.match_file_name,
+    }));
+    if (!paged) return NextResponse.json(posts);
+
+    const suggestions = fallback ? await suggestSearches(supabase, q, search) : [];
+    return NextResponse.json({
+      posts,
+      suggestions,
+      next_cursor: hasMore ? encodeSearchCursor(offset + limit) : null,
+    });
+  }
+
+  const cursor = cursorParam ? decodePostCursor(cursorParam) : null;
+  if (cursorParam && !cursor) {
+    return NextResponse.json({ error: 'Invalid cursor' }, { status: 400 });
+  }
 
-  const supabase = getUserClient(token!);
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   let query: any = supabase
     .from('posts')
     .select('id, created_at, content, tags, is_starred')
+    .is('deleted_at', null)
     .order('created_at', { ascending: false })
-    .limit(limit);
+    .order('id', { ascending: false })
+    // Fetch one extra row to know whether another page exists
+    .limit(limit + 1);
 
-  if (q) {
-    query = query.textSearch('fts', q, { type: 'websearch' });
+  if (cursor) {
+    query = query.or(afterPostCursor(cursor));
   }
 
-  if (tag) {
-    query = query.contains('tags', [tag]);
-  }
+  query = applySearchFilters(query, search, user.id);
 
   const { data, error } = await query;
 
@@ -87,5 +153,12 @@ export async function GET(req: NextRequest) {
     return NextResponse.json({ error: error.message }, { status: 500 });
   }
 
-  return NextResponse.json(data);
+  const hasMore = data.length > limit;
+  const posts = hasMore ? data.slice(0, limit) : data;
+  if (!paged) return NextResponse.json(posts);
+
+  return NextResponse.json({
+    posts,
+    next_cursor: hasMore ? encodePostCursor(posts[posts.length - 1]) : null,
+  });
 }
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthenticatedUser, getUserClient } from '@/lib/apiAuth';
+import { semanticSearch } from '@/lib/embeddings';
+import { decodeSearchCursor, encodeSearchCursor } from '@/lib/search';
+import { parseSearchQuery } from '@/lib/searchQuery';
+import { GET as listPosts } from '../route';
+
+const SEARCH_MODES = ['keyword', 'semantic'] as const;
+
+// GET /api/posts/search?q=…&mode=keyword|semantic
+// keyword (the default) is the same full-text search as GET /api/posts?q=.
+// semantic ranks posts by embedding similarity to the free text of q, so a
+// search for "blood thinners after valve surgery" can find a note about
+// warfarin and mechanical valves. Operators (tag:, is:, has:, …) still filter.
+export async function GET(req: NextRequest) {
+  const { searchParams } = new URL(req.url);
+  const mode = searchParams.get('mode') ?? 'keyword';
+  if (!SEARCH_MODES.includes(mode as (typeof SEARCH_MODES)[number])) {
+    return NextResponse.json({ error: `mode must be one of ${SEARCH_MODES.join(', ')}` }, { status: 400 });
+  }
+  if (mode === 'keyword') return listPosts(req);
+
+  const { user, token, error: authError } = await getAuthenticatedUser(req);
+  if (!user) return authError;
+
+  const limit = Math.max(1, Math.min(parseInt(searchParams.get('limit') ?? '20') || 20, 100));
+  const cursorParam = searchParams.get('cursor');
+  const offset = cursorParam ? decodeSearchCursor(cursorParam) : 0;
+  if (offset === null) {
+    return NextResponse.json({ error: 'Invalid cursor' }, { status: 400 });
+  }
+
+  const search = parseSearchQuery(searchParams.get('q') ?? '');
+  if (search.errors.length > 0) {
+    return NextResponse.json({ error: 'Invalid search query', errors: search.errors }, { status: 400 });
+  }
+  if (!search.text.trim()) {
+    return NextResponse.json({ error: 'q needs some text to search for' }, { status: 400 });
+  }
+
+  const supabase = getUserClient(token);
+  let result;
+  try {
+    // Fetch one extra row to know whether another page exists
+    result = await semanticSearch(supabase, { query: search, limit: limit + 1, offset, userId: user.id });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Embedding failed';
+    return NextResponse.json({ error: message }, { status: 502 });
+  }
+  if (result.error) {
+    return NextResponse.json({ error: result.error.message }, { status: 500 });
+  }
+
+  const { hits } = result;
+  const hasMore = hits.length > limit;
+  return NextResponse.json({
+    posts: hits.slice(0, limit).map(hit => ({
+      id: hit.id,
+      created_at: hit.created_at,
+      content: hit.content,
+      tags: hit.tags,
+      is_starred: hit.is_starred,
+      similarity: hit.similarity,
+    })),
+    next_cursor: hasMore ? encodeSearchCursor(offset + limit) : null,
+  });
+}
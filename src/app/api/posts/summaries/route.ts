@@ -0,0 +1,185 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { getAuthenticatedUser, getBackgroundClient, getUserClient } from '@/lib/apiAuth';
+import { attachmentKind } from '@/lib/attachmentTypes';
+import { indexPostAttachmentsQuietly } from '@/lib/extractors';
+import { afterPostCursor, decodePostCursor, encodePostCursor } from '@/lib/postCursor';
+import { enqueueSummary, SUMMARY_JOB_COLUMNS, type SummaryJob, type SummaryJobStatus } from '@/lib/summaryJobs';
+
+type Mode = 'post' | 'missing' | 'failed';
+
+type Candidate = { post_id: string; file_path: string; file_name: string; file_type: string; text_extracted_at: string | null };
+
+type PostRow = {
+  id: string;
+  created_at: string;
+  summary: string | null;
+  media_files: Omit<Candidate, 'post_id'>[] | null;
+  summary_jobs: { file_path: string; status: SummaryJobStatus }[] | null;
+};
+
+// Posts are read this many at a time, with their attachments and jobs
+const SCAN_PAGE = 50;
+// A call stops after this many posts even if the batch isn't full, and hands
+// back a cursor to carry on from
+const MAX_SCANNED_POSTS = 500;
+
+function candidatesOf(post: PostRow, mode: Mode): Candidate[] {
+  const jobs = new Map((post.summary_jobs ?? []).map(job => [job.file_path, job.status]));
+  return (post.media_files ?? [])
+    .filter(file => {
+      if (!attachmentKind(file)) return false;
+      const status = jobs.get(file.file_path);
+      return mode === 'post'
+        || (mode === 'failed' && status === 'failed')
+        || (mode === 'missing' && !post.summary && status === undefined);
+    })
+    .map(file => ({ post_id: post.id, ...file }));
+}
+
+// POST /api/posts/summaries?mode=missing|failed|post&post_id=<id>&limit=20&cursor=<cursor> —
+// queue summaries for the caller's existing attachments:
+//   missing  attachments of posts without a summary that were never summarized
+//   failed   attachments whose summary job gave up
+//   post     every attachment of post_id, summarized again
+// Posts are scanned newest first; call again with next_cursor until it is
+// null, then follow progress with GET. limit counts attachments, but a post's
+// attachments always go in the same batch. Attachment text (OCR for images,
+// which are summarized from it) is extracted after the response is sent. The
+// jobs themselves run through the summary queue, a few per minute, so a large
+// backfill stays within the model provider's rate limits.
+export async function POST(req: NextRequest) {
+  const { user, token, error: authError } = await getAuthenticatedUser(req, 'write');
+  if (!user) return authError;
+
+  const { searchParams } = new URL(req.url);
+  const mode = (searchParams.get('mode') ?? 'missing') as Mode;
+  const postId = searchParams.get('post_id');
+  const limit = Math.max(1, Math.min(parseInt(searchParams.get('limit') ?? '20') || 20, 100));
+  const cursorParam = searchParams.get('cursor');
+  if (!['post', 'missing', 'failed'].includes(mode)) {
+    return NextResponse.json({ error: 'mode must be "missing", "failed" or "post"' }, { status: 400 });
+  }
+  if (mode === 'post' && !postId) {
+    return NextResponse.json({ error: 'post_id is required with mode=post' }, { status: 400 });
+  }
+  const cursor = cursorParam ? decodePostCursor(cursorParam) : null;
+  if (cursorParam && !cursor) {
+    return NextResponse.json({ error: 'Invalid cursor' }, { status: 400 });
+  }
+
+  const supabase = getUserClient(token);
+  // For GET ?since=, taken before anything is queued
+  const startedAt = new Date().toISOString();
+
+  const batch: Candidate[] = [];
+  let lastPost: PostRow | null = null;
+  let scanned = 0;
+  let more = false;
+  while (!more) {
+    let query = supabase
+      .from('posts')
+      .select('id, created_at, summary, media_files(file_path, file_name, file_type, text_extracted_at), summary_jobs(file_path, status)')
+      .eq('user_id', user.id)
+      .is('deleted_at', null)
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(SCAN_PAGE);
+    if (mode === 'post') query = query.eq('id', postId!);
+    else if (lastPost) query = query.or(afterPostCursor({ createdAt: lastPost.created_at, id: lastPost.id }));
+    else if (cursor) query = query.or(afterPostCursor(cursor));
+
+    const { data, error } = await query;
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+    const posts = (data ?? []) as PostRow[];
+    if (mode === 'post' && posts.length === 0) {
+      return NextResponse.json({ error: 'Post not found' }, { status: 404 });
+    }
+
+    for (const post of posts) {
+      batch.push(...candidatesOf(post, mode));
+      lastPost = post;
+      scanned++;
+      if (batch.length >= limit || scanned >= MAX_SCANNED_POSTS) {
+        more = true;
+        break;
+      }
+    }
+    // mode=post matches the same files on every call, so one call does it
+    if (mode === 'post' || posts.length < SCAN_PAGE) break;
+  }
+
+  const queued: string[] = [];
+  const failed: { post_id: string; file_name: string; error: string }[] = [];
+  for (const file of batch) {
+    try {
+      queued.push(await enqueueSummary(supabase, file.post_id, file.file_path));
+    } catch (err) {
+      failed.push({ post_id: file.post_id, file_name: file.file_name, error: err instanceof Error ? err.message : 'Could not queue' });
+    }
+  }
+
+  const postIds = Array.from(new Set(batch.map(file => file.post_id)));
+  if (postIds.length > 0) {
+    after(async () => {
+      // Extracting a batch's text (OCR included) can outlast a PAT's request token
+      const background = getBackgroundClient(user, token);
+      for (const id of postIds) {
+        await indexPostAttachmentsQuietly(background, id);
+        // An image job that ran before its OCR text existed is backing off;
+        // queue it again so it starts over now that the text is there
+        for (const file of batch) {
+          if (file.post_id !== id || file.text_extracted_at || attachmentKind(file) !== 'image') continue;
+          await enqueueSummary(background, id, file.file_path).catch(err => {
+            console.error(`[summaries] could not requeue ${file.file_path}:`, err);
+          });
+        }
+      }
+    });
+  }
+
+  return NextResponse.json({
+    mode,
+    started_at: startedAt,
+    queued,
+    failed,
+    next_cursor: more && mode !== 'post' && lastPost ? encodePostCursor(lastPost) : null,
+  }, { status: 202 });
+}
+
+// GET /api/posts/summaries?since=<ISO time> — progress of the caller's summary
+// jobs touched since then: counts per status and the failures
+export async function GET(req: NextRequest) {
+  const { user, token, error: authError } = await getAuthenticatedUser(req);
+  if (!user) return authError;
+
+  const since = new URL(req.url).searchParams.get('since');
+  if (since && Number.isNaN(Date.parse(since))) {
+    return NextResponse.json({ error: 'since must be an ISO timestamp' }, { status: 400 });
+  }
+
+  const supabase = getUserClient(token);
+  let query = supabase
+    .from('summary_jobs')
+    .select(SUMMARY_JOB_COLUMNS)
+    .eq('user_id', user.id)
+    .order('updated_at', { ascending: true });
+  if (since) query = query.gte('updated_at', since);
+
+  const { data, error } = await query;
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  const jobs = (data ?? []) as SummaryJob[];
+  const counts: Record<SummaryJobStatus, number> = { queued: 0, running: 0, succeeded: 0, failed: 0 };
+  for (const job of jobs) counts[job.status]++;
+
+  return NextResponse.json({
+    counts,
+    failed: jobs
+      .filter(job => job.status === 'failed')
+      .map(job => ({ job_id: job.id, post_id: job.post_id, file_path: job.file_path, attempts: job.attempts, error: job.last_error })),
+  });
+}
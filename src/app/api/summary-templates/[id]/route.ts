@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthenticatedUser, getUserClient } from '@/lib/apiAuth';
+import {
+  normalizeTemplateInstructions,
+  normalizeTemplateName,
+  normalizeTemplateTags,
+  SUMMARY_TEMPLATE_COLUMNS,
+} from '@/lib/summaryTemplates';
+
+// PATCH /api/summary-templates/[id] — edit one of the caller's templates (name, instructions, tags, is_default)
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { user, token, error: authError } = await getAuthenticatedUser(req, 'write');
+  if (!user) return authError;
+
+  const { id } = await params;
+  const body = await req.json();
+  const updates: Record<string, unknown> = {};
+
+  if ('name' in body) {
+    const name = normalizeTemplateName(body.name);
+    if (!name) return NextResponse.json({ error: 'name is required (at most 80 characters)' }, { status: 400 });
+    updates.name = name;
+  }
+  if ('instructions' in body) {
+    const instructions = normalizeTemplateInstructions(body.instructions);
+    if (!instructions) return NextResponse.json({ error: 'instructions are required (at most 4000 characters)' }, { status: 400 });
+    updates.instructions = instructions;
+  }
+  if ('tags' in body) updates.tags = normalizeTemplateTags(body.tags);
+  if ('is_default' in body) updates.is_default = body.is_default === true;
+
+  if (Object.keys(updates).length === 0) {
+    return NextResponse.json({ error: 'Nothing to update' }, { status: 400 });
+  }
+
+  const supabase = getUserClient(token);
+  if (updates.is_default) {
+    await supabase
+      .from('summary_templates')
+      .update({ is_default: false })
+      .eq('user_id', user.id)
+      .eq('is_default', true)
+      .neq('id', id);
+  }
+
+  const { data, error } = await supabase
+    .from('summary_templates')
+    .update({ ...updates, updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .eq('user_id', user.id)
+    .select(SUMMARY_TEMPLATE_COLUMNS)
+    .maybeSingle();
+
+  if (error) {
+    if (error.code === '23505') {
+      return NextResponse.json({ error: `You already have a template named "${updates.name}"` }, { status: 409 });
+    }
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+  if (!data) {
+    return NextResponse.json({ error: 'Template not found' }, { status: 404 });
+  }
+
+  return NextResponse.json(data);
+}
+
+// DELETE /api/summary-templates/[id] — remove one of the caller's templates
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { user, token, error: authError } = await getAuthenticatedUser(req, 'delete');
+  if (!user) return authError;
+
+  const { id } = await params;
+  const supabase = getUserClient(token);
+
+  const { data, error } = await supabase
+    .from('summary_templates')
+    .delete()
+    .eq('id', id)
+    .eq('user_id', user.id)
+    .select('id')
+    .single();
+
+  if (error || !data) {
+    return NextResponse.json({ error: 'Template not found' }, { status: 404 });
+  }
+
+  return NextResponse.json({ deleted: data.id });
+}
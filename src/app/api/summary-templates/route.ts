@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthenticatedUser, getUserClient } from '@/lib/apiAuth';
+import {
+  normalizeTemplateInstructions,
+  normalizeTemplateName,
+  normalizeTemplateTags,
+  SUMMARY_TEMPLATE_COLUMNS,
+  type SummaryTemplate,
+} from '@/lib/summaryTemplates';
+
+// GET /api/summary-templates — the built-in summary templates and the caller's own
+export async function GET(req: NextRequest) {
+  const { user, token, error: authError } = await getAuthenticatedUser(req);
+  if (!user) return authError;
+
+  const supabase = getUserClient(token);
+  const { data, error } = await supabase
+    .from('summary_templates')
+    .select(SUMMARY_TEMPLATE_COLUMNS)
+    .order('name');
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  const templates = (data ?? []) as SummaryTemplate[];
+  return NextResponse.json({
+    built_in: templates.filter(t => t.user_id === null),
+    custom: templates.filter(t => t.user_id !== null),
+  });
+}
+
+// POST /api/summary-templates — add a template; using a built-in's name replaces that one for the caller
+export async function POST(req: NextRequest) {
+  const { user, token, error: authError } = await getAuthenticatedUser(req, 'write');
+  if (!user) return authError;
+
+  const body = await req.json();
+  const name = normalizeTemplateName(body.name);
+  const instructions = normalizeTemplateInstructions(body.instructions);
+  const tags = normalizeTemplateTags(body.tags);
+  const isDefault = body.is_default === true;
+
+  if (!name) {
+    return NextResponse.json({ error: 'name is required (at most 80 characters)' }, { status: 400 });
+  }
+  if (!instructions) {
+    return NextResponse.json({ error: 'instructions are required (at most 4000 characters)' }, { status: 400 });
+  }
+
+  const supabase = getUserClient(token);
+  if (isDefault) {
+    await supabase.from('summary_templates').update({ is_default: false }).eq('user_id', user.id).eq('is_default', true);
+  }
+
+  const { data, error } = await supabase
+    .from('summary_templates')
+    .insert({ user_id: user.id, name, instructions, tags, is_default: isDefault })
+    .select(SUMMARY_TEMPLATE_COLUMNS)
+    .single();
+
+  if (error) {
+    if (error.code === '23505') {
+      return NextResponse.json({ error: `You already have a template named "${name}"` }, { status: 409 });
+    }
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json(data, { status: 201 });
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthenticatedUser, getUserClient } from '@/lib/apiAuth';
+
+// DELETE /api/synonyms/[id] — remove one of the caller's synonyms
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { user, token, error: authError } = await getAuthenticatedUser(req, 'delete');
+  if (!user) return authError;
+
+  const { id } = await params;
+  const supabase = getUserClient(token);
+
+  const { data, error } = await supabase
+    .from('search_synonyms')
+    .delete()
+    .eq('id', id)
+    .eq('user_id', user.id)
+    .select('id')
+    .single();
+
+  if (error || !data) {
+    return NextResponse.json({ error: 'Synonym not found' }, { status: 404 });
+  }
+
+  return NextResponse.json({ deleted: data.id });
+}
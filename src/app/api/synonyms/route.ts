@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthenticatedUser, getUserClient } from '@/lib/apiAuth';
+import {
+  BUNDLED_SYNONYMS,
+  normalizeExpansions,
+  normalizeSynonymTerm,
+  SYNONYM_COLUMNS,
+} from '@/lib/synonyms';
+
+// GET /api/synonyms — the bundled abbreviation dictionary and the caller's own entries
+export async function GET(req: NextRequest) {
+  const { user, token, error: authError } = await getAuthenticatedUser(req);
+  if (!user) return authError;
+
+  const supabase = getUserClient(token);
+  const { data, error } = await supabase
+    .from('search_synonyms')
+    .select(SYNONYM_COLUMNS)
+    .eq('user_id', user.id)
+    .order('term');
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json({ bundled: BUNDLED_SYNONYMS, custom: data });
+}
+
+// POST /api/synonyms — add a synonym, or replace the expansions of an existing term
+export async function POST(req: NextRequest) {
+  const { user, token, error: authError } = await getAuthenticatedUser(req, 'write');
+  if (!user) return authError;
+
+  const body = await req.json();
+  const term = typeof body.term === 'string' ? normalizeSynonymTerm(body.term) : null;
+  const expansions = normalizeExpansions(body.expansions);
+
+  if (!term) {
+    return NextResponse.json({ error: 'term must be a single word, e.g. "hfref"' }, { status: 400 });
+  }
+  if (expansions.length === 0) {
+    return NextResponse.json({ error: 'expansions must be a non-empty array of strings' }, { status: 400 });
+  }
+
+  const supabase = getUserClient(token);
+  const { data, error } = await supabase
+    .from('search_synonyms')
+    .upsert({ user_id: user.id, term, expansions }, { onConflict: 'user_id,term' })
+    .select(SYNONYM_COLUMNS)
+    .single();
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json(data, { status: 201 });
+}
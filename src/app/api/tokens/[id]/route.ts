@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthenticatedUser, getUserClient } from '@/lib/apiAuth';
+
+// DELETE /api/tokens/[id] — revoke a personal access token
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { user, token, viaPersonalToken, error: authError } = await getAuthenticatedUser(req);
+  if (!user) return authError;
+  if (viaPersonalToken) {
+    return NextResponse.json({ error: 'Tokens can only be managed from a signed-in session' }, { status: 403 });
+  }
+
+  const { id } = await params;
+  const supabase = getUserClient(token);
+
+  // Revoked rows are kept so the Settings page can show when a token stopped working
+  const { data, error } = await supabase
+    .from('personal_access_tokens')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', id)
+    .eq('user_id', user.id)
+    .is('revoked_at', null)
+    .select('id')
+    .single();
+
+  if (error || !data) {
+    return NextResponse.json({ error: 'Token not found or already revoked' }, { status: 404 });
+  }
+
+  return NextResponse.json({ revoked: data.id });
+}
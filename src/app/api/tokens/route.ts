@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  generatePersonalAccessToken,
+  getAuthenticatedUser,
+  getUserClient,
+  TOKEN_SCOPES,
+  type TokenScope,
+} from '@/lib/apiAuth';
+
+const TOKEN_COLUMNS = 'id, name, token_prefix, scopes, expires_at, last_used_at, revoked_at, created_at';
+
+// GET /api/tokens — list the caller's personal access tokens (never the secrets)
+export async function GET(req: NextRequest) {
+  const { user, token, viaPersonalToken, error: authError } = await getAuthenticatedUser(req);
+  if (!user) return authError;
+  if (viaPersonalToken) {
+    return NextResponse.json({ error: 'Tokens can only be managed from a signed-in session' }, { status: 403 });
+  }
+
+  const supabase = getUserClient(token);
+  const { data, error } = await supabase
+    .from('personal_access_tokens')
+    .select(TOKEN_COLUMNS)
+    .eq('user_id', user.id)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json(data);
+}
+
+// POST /api/tokens — create a token; the plaintext is only returned here
+export async function POST(req: NextRequest) {
+  const { user, token, viaPersonalToken, error: authError } = await getAuthenticatedUser(req);
+  if (!user) return authError;
+  if (viaPersonalToken) {
+    return NextResponse.json({ error: 'Tokens can only be managed from a signed-in session' }, { status: 403 });
+  }
+
+  const body = await req.json();
+  const name = typeof body.name === 'string' ? body.name.trim() : '';
+  const scopes: TokenScope[] = Array.isArray(body.scopes) ? body.scopes : ['read'];
+  const expiresInDays = body.expires_in_days == null ? null : Number(body.expires_in_days);
+
+  if (!name) {
+    return NextResponse.json({ error: 'name is required' }, { status: 400 });
+  }
+  if (scopes.length === 0 || !scopes.every(s => TOKEN_SCOPES.includes(s))) {
+    return NextResponse.json({ error: `scopes must be a non-empty subset of ${TOKEN_SCOPES.join(', ')}` }, { status: 400 });
+  }
+  if (expiresInDays !== null && (!Number.isFinite(expiresInDays) || expiresInDays <= 0)) {
+    return NextResponse.json({ error: 'expires_in_days must be a positive number' }, { status: 400 });
+  }
+
+  const generated = generatePersonalAccessToken();
+  const supabase = getUserClient(token);
+  const { data, error } = await supabase
+    .from('personal_access_tokens')
+    .insert({
+      user_id: user.id,
+      name,
+      scopes: Array.from(new Set(scopes)),
+      token_prefix: generated.prefix,
+      token_hash: generated.hash,
+      expires_at: expiresInDays ? new Date(Date.now() + expiresInDays * 86_400_000).toISOString() : null,
+    })
+    .select(TOKEN_COLUMNS)
+    .single();
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json({ ...data, token: generated.token }, { status: 201 });
+}
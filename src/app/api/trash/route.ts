@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthenticatedUser, getUserClient } from '@/lib/apiAuth';
+import { TRASH_RETENTION_DAYS, purgeAfter, purgePosts } from '@/lib/trash';
+
+// GET /api/trash — posts in the trash, most recently deleted first
+export async function GET(req: NextRequest) {
+  const { user, token, error: authError } = await getAuthenticatedUser(req);
+  if (!user) return authError;
+
+  const supabase = getUserClient(token);
+
+  const { data, error } = await supabase
+    .from('posts')
+    .select('id, created_at, deleted_at, content, tags')
+    .eq('user_id', user.id)
+    .not('deleted_at', 'is', null)
+    .order('deleted_at', { ascending: false });
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json(
+    (data ?? []).map(post => ({ ...post, purge_after: purgeAfter(post.deleted_at) }))
+  );
+}
+
+// DELETE /api/trash — empty the trash now.
+// ?expired=true only removes posts past the retention window.
+export async function DELETE(req: NextRequest) {
+  const { user, token, error: authError } = await getAuthenticatedUser(req, 'delete');
+  if (!user) return authError;
+
+  const expiredOnly = new URL(req.url).searchParams.get('expired') === 'true';
+  const supabase = getUserClient(token);
+
+  let query = supabase
+    .from('posts')
+    .select('id')
+    .eq('user_id', user.id)
+    .not('deleted_at', 'is', null);
+
+  if (expiredOnly) {
+    const cutoff = new Date(Date.now() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+    query = query.lt('deleted_at', cutoff);
+  }
+
+  const { data: trashed, error: fetchError } = await query;
+  if (fetchError) {
+    return NextResponse.json({ error: fetchError.message }, { status: 500 });
+  }
+
+  const { purged, error } = await purgePosts(supabase, (trashed ?? []).map(p => p.id));
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json({ purged });
+}
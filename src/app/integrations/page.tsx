@@ -62,8 +62,7 @@ export default function IntegrationsPage() {
         <CodeBlock code={`curl -sL ${GITHUB_RAW} -o /tmp/mn.mjs`} />
 
         <p className="text-xs font-medium text-gray-500 uppercase tracking-wide mt-4 mb-2">Run</p>
-        <CodeBlock code={`MEDICAL_NOTES_EMAIL="you@example.com" \\
-MEDICAL_NOTES_PASSWORD="yourpassword" \\
+        <CodeBlock code={`MEDICAL_NOTES_TOKEN="mnp_..." \\
 MEDICAL_NOTES_URL="${BASE_URL}" \\
   node /tmp/mn.mjs add "Your research note..." --tags cardiology`} />
 
@@ -80,8 +79,9 @@ MEDICAL_NOTES_URL="${BASE_URL}" \\
       >
         <div className="space-y-3">
           {[
-            { name: "MEDICAL_NOTES_EMAIL", desc: "Your account email address" },
-            { name: "MEDICAL_NOTES_PASSWORD", desc: "Your account password (set via Settings → Update Password)" },
+            { name: "MEDICAL_NOTES_TOKEN", desc: "A personal access token (create one in Settings → Personal Access Tokens)" },
+            { name: "MEDICAL_NOTES_EMAIL", desc: "Alternative to a token: your account email address" },
+            { name: "MEDICAL_NOTES_PASSWORD", desc: "Alternative to a token: your account password" },
             { name: "MEDICAL_NOTES_URL", desc: `App URL — use ${BASE_URL} for production` },
           ].map(({ name, desc }) => (
             <div key={name} className="flex flex-col sm:flex-row sm:items-center gap-1 sm:gap-4 p-3 bg-gray-50 rounded-lg">
@@ -109,17 +109,52 @@ MEDICAL_NOTES_URL="${BASE_URL}" \\
           </div>
           <div>
             <p className="text-sm font-medium text-gray-700 mb-1">List recent posts</p>
-            <CodeBlock code={`node /tmp/mn.mjs list --limit 10 --tag cardiology`} />
+            <CodeBlock code={`node /tmp/mn.mjs list --limit 10 --tag cardiology
+node /tmp/mn.mjs list --all               # every post, following pagination`} />
           </div>
           <div>
             <p className="text-sm font-medium text-gray-700 mb-1">Search posts</p>
-            <CodeBlock code={`node /tmp/mn.mjs search "semaglutide"`} />
+            <CodeBlock code={`node /tmp/mn.mjs search "semaglutide"                # best matches first, with highlighted snippets
+node /tmp/mn.mjs search "semaglutide" --sort newest
+node /tmp/mn.mjs search 'tag:cardiology -tag:peds has:pdf after:2025-01-01 "heart failure"'
+node /tmp/mn.mjs search "blood thinners after valve surgery" --semantic   # by meaning, not keywords
+node /tmp/mn.mjs related <post-id>                  # notes most similar to a post
+node /tmp/mn.mjs synonyms add tavr "transcatheter aortic valve replacement"   # abbreviations of your own`} />
+          </div>
+          <div>
+            <p className="text-sm font-medium text-gray-700 mb-1">Attach files to a post</p>
+            <CodeBlock code={`node /tmp/mn.mjs attach <post-id> ./ecg.png ./guideline.pdf`} />
+          </div>
+          <div>
+            <p className="text-sm font-medium text-gray-700 mb-1">Back up everything</p>
+            <CodeBlock code={`node /tmp/mn.mjs export --out backup.zip`} />
+            <p className="text-xs text-gray-400 mt-1">One Markdown file per post (YAML front matter), every attachment, patient summaries and quizzes as JSON. Posts in the trash are left out. If any attachment can&apos;t be downloaded the CLI lists it and exits with an error.</p>
+          </div>
+          <div>
+            <p className="text-sm font-medium text-gray-700 mb-1">Import a Markdown folder or Obsidian vault</p>
+            <CodeBlock code={`node /tmp/mn.mjs import ~/Obsidian/Medicine --dry-run   # preview only
+node /tmp/mn.mjs import ~/Obsidian/Medicine --tags imported`} />
+            <p className="text-xs text-gray-400 mt-1">Front matter tags and #hashtags become tags, original dates are kept, local images are uploaded, and notes that were already imported are skipped.</p>
+          </div>
+          <div>
+            <p className="text-sm font-medium text-gray-700 mb-1">Revision history</p>
+            <CodeBlock code={`node /tmp/mn.mjs history <post-id>              # list earlier versions
+node /tmp/mn.mjs history <post-id> --diff 1     # compare version 1 with now
+node /tmp/mn.mjs history <post-id> --restore 1  # bring version 1 back`} />
+            <p className="text-xs text-gray-400 mt-1">Every edit keeps the previous version, including restores.</p>
           </div>
           <div>
             <p className="text-sm font-medium text-gray-700 mb-1">Delete a post</p>
-            <CodeBlock code={`node /tmp/mn.mjs delete <post-id>          # prompts for confirmation
+            <CodeBlock code={`node /tmp/mn.mjs delete <post-id>          # moves it to the trash, prompts for confirmation
 node /tmp/mn.mjs delete <post-id> --force  # skip confirmation`} />
           </div>
+          <div>
+            <p className="text-sm font-medium text-gray-700 mb-1">Trash</p>
+            <CodeBlock code={`node /tmp/mn.mjs trash list
+node /tmp/mn.mjs trash restore <post-id>
+node /tmp/mn.mjs trash purge              # empty the trash now`} />
+            <p className="text-xs text-gray-400 mt-1">Deleted posts are hidden everywhere (feed, search, quizzes, share links) and purged automatically after 30 days.</p>
+          </div>
         </div>
       </Section>
 
@@ -131,12 +166,23 @@ node /tmp/mn.mjs delete <post-id> --force  # skip confirmation`} />
         <div className="space-y-5">
           <div>
             <p className="text-sm font-medium text-gray-700 mb-1">
-              1. Sign in — get a token
+              1. Get a token
+            </p>
+            <p className="text-xs text-gray-500 mb-2">
+              Easiest: create a personal access token in{" "}
+              <Link href="/settings" className="text-blue-600 hover:underline">Settings</Link>{" "}
+              and use it as <code className="bg-gray-100 px-1 rounded">&lt;access_token&gt;</code> below. Tokens with only
+              the <code className="bg-gray-100 px-1 rounded">read</code> scope can list and search but not create, edit or delete.
+              Or exchange email and password for a one-hour session token:
             </p>
             <CodeBlock code={`curl -X POST ${BASE_URL}/api/auth \\
   -H "Content-Type: application/json" \\
   -d '{"email":"you@example.com","password":"yourpassword"}'`} />
-            <p className="text-xs text-gray-400 mt-1">Returns <code className="bg-gray-100 px-1 rounded">{"{ access_token, expires_in, user }"}</code> — token is valid for 1 hour.</p>
+            <p className="text-xs text-gray-400 mt-1">Returns <code className="bg-gray-100 px-1 rounded">{"{ access_token, refresh_token, expires_in, expires_at, user }"}</code> — the access token is valid for 1 hour. Refresh it instead of signing in again:</p>
+            <CodeBlock code={`curl -X POST ${BASE_URL}/api/auth/refresh \\
+  -H "Content-Type: application/json" \\
+  -d '{"refresh_token":"<refresh_token>"}'`} />
+            <p className="text-xs text-gray-400 mt-1">Refresh tokens are single-use; store the new <code className="bg-gray-100 px-1 rounded">refresh_token</code> from each response.</p>
           </div>
 
           <div>
@@ -153,13 +199,132 @@ node /tmp/mn.mjs delete <post-id> --force  # skip confirmation`} />
 curl "${BASE_URL}/api/posts?limit=20" \\
   -H "Authorization: Bearer <access_token>"
 
-# Full-text search
+# Full-text search — best matches first (add &sort=newest for date order)
 curl "${BASE_URL}/api/posts?q=semaglutide&limit=10" \\
   -H "Authorization: Bearer <access_token>"
 
+# Semantic search — ranked by embedding similarity (returns similarity instead of rank/snippet)
+curl "${BASE_URL}/api/posts/search?mode=semantic&q=blood%20thinners%20after%20valve%20surgery" \\
+  -H "Authorization: Bearer <access_token>"
+
+# Notes related to a post
+curl "${BASE_URL}/api/posts/<id>/related?limit=5" \\
+  -H "Authorization: Bearer <access_token>"
+
 # Filter by tag
 curl "${BASE_URL}/api/posts?tag=cardiology" \\
+  -H "Authorization: Bearer <access_token>"
+
+# Search operators (URL-encoded): tag:cardiology is:starred before:2025-06-01
+curl "${BASE_URL}/api/posts?q=tag%3Acardiology%20is%3Astarred%20before%3A2025-06-01" \\
+  -H "Authorization: Bearer <access_token>"
+
+# Paginated — the first page, then pass back the cursor from the previous response
+curl "${BASE_URL}/api/posts?paginate=1&limit=20" \\
+  -H "Authorization: Bearer <access_token>"
+curl "${BASE_URL}/api/posts?paginate=1&limit=20&cursor=<next_cursor>" \\
+  -H "Authorization: Bearer <access_token>"`} />
+            <p className="text-xs text-gray-400 mt-1">Returns <code className="bg-gray-100 px-1 rounded">{"{ posts, next_cursor }"}</code> — <code className="bg-gray-100 px-1 rounded">next_cursor</code> is <code className="bg-gray-100 px-1 rounded">null</code> on the last page. Requests with neither <code className="bg-gray-100 px-1 rounded">paginate=1</code> nor <code className="bg-gray-100 px-1 rounded">cursor</code> get the first <code className="bg-gray-100 px-1 rounded">limit</code> posts (20 by default) as a plain array, the response from before pagination. Search results also include <code className="bg-gray-100 px-1 rounded">rank</code> and an HTML-safe <code className="bg-gray-100 px-1 rounded">snippet</code> with matches wrapped in <code className="bg-gray-100 px-1 rounded">&lt;mark&gt;</code>. PDF summaries and attachment text are searched too: <code className="bg-gray-100 px-1 rounded">match_source</code> is <code className="bg-gray-100 px-1 rounded">note</code>, <code className="bg-gray-100 px-1 rounded">summary</code> or <code className="bg-gray-100 px-1 rounded">attachment</code> (with <code className="bg-gray-100 px-1 rounded">match_file_name</code>).</p>
+            <p className="text-xs text-gray-400 mt-1"><code className="bg-gray-100 px-1 rounded">q</code> understands <code className="bg-gray-100 px-1 rounded">tag:x</code>, <code className="bg-gray-100 px-1 rounded">-tag:x</code>, <code className="bg-gray-100 px-1 rounded">is:starred</code>, <code className="bg-gray-100 px-1 rounded">is:mine</code>, <code className="bg-gray-100 px-1 rounded">has:pdf</code>, <code className="bg-gray-100 px-1 rounded">has:image</code>, <code className="bg-gray-100 px-1 rounded">after:YYYY-MM-DD</code>, <code className="bg-gray-100 px-1 rounded">before:YYYY-MM-DD</code> and <code className="bg-gray-100 px-1 rounded">&quot;quoted phrases&quot;</code>. An invalid operator returns 400 with an <code className="bg-gray-100 px-1 rounded">errors</code> list. When exact matches are scarce, close matches for misspelled words are appended with <code className="bg-gray-100 px-1 rounded">fuzzy: true</code> and the response carries <code className="bg-gray-100 px-1 rounded">suggestions</code> (&quot;did you mean&quot; queries). Medical abbreviations are expanded (<code className="bg-gray-100 px-1 rounded">AFib</code> also finds &quot;atrial fibrillation&quot;); manage your own with <code className="bg-gray-100 px-1 rounded">GET/POST /api/synonyms</code> and <code className="bg-gray-100 px-1 rounded">DELETE /api/synonyms/:id</code>.</p>
+          </div>
+
+          <div>
+            <p className="text-sm font-medium text-gray-700 mb-1">4. Attachments</p>
+            <CodeBlock code={`# Upload (repeat -F for several files). PDF, Word (.docx), PowerPoint (.pptx), HTML and
+# image attachments are summarized and their text (OCR for images) indexed for search.
+# Images are stored without their EXIF/GPS metadata; add -F "keep_original=1" to
+# also keep the untouched files ("original_url" in listings, visible only to you)
+curl -X POST ${BASE_URL}/api/posts/<post-id>/media \\
+  -H "Authorization: Bearer <access_token>" \\
+  -F "file=@./guideline.pdf"
+
+# List. Attachments are private: "url" is a signed link that expires after
+# 10 minutes; "embed_url" is the stable link to use in a note's Markdown.
+# Images also have "thumbnail_url" (320px) and "medium_url" (1280px) WebP
+# renditions, which are the original's url for images uploaded before them
+curl ${BASE_URL}/api/posts/<post-id>/media \\
+  -H "Authorization: Bearer <access_token>"
+
+# Fresh signed links for several of your posts at once
+curl "${BASE_URL}/api/media?post_id=<post-id>,<post-id>" \\
+  -H "Authorization: Bearer <access_token>"
+
+# Remove
+curl -X DELETE "${BASE_URL}/api/posts/<post-id>/media?media_id=<media-id>" \\
+  -H "Authorization: Bearer <access_token>"
+
+# PDF summary, the attachment it came from (its "(p. N)" citations refer to that
+# file) and the state of its jobs (queued, running, succeeded, failed). With
+# several attachments the post shows the summary of the earliest uploaded one.
+curl ${BASE_URL}/api/posts/<post-id>/summary \\
+  -H "Authorization: Bearer <access_token>"
+
+# Retry failed summaries
+curl -X POST ${BASE_URL}/api/posts/<post-id>/summary \\
+  -H "Authorization: Bearer <access_token>"
+
+# Backfill: queue summaries for attachments of posts without one (or mode=failed,
+# or mode=post&post_id=<post-id> to redo one post). Repeat with
+# &cursor=<next_cursor> until next_cursor is null, then poll progress with
+# GET /api/posts/summaries?since=<started_at>
+curl -X POST "${BASE_URL}/api/posts/summaries?mode=missing&limit=20" \\
+  -H "Authorization: Bearer <access_token>"
+
+# Create missing image renditions (for uploads made straight to Storage or
+# before renditions existed; images that already have them are skipped)
+curl -X POST ${BASE_URL}/api/posts/<post-id>/media/renditions \\
+  -H "Authorization: Bearer <access_token>"
+
+# Index attachments uploaded to Storage directly (already indexed files are skipped)
+curl -X POST ${BASE_URL}/api/posts/<post-id>/media/text \\
+  -H "Authorization: Bearer <access_token>"
+
+# Summary templates: a note tagged with one of a template's tags is summarized
+# with it (built-ins: Journal article, Guideline, Drug monograph), else with your
+# default. Edit with PATCH/DELETE /api/summary-templates/<template-id>
+curl ${BASE_URL}/api/summary-templates \\
+  -H "Authorization: Bearer <access_token>"
+curl -X POST ${BASE_URL}/api/summary-templates \\
+  -H "Authorization: Bearer <access_token>" -H "Content-Type: application/json" \\
+  -d '{"name": "Case report", "tags": ["case"], "instructions": "Presentation, workup, diagnosis, management, teaching points."}'`} />
+          </div>
+
+          <div>
+            <p className="text-sm font-medium text-gray-700 mb-1">5. Revision history</p>
+            <CodeBlock code={`# Earlier versions, newest first
+curl ${BASE_URL}/api/posts/<post-id>/revisions \\
+  -H "Authorization: Bearer <access_token>"
+
+# Restore one (the current version is kept as a new revision)
+curl -X POST ${BASE_URL}/api/posts/<post-id>/revisions/<revision-id>/restore \\
   -H "Authorization: Bearer <access_token>"`} />
+            <p className="text-xs text-gray-400 mt-1">Returns <code className="bg-gray-100 px-1 rounded">{"{ current, revisions }"}</code>; each revision has <code className="bg-gray-100 px-1 rounded">content</code>, <code className="bg-gray-100 px-1 rounded">tags</code>, <code className="bg-gray-100 px-1 rounded">saved_at</code> and <code className="bg-gray-100 px-1 rounded">replaced_at</code>.</p>
+          </div>
+
+          <div>
+            <p className="text-sm font-medium text-gray-700 mb-1">6. Delete and restore</p>
+            <CodeBlock code={`# Move to the trash (restorable for 30 days; add ?permanent=true to skip it)
+curl -X DELETE ${BASE_URL}/api/posts/<post-id> \\
+  -H "Authorization: Bearer <access_token>"
+
+# List the trash / restore a post / empty the trash (?expired=true for >30 days only)
+curl ${BASE_URL}/api/trash -H "Authorization: Bearer <access_token>"
+curl -X POST ${BASE_URL}/api/posts/<post-id>/restore -H "Authorization: Bearer <access_token>"
+curl -X DELETE ${BASE_URL}/api/trash -H "Authorization: Bearer <access_token>"`} />
+          </div>
+
+          <div>
+            <p className="text-sm font-medium text-gray-700 mb-1">7. Update without clobbering other edits</p>
+            <CodeBlock code={`# GET returns the post's version in the ETag header
+curl -i ${BASE_URL}/api/posts/<post-id> -H "Authorization: Bearer <access_token>"
+
+# Send it back as If-Match; a stale version fails with 409 instead of overwriting
+curl -X PATCH ${BASE_URL}/api/posts/<post-id> \\
+  -H "Authorization: Bearer <access_token>" \\
+  -H 'If-Match: "<etag>"' \\
+  -H "Content-Type: application/json" \\
+  -d '{"content":"Updated note...","tags":["cardiology"]}'`} />
+            <p className="text-xs text-gray-400 mt-1">A 409 response includes <code className="bg-gray-100 px-1 rounded">current</code> (the server version) and its new ETag so you can merge and retry. The CLI <code className="bg-gray-100 px-1 rounded">edit</code> command does this for you.</p>
           </div>
         </div>
       </Section>
@@ -176,8 +341,7 @@ To save a research finding or note:
    curl -sL ${GITHUB_RAW} -o /tmp/mn.mjs
 
 2. Save a note:
-   MEDICAL_NOTES_EMAIL="you@example.com" \\
-   MEDICAL_NOTES_PASSWORD="yourpassword" \\
+   MEDICAL_NOTES_TOKEN="mnp_..." \\
    MEDICAL_NOTES_URL="${BASE_URL}" \\
      node /tmp/mn.mjs add "<content>" --tags <tag1>,<tag2>
 
@@ -185,11 +349,11 @@ Save clinically relevant findings, drug info, guidelines, and research summaries
       </Section>
 
       <p className="text-center text-sm text-gray-400 mt-4">
-        Need an account?{" "}
+        Need access?{" "}
         <Link href="/settings" className="text-blue-600 hover:underline">
-          Set a password in Settings
+          Create a personal access token in Settings
         </Link>{" "}
-        to enable CLI access.
+        for the CLI and agents.
       </p>
     </main>
   );
@@ -7,6 +7,8 @@ import type { Session } from '@supabase/supabase-js';
 import ReactMarkdown from 'react-markdown';
 import { v4 as uuidv4 } from 'uuid';
 import remarkGfm from 'remark-gfm';
+import { merge3, CONFLICT_MARKERS, type MergeResult } from '../../../../lib/diff';
+import { refreshEmbedding } from '../../../../lib/embeddingRefresh';
 
 // Define Post type (can be shared if moved to a types file)
 type Post = {
@@ -16,10 +18,12 @@ type Post = {
   content: string;
   tags: string[] | null;
   is_starred: boolean;
-  secret_url?: string | null;
   summary?: string | null;
 };
 
+// Share secrets aren't readable from posts (see 20261021_hide_share_secrets.sql)
+const POST_COLUMNS = 'id, created_at, updated_at, content, tags, is_starred, summary';
+
 
 export default function EditPostPage() { // Renamed component
   const [session, setSession] = useState<Session | null>(null);
@@ -37,6 +41,8 @@ export default function EditPostPage() { // Renamed component
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [isDraggingOver, setIsDraggingOver] = useState(false);
   const [isFetchingUrl, setIsFetchingUrl] = useState(false);
+  // Set when a save found the post changed elsewhere since it was loaded
+  const [conflict, setConflict] = useState<{ server: Post; merge: MergeResult } | null>(null);
 
   // Effect to check session and fetch existing post data
   useEffect(() => {
@@ -61,9 +67,10 @@ export default function EditPostPage() { // Renamed component
         // Fetch the specific post to edit
         const { data: postData, error: fetchError } = await supabase
           .from('posts')
-          .select('*')
+          .select(POST_COLUMNS)
           .eq('id', postId)
           .eq('user_id', currentSession.user.id) // Ensure user owns the post
+          .is('deleted_at', null)
           .single();
 
         if (fetchError) {
@@ -165,10 +172,44 @@ export default function EditPostPage() { // Renamed component
     }
   };
 
-  // Renamed function to handleUpdate
+  // Save only if the post is still at the version in `base` (as loaded or last merged).
+  // Returns false and opens the merge prompt when someone else saved in between.
+  const savePost = async (text: string, base: Post) => {
+    if (!session?.user) throw new Error('User session is missing.');
+    const extractedTags = text.match(/@\w+/g)?.map(tag => tag.substring(1)) || [];
+    const { data: saved, error: updateError } = await supabase
+      .from('posts')
+      .update({
+        content: text,
+        tags: extractedTags,
+        updated_at: new Date().toISOString(), // Explicitly set updated_at
+      })
+      .eq('id', postId) // Match the post ID
+      .eq('user_id', session.user.id) // Ensure user owns the post
+      .eq('updated_at', base.updated_at) // ...and nobody saved since we loaded it
+      .select('id')
+      .maybeSingle();
+
+    if (updateError) throw updateError;
+    if (saved) {
+      refreshEmbedding(saved.id, session.access_token);
+      return true;
+    }
+
+    const { data: server, error: fetchError } = await supabase
+      .from('posts')
+      .select(POST_COLUMNS)
+      .eq('id', postId)
+      .single();
+    if (fetchError) throw fetchError;
+
+    setConflict({ server, merge: merge3(base.content, text, server.content) });
+    return false;
+  };
+
   const handleUpdate = async (event: React.FormEvent<HTMLFormElement>) => {
     event.preventDefault();
-    if (!session?.user || !postId) {
+    if (!session?.user || !postId || !originalPost) {
       setError('User session or Post ID is missing.');
       return;
     }
@@ -176,25 +217,24 @@ export default function EditPostPage() { // Renamed component
         setError('Post content cannot be empty.');
         return;
     }
+    if (content.split('\n').some(line => line === CONFLICT_MARKERS.ours || line === CONFLICT_MARKERS.theirs)) {
+        setError('Resolve the merge conflict markers before saving.');
+        return;
+    }
+
+    await save(content, originalPost);
+  };
 
+  const save = async (text: string, base: Post) => {
     setSaving(true);
     setError(null);
     setUploadProgress(null); // Reset progress
 
     try {
-      // Use supabase.update
-      const extractedTags = content.match(/@\w+/g)?.map(tag => tag.substring(1)) || [];
-      const { error: updateError } = await supabase
-        .from('posts')
-        .update({
-          content: content,
-          tags: extractedTags,
-          updated_at: new Date().toISOString(), // Explicitly set updated_at
-        })
-        .eq('id', postId) // Match the post ID
-        .eq('user_id', session.user.id); // Ensure user owns the post
-
-      if (updateError) throw updateError;
+      if (!(await savePost(text, base))) {
+        setSaving(false);
+        return;
+      }
 
       // TODO: Handle file uploads/deletions during edit
       // This part needs significant logic:
@@ -221,6 +261,29 @@ export default function EditPostPage() { // Renamed component
     // Don't setSaving(false) here if redirecting on success
   };
 
+  // ── Merge prompt actions: all of them rebase the edit onto the server version ──
+  const applyMerged = () => {
+    if (!conflict) return;
+    setContent(conflict.merge.text);
+    setOriginalPost(conflict.server);
+    setConflict(null);
+  };
+
+  const overwriteServer = () => {
+    if (!conflict) return;
+    const server = conflict.server;
+    setOriginalPost(server);
+    setConflict(null);
+    save(content, server);
+  };
+
+  const discardMine = () => {
+    if (!conflict) return;
+    setContent(conflict.server.content);
+    setOriginalPost(conflict.server);
+    setConflict(null);
+  };
+
   if (loading) {
     return <div className="p-8 text-center text-gray-500">Loading post...</div>;
   }
@@ -317,6 +380,33 @@ export default function EditPostPage() { // Renamed component
           </div>
         </div>
 
+        {/* Merge prompt */}
+        {conflict && (
+          <div className="p-4 border border-amber-300 bg-amber-50 rounded-md space-y-3">
+            <div>
+              <p className="text-sm font-semibold text-amber-900">This post was changed elsewhere while you were editing.</p>
+              <p className="text-xs text-amber-800 mt-1">
+                Saved {new Date(conflict.server.updated_at).toLocaleString()}.{' '}
+                {conflict.merge.conflicts === 0
+                  ? 'Your changes and the other edit merge cleanly.'
+                  : `${conflict.merge.conflicts} section${conflict.merge.conflicts === 1 ? '' : 's'} changed on both sides and ${conflict.merge.conflicts === 1 ? 'is' : 'are'} marked below for you to resolve.`}
+              </p>
+            </div>
+            <pre className="max-h-64 overflow-auto whitespace-pre-wrap break-words text-xs font-mono bg-white border border-amber-200 rounded p-2 text-gray-800">{conflict.merge.text}</pre>
+            <div className="flex flex-wrap gap-2">
+              <button type="button" onClick={applyMerged} className="px-3 py-1.5 rounded-md bg-amber-600 text-white text-sm font-medium hover:bg-amber-700">
+                {conflict.merge.conflicts === 0 ? 'Use merged version' : 'Edit merged version'}
+              </button>
+              <button type="button" onClick={overwriteServer} className="px-3 py-1.5 rounded-md border border-amber-300 bg-white text-sm font-medium text-amber-900 hover:bg-amber-100">
+                Overwrite with mine
+              </button>
+              <button type="button" onClick={discardMine} className="px-3 py-1.5 rounded-md border border-amber-300 bg-white text-sm font-medium text-amber-900 hover:bg-amber-100">
+                Discard mine
+              </button>
+            </div>
+          </div>
+        )}
+
         {/* Status Messages */}
         {isFetchingUrl && (
              <p className="text-yellow-600 text-sm">Fetching image from URL...</p>
@@ -333,7 +423,7 @@ export default function EditPostPage() { // Renamed component
           {/* Changed button text */}
           <button
             type="submit"
-            disabled={saving || loading || !content.trim()}
+            disabled={saving || loading || !content.trim() || !!conflict}
             className="inline-flex justify-center px-4 py-2 rounded border border-blue-600 bg-blue-500 text-white hover:bg-blue-600 text-sm font-medium transition-colors shadow-sm focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
           >
             {saving ? 'Saving...' : 'Update Post'}
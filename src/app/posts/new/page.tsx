@@ -7,11 +7,26 @@ import type { Session } from '@supabase/supabase-js';
 import ReactMarkdown from 'react-markdown';
 import { v4 as uuidv4 } from 'uuid'; // Import UUID generator
 import remarkGfm from 'remark-gfm';
+import { refreshEmbedding } from '../../../lib/embeddingRefresh';
+import { indexAttachments } from '../../../lib/attachmentIndexing';
+import { enqueueSummary, runSummaryJob } from '../../../lib/summaryJobs';
+import { attachmentKind } from '../../../lib/attachmentTypes';
+import { imageTypeFromBytes, safeFileName } from '../../../lib/media';
+
+// Images go through the API, which strips their location and camera metadata
+// before storing them; other files are uploaded to Storage directly. When
+// neither the MIME type nor the name says it's an image, the first bytes do.
+async function isImage(file: File) {
+  if (file.type.startsWith('image/') || attachmentKind({ file_type: file.type, file_name: file.name }) === 'image') return true;
+  return imageTypeFromBytes(new Uint8Array(await file.slice(0, 16).arrayBuffer())) !== null;
+}
 
 export default function NewPostPage() {
   const [session, setSession] = useState<Session | null>(null);
   const [content, setContent] = useState('');
   const [files, setFiles] = useState<File[]>([]); // State for selected files (now an array)
+  const [hasImages, setHasImages] = useState(false);
+  const [keepOriginals, setKeepOriginals] = useState(false);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -47,6 +62,14 @@ export default function NewPostPage() {
     return () => subscription?.unsubscribe();
   }, [router]);
 
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all(files.map(isImage)).then(images => {
+      if (!cancelled) setHasImages(images.some(Boolean));
+    });
+    return () => { cancelled = true; };
+  }, [files]);
+
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     // Replace selection when using the file input button
     setFiles(event.target.files ? Array.from(event.target.files) : []);
@@ -157,14 +180,39 @@ export default function NewPostPage() {
       if (insertError) throw insertError;
       if (!postData?.id) throw new Error("Failed to retrieve post ID after creation.");
       postId = postData.id;
+      refreshEmbedding(postData.id, session.access_token);
 
       if (files && files.length > 0 && postId) {
         setUploadProgress(`Uploading ${files.length} file(s)...`);
+        const failedImages: string[] = [];
+        const unstrippedImages: string[] = [];
+        const images = await Promise.all(files.map(isImage));
         const uploadPromises = files.map(async (file, index) => {
-          const uniqueFileName = `${uuidv4()}-${file.name}`;
+          const uniqueFileName = `${uuidv4()}-${safeFileName(file.name)}`;
           const filePath = `${session.user.id}/${postId}/${uniqueFileName}`;
           setUploadProgress(`Uploading ${index + 1}/${files.length}: ${file.name}`);
 
+          if (images[index]) {
+            // The API also queues the summary and makes the renditions
+            const form = new FormData();
+            form.append('file', file);
+            if (keepOriginals) form.append('keep_original', '1');
+            try {
+              const res = await fetch(`/api/posts/${postData.id}/media`, {
+                method: 'POST',
+                headers: { Authorization: `Bearer ${session.access_token}` },
+                body: form,
+              });
+              const body = await res.json().catch(() => null);
+              if (!res.ok) throw new Error(body?.error || `HTTP ${res.status}`);
+              if (body?.[0]?.metadata_kept) unstrippedImages.push(file.name);
+            } catch (uploadError) {
+              console.error(`[Upload Loop ${index}] Image upload failed for ${file.name}:`, uploadError);
+              failedImages.push(uploadError instanceof Error ? uploadError.message : file.name);
+            }
+            return;
+          }
+
           const { error: uploadError } = await supabase.storage
             .from('post-media')
             .upload(filePath, file);
@@ -187,7 +235,7 @@ export default function NewPostPage() {
                   post_id: postId,
                   user_id: session.user.id,
                   file_path: filePath,
-                  file_name: file.name,
+                  file_name: safeFileName(file.name),
                   file_type: fileType,
                 });
 
@@ -196,15 +244,24 @@ export default function NewPostPage() {
               } else {
                  console.log(`[Upload Loop ${index}] Successfully inserted DB record for: ${file.name}`);
                  // --- Trigger Summarization from Frontend ---
-                 if (fileType.includes('pdf')) {
-                    console.log(`[Upload Loop ${index}] Triggering summarization for PDF: ${file.name}`);
-                    // Invoke function asynchronously, don't wait for it here
-                    supabase.functions.invoke('summarize-document', {
-                       body: { postId: postId, filePath: filePath, fileType: fileType },
-                    }).then(({ data, error }) => {
-                       if (error) console.error(`[Summarize Trigger ${index}] Error for ${file.name}:`, error);
-                       else console.log(`[Summarize Trigger ${index}] Function invoked for ${file.name}:`, data);
-                    });
+                 const kind = attachmentKind({ file_type: fileType, file_name: file.name });
+                 if (kind) {
+                    console.log(`[Upload Loop ${index}] Queuing summarization for ${kind}: ${file.name}`);
+                    try {
+                       // The job is durable; if this invoke is lost the drain cron runs it
+                       const jobId = await enqueueSummary(supabase, postData.id, filePath);
+                       // Invoke function asynchronously, don't wait for it here
+                       runSummaryJob(supabase, jobId).then(({ data, error }) => {
+                          if (error) console.error(`[Summarize Trigger ${index}] Error for ${file.name}:`, error);
+                          else {
+                            console.log(`[Summarize Trigger ${index}] Function invoked for ${file.name}:`, data);
+                            // Re-embed now that the post has a summary
+                            refreshEmbedding(postData.id, session.access_token);
+                          }
+                       });
+                    } catch (queueError) {
+                       console.error(`[Summarize Trigger ${index}] Could not queue ${file.name}:`, queueError);
+                    }
                  }
                  // --- End Summarization Trigger ---
               }
@@ -213,6 +270,16 @@ export default function NewPostPage() {
           }
         });
         await Promise.all(uploadPromises); // Wait for all uploads and DB inserts/function triggers
+        if (files.some((file, index) => !images[index] && attachmentKind({ file_type: file.type, file_name: file.name }))) {
+          indexAttachments(postData.id, session.access_token);
+        }
+        if (failedImages.length > 0) {
+          // The post exists by now, so say what's missing and carry on to it
+          alert(`The post was saved, but ${failedImages.length === 1 ? 'an image' : 'some images'} could not be attached:\n\n${failedImages.join('\n')}`);
+        }
+        if (unstrippedImages.length > 0) {
+          alert(`These images were attached as they are, with their location and camera information, because their format can't be edited here (convert them to JPEG to remove it). They aren't included in share links:\n\n${unstrippedImages.join('\n')}`);
+        }
         setUploadProgress("Uploads complete!");
 
         // --- REMOVED: Append Links to Content ---
@@ -304,6 +371,20 @@ export default function NewPostPage() {
                         Selected ({files.length}): {files.map(f => f.name).join(', ')}
                     </div>
                 )}
+                {hasImages && (
+                    <div className="mt-2 text-xs text-gray-600">
+                        <p>Location, camera and date information is removed from images before they are stored.</p>
+                        <label className="mt-1 flex items-center gap-2">
+                            <input
+                                type="checkbox"
+                                checked={keepOriginals}
+                                onChange={(e) => setKeepOriginals(e.target.checked)}
+                                disabled={saving}
+                            />
+                            Also keep the unedited originals (only you can see them)
+                        </label>
+                    </div>
+                )}
              </div>
           </div>
 
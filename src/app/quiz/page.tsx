@@ -63,6 +63,7 @@ export default function QuizPage() {
       const { data, error } = await supabase
         .from('posts')
         .select('id, content, created_at')
+        .is('deleted_at', null)
         .order('created_at', { ascending: false });
       if (!error) setPostList(data || []);
     }
@@ -82,6 +83,7 @@ export default function QuizPage() {
         const { data } = await supabase
           .from('posts')
           .select('id, content, created_at')
+          .is('deleted_at', null)
           .gte('created_at', quizRange.from)
           .lte('created_at', quizRange.to)
           .order('created_at', { ascending: false });
@@ -1,9 +1,525 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback, useMemo } from "react";
 import Link from "next/link";
 import { supabase } from "../../lib/supabaseClient";
 import type { Session } from "@supabase/supabase-js";
+import type { UserSynonym } from "../../lib/synonyms";
+import type { SummaryTemplate } from "../../lib/summaryTemplates";
+
+type AccessToken = {
+  id: string;
+  name: string;
+  token_prefix: string;
+  scopes: string[];
+  expires_at: string | null;
+  last_used_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
+};
+
+const SCOPE_OPTIONS = ["read", "write", "delete"] as const;
+const EXPIRY_OPTIONS = [
+  { label: "30 days", days: 30 },
+  { label: "90 days", days: 90 },
+  { label: "1 year", days: 365 },
+  { label: "Never", days: null },
+];
+
+function formatShortDate(iso: string) {
+  return new Date(iso).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" });
+}
+
+function AccessTokensSection({ session }: { session: Session }) {
+  const [tokens, setTokens] = useState<AccessToken[]>([]);
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<string[]>(["read", "write"]);
+  const [expiryDays, setExpiryDays] = useState<number | null>(90);
+  const [creating, setCreating] = useState(false);
+  const [newToken, setNewToken] = useState<string | null>(null);
+  const [msg, setMsg] = useState<{ type: "success" | "error"; text: string } | null>(null);
+
+  const authHeaders = useMemo(
+    () => ({ "Content-Type": "application/json", Authorization: `Bearer ${session.access_token}` }),
+    [session.access_token]
+  );
+
+  const loadTokens = useCallback(async () => {
+    const res = await fetch("/api/tokens", { headers: authHeaders });
+    const json = await res.json();
+    if (res.ok) setTokens(json);
+    else setMsg({ type: "error", text: json.error ?? "Could not load tokens." });
+  }, [authHeaders]);
+
+  useEffect(() => {
+    loadTokens();
+  }, [loadTokens]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setMsg(null);
+    setNewToken(null);
+    setCreating(true);
+    const res = await fetch("/api/tokens", {
+      method: "POST",
+      headers: authHeaders,
+      body: JSON.stringify({ name, scopes, expires_in_days: expiryDays }),
+    });
+    const json = await res.json();
+    setCreating(false);
+
+    if (!res.ok) {
+      setMsg({ type: "error", text: json.error ?? "Could not create token." });
+      return;
+    }
+    setNewToken(json.token);
+    setName("");
+    loadTokens();
+  };
+
+  const handleRevoke = async (id: string) => {
+    if (!window.confirm("Revoke this token? Anything using it will stop working immediately.")) return;
+    const res = await fetch(`/api/tokens/${id}`, { method: "DELETE", headers: authHeaders });
+    const json = await res.json();
+    if (!res.ok) setMsg({ type: "error", text: json.error ?? "Could not revoke token." });
+    loadTokens();
+  };
+
+  const toggleScope = (scope: string) =>
+    setScopes((current) => current.includes(scope) ? current.filter((s) => s !== scope) : [...current, scope]);
+
+  return (
+    <section className="bg-white rounded-lg shadow p-6 mb-6">
+      <h2 className="text-lg font-semibold text-gray-800 mb-1">Personal Access Tokens</h2>
+      <p className="text-sm text-gray-500 mb-4">
+        Use a token instead of your password for the CLI and AI agents. Tokens can be limited to
+        specific scopes and revoked at any time.
+      </p>
+
+      <form onSubmit={handleCreate} className="space-y-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            required
+            placeholder="e.g. Research agent"
+            className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+          />
+        </div>
+        <div className="flex flex-wrap gap-6">
+          <div>
+            <p className="block text-sm font-medium text-gray-700 mb-1">Scopes</p>
+            <div className="flex gap-3">
+              {SCOPE_OPTIONS.map((scope) => (
+                <label key={scope} className="inline-flex items-center gap-1.5 text-sm text-gray-700">
+                  <input type="checkbox" checked={scopes.includes(scope)} onChange={() => toggleScope(scope)} />
+                  {scope}
+                </label>
+              ))}
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Expires</label>
+            <select
+              value={expiryDays ?? ""}
+              onChange={(e) => setExpiryDays(e.target.value ? Number(e.target.value) : null)}
+              className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+            >
+              {EXPIRY_OPTIONS.map((opt) => (
+                <option key={opt.label} value={opt.days ?? ""}>{opt.label}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+        {msg && (
+          <p className={`text-sm ${msg.type === "error" ? "text-red-600" : "text-green-600"}`}>{msg.text}</p>
+        )}
+        <button
+          type="submit"
+          disabled={creating || scopes.length === 0}
+          className="w-full px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-md hover:bg-blue-700 disabled:opacity-50 transition-colors"
+        >
+          {creating ? "Creating..." : "Create Token"}
+        </button>
+      </form>
+
+      {newToken && (
+        <div className="mt-4 p-3 bg-green-50 border border-green-200 rounded-md">
+          <p className="text-sm text-green-800 mb-2">Copy this token now — it won&apos;t be shown again.</p>
+          <code className="block text-xs font-mono break-all bg-white border border-green-200 rounded px-2 py-1.5">{newToken}</code>
+        </div>
+      )}
+
+      {tokens.length > 0 && (
+        <ul className="mt-6 divide-y divide-gray-100 border-t border-gray-100">
+          {tokens.map((t) => (
+            <li key={t.id} className="py-3 flex items-start justify-between gap-4 text-sm">
+              <div className={t.revoked_at ? "opacity-50" : ""}>
+                <p className="font-medium text-gray-800">
+                  {t.name} <code className="ml-1 text-xs text-gray-500">{t.token_prefix}…</code>
+                </p>
+                <p className="text-xs text-gray-500">
+                  {t.scopes.join(", ")} · created {formatShortDate(t.created_at)}
+                  {" · "}{t.expires_at ? `expires ${formatShortDate(t.expires_at)}` : "never expires"}
+                  {" · "}{t.last_used_at ? `last used ${formatShortDate(t.last_used_at)}` : "never used"}
+                </p>
+              </div>
+              {t.revoked_at ? (
+                <span className="text-xs text-gray-400 whitespace-nowrap">Revoked</span>
+              ) : (
+                <button onClick={() => handleRevoke(t.id)} className="text-xs text-red-600 hover:underline whitespace-nowrap">
+                  Revoke
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
+
+function SearchSynonymsSection({ session }: { session: Session }) {
+  const [custom, setCustom] = useState<UserSynonym[]>([]);
+  const [bundled, setBundled] = useState<Record<string, string[]>>({});
+  const [term, setTerm] = useState("");
+  const [expansions, setExpansions] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [msg, setMsg] = useState<{ type: "success" | "error"; text: string } | null>(null);
+
+  const authHeaders = useMemo(
+    () => ({ "Content-Type": "application/json", Authorization: `Bearer ${session.access_token}` }),
+    [session.access_token]
+  );
+
+  const loadSynonyms = useCallback(async () => {
+    const res = await fetch("/api/synonyms", { headers: authHeaders });
+    const json = await res.json();
+    if (res.ok) {
+      setCustom(json.custom);
+      setBundled(json.bundled);
+    } else {
+      setMsg({ type: "error", text: json.error ?? "Could not load synonyms." });
+    }
+  }, [authHeaders]);
+
+  useEffect(() => {
+    loadSynonyms();
+  }, [loadSynonyms]);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setMsg(null);
+    setSaving(true);
+    const res = await fetch("/api/synonyms", {
+      method: "POST",
+      headers: authHeaders,
+      body: JSON.stringify({ term, expansions: expansions.split(",") }),
+    });
+    const json = await res.json();
+    setSaving(false);
+
+    if (!res.ok) {
+      setMsg({ type: "error", text: json.error ?? "Could not save synonym." });
+      return;
+    }
+    setMsg({ type: "success", text: `Searching "${json.term}" now also finds ${json.expansions.join(", ")}.` });
+    setTerm("");
+    setExpansions("");
+    loadSynonyms();
+  };
+
+  const handleRemove = async (id: string) => {
+    const res = await fetch(`/api/synonyms/${id}`, { method: "DELETE", headers: authHeaders });
+    const json = await res.json();
+    if (!res.ok) setMsg({ type: "error", text: json.error ?? "Could not remove synonym." });
+    loadSynonyms();
+  };
+
+  const bundledTerms = Object.keys(bundled).sort();
+
+  return (
+    <section className="bg-white rounded-lg shadow p-6 mb-6">
+      <h2 className="text-lg font-semibold text-gray-800 mb-1">Search Synonyms</h2>
+      <p className="text-sm text-gray-500 mb-4">
+        Abbreviations in a search also match what they stand for, e.g. &quot;AFib&quot; finds
+        &quot;atrial fibrillation&quot;. Add your own below; they apply to the web, API and CLI search.
+      </p>
+
+      <form onSubmit={handleAdd} className="space-y-4">
+        <div className="flex gap-3">
+          <div className="w-1/3">
+            <label className="block text-sm font-medium text-gray-700 mb-1">Abbreviation</label>
+            <input
+              type="text"
+              value={term}
+              onChange={(e) => setTerm(e.target.value)}
+              required
+              placeholder="e.g. TAVR"
+              className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+          <div className="flex-1">
+            <label className="block text-sm font-medium text-gray-700 mb-1">Means (comma-separated)</label>
+            <input
+              type="text"
+              value={expansions}
+              onChange={(e) => setExpansions(e.target.value)}
+              required
+              placeholder="e.g. transcatheter aortic valve replacement"
+              className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+        </div>
+        {msg && (
+          <p className={`text-sm ${msg.type === "error" ? "text-red-600" : "text-green-600"}`}>{msg.text}</p>
+        )}
+        <button
+          type="submit"
+          disabled={saving}
+          className="w-full px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-md hover:bg-blue-700 disabled:opacity-50 transition-colors"
+        >
+          {saving ? "Saving..." : "Add Synonym"}
+        </button>
+      </form>
+
+      {custom.length > 0 && (
+        <ul className="mt-6 divide-y divide-gray-100 border-t border-gray-100">
+          {custom.map((s) => (
+            <li key={s.id} className="py-3 flex items-start justify-between gap-4 text-sm">
+              <p className="text-gray-800">
+                <span className="font-medium">{s.term}</span>
+                <span className="text-gray-500"> → {s.expansions.join(", ")}</span>
+              </p>
+              <button onClick={() => handleRemove(s.id)} className="text-xs text-red-600 hover:underline whitespace-nowrap">
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {bundledTerms.length > 0 && (
+        <details className="mt-4 text-sm">
+          <summary className="cursor-pointer text-gray-500">Built-in abbreviations ({bundledTerms.length})</summary>
+          <ul className="mt-2 max-h-60 overflow-y-auto space-y-1 text-xs text-gray-600">
+            {bundledTerms.map((t) => (
+              <li key={t}><span className="font-medium">{t}</span> → {bundled[t].join(", ")}</li>
+            ))}
+          </ul>
+        </details>
+      )}
+    </section>
+  );
+}
+
+function SummaryTemplatesSection({ session }: { session: Session }) {
+  const [custom, setCustom] = useState<SummaryTemplate[]>([]);
+  const [builtIn, setBuiltIn] = useState<SummaryTemplate[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [tags, setTags] = useState("");
+  const [instructions, setInstructions] = useState("");
+  const [isDefault, setIsDefault] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [msg, setMsg] = useState<{ type: "success" | "error"; text: string } | null>(null);
+
+  const authHeaders = useMemo(
+    () => ({ "Content-Type": "application/json", Authorization: `Bearer ${session.access_token}` }),
+    [session.access_token]
+  );
+
+  const loadTemplates = useCallback(async () => {
+    const res = await fetch("/api/summary-templates", { headers: authHeaders });
+    const json = await res.json();
+    if (res.ok) {
+      setCustom(json.custom);
+      setBuiltIn(json.built_in);
+    } else {
+      setMsg({ type: "error", text: json.error ?? "Could not load summary templates." });
+    }
+  }, [authHeaders]);
+
+  useEffect(() => {
+    loadTemplates();
+  }, [loadTemplates]);
+
+  const resetForm = () => {
+    setEditingId(null);
+    setName("");
+    setTags("");
+    setInstructions("");
+    setIsDefault(false);
+  };
+
+  // Editing a built-in saves a copy under the same name, which replaces it for this user
+  const startEditing = (template: SummaryTemplate) => {
+    setMsg(null);
+    setEditingId(template.user_id ? template.id : null);
+    setName(template.name);
+    setTags(template.tags.join(", "));
+    setInstructions(template.instructions);
+    setIsDefault(template.is_default);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setMsg(null);
+    setSaving(true);
+    const res = await fetch(editingId ? `/api/summary-templates/${editingId}` : "/api/summary-templates", {
+      method: editingId ? "PATCH" : "POST",
+      headers: authHeaders,
+      body: JSON.stringify({ name, instructions, tags: tags.split(","), is_default: isDefault }),
+    });
+    const json = await res.json();
+    setSaving(false);
+
+    if (!res.ok) {
+      setMsg({ type: "error", text: json.error ?? "Could not save template." });
+      return;
+    }
+    const usedFor = json.tags.length > 0 ? `notes tagged ${json.tags.join(", ")}` : null;
+    const scope = [usedFor, json.is_default ? "notes without a matching tag" : null].filter(Boolean).join(" and ");
+    setMsg({ type: "success", text: scope ? `"${json.name}" will be used for ${scope}.` : `Saved "${json.name}".` });
+    resetForm();
+    loadTemplates();
+  };
+
+  const handleRemove = async (id: string) => {
+    const res = await fetch(`/api/summary-templates/${id}`, { method: "DELETE", headers: authHeaders });
+    const json = await res.json();
+    if (!res.ok) setMsg({ type: "error", text: json.error ?? "Could not remove template." });
+    if (id === editingId) resetForm();
+    loadTemplates();
+  };
+
+  const customNames = new Set(custom.map((t) => t.name));
+
+  return (
+    <section className="bg-white rounded-lg shadow p-6 mb-6">
+      <h2 className="text-lg font-semibold text-gray-800 mb-1">Summary Templates</h2>
+      <p className="text-sm text-gray-500 mb-4">
+        Instructions for attachment summaries. A note tagged with one of a template&apos;s tags is
+        summarized with it, your own templates first; otherwise your default template is used, if any.
+        Changes apply to summaries generated from now on.
+      </p>
+
+      <form onSubmit={handleSave} className="space-y-4">
+        <div className="flex gap-3">
+          <div className="w-1/3">
+            <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              required
+              maxLength={80}
+              placeholder="e.g. Case report"
+              className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+          <div className="flex-1">
+            <label className="block text-sm font-medium text-gray-700 mb-1">Used for tags (comma-separated)</label>
+            <input
+              type="text"
+              value={tags}
+              onChange={(e) => setTags(e.target.value)}
+              placeholder="e.g. case, case-report"
+              className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Instructions</label>
+          <textarea
+            value={instructions}
+            onChange={(e) => setInstructions(e.target.value)}
+            required
+            rows={4}
+            maxLength={4000}
+            placeholder="e.g. Structure the summary as: presentation, workup, diagnosis, management, teaching points."
+            className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+          />
+        </div>
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input type="checkbox" checked={isDefault} onChange={(e) => setIsDefault(e.target.checked)} />
+          Use for notes without a matching tag
+        </label>
+        {msg && (
+          <p className={`text-sm ${msg.type === "error" ? "text-red-600" : "text-green-600"}`}>{msg.text}</p>
+        )}
+        <div className="flex gap-3">
+          <button
+            type="submit"
+            disabled={saving}
+            className="flex-1 px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-md hover:bg-blue-700 disabled:opacity-50 transition-colors"
+          >
+            {saving ? "Saving..." : editingId ? "Save Template" : "Add Template"}
+          </button>
+          {(editingId || name) && (
+            <button
+              type="button"
+              onClick={resetForm}
+              className="px-4 py-2 border border-gray-300 text-sm font-medium text-gray-700 rounded-md hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </button>
+          )}
+        </div>
+      </form>
+
+      {custom.length > 0 && (
+        <ul className="mt-6 divide-y divide-gray-100 border-t border-gray-100">
+          {custom.map((t) => (
+            <li key={t.id} className="py-3 flex items-start justify-between gap-4 text-sm">
+              <div className="min-w-0">
+                <p className="text-gray-800">
+                  <span className="font-medium">{t.name}</span>
+                  {t.is_default && <span className="ml-2 text-xs text-blue-600">default</span>}
+                  {t.tags.length > 0 && <span className="text-gray-500"> · {t.tags.join(", ")}</span>}
+                </p>
+                <p className="mt-1 text-xs text-gray-500 line-clamp-2">{t.instructions}</p>
+              </div>
+              <div className="flex gap-3 whitespace-nowrap">
+                <button onClick={() => startEditing(t)} className="text-xs text-blue-600 hover:underline">
+                  Edit
+                </button>
+                <button onClick={() => handleRemove(t.id)} className="text-xs text-red-600 hover:underline">
+                  Remove
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {builtIn.length > 0 && (
+        <details className="mt-4 text-sm">
+          <summary className="cursor-pointer text-gray-500">Built-in templates ({builtIn.length})</summary>
+          <ul className="mt-2 space-y-3 text-xs text-gray-600">
+            {builtIn.map((t) => (
+              <li key={t.id}>
+                <p>
+                  <span className="font-medium">{t.name}</span> · {t.tags.join(", ")}
+                  {customNames.has(t.name) ? (
+                    <span className="ml-2 text-gray-400">replaced by yours</span>
+                  ) : (
+                    <button onClick={() => startEditing(t)} className="ml-2 text-blue-600 hover:underline">
+                      Customize
+                    </button>
+                  )}
+                </p>
+                <p className="mt-1 text-gray-500">{t.instructions}</p>
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+    </section>
+  );
+}
 
 export default function SettingsPage() {
   const [session, setSession] = useState<Session | null>(null);
@@ -159,6 +675,12 @@ export default function SettingsPage() {
         </section>
       )}
 
+      {session && !isRecovery && <AccessTokensSection session={session} />}
+
+      {session && !isRecovery && <SearchSynonymsSection session={session} />}
+
+      {session && !isRecovery && <SummaryTemplatesSection session={session} />}
+
       {/* Send Password Reset Email — always shown */}
       <section className="bg-white rounded-lg shadow p-6">
         <h2 className="text-lg font-semibold text-gray-800 mb-1">Reset Password by Email</h2>
@@ -6,15 +6,12 @@ import Head from 'next/head'; // Import Head for meta tags
 import { supabase } from '../../../lib/supabaseClient'; // Correct relative path
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
+import PdfViewer, { usePdfDeepLink } from '../../PdfViewer';
+import { attachmentKind } from '../../../lib/attachmentTypes';
+import { resolveMediaSrc } from '../../../lib/media';
+import { useMediaUrls } from '../../useMediaUrls';
 
 // Reuse types (consider moving to a shared file)
-type MediaFile = {
-    id: string;
-    file_name: string;
-    file_path: string;
-    file_type: string;
-    uploaded_at: string;
-};
 
 type Post = {
   id: string;
@@ -23,18 +20,17 @@ type Post = {
   content: string;
   tags: string[] | null;
   is_starred: boolean; // Not strictly needed for display, but part of the type
-  secret_url?: string | null;
   summary?: string | null;
-  media_files?: MediaFile[];
 };
 
 export default function SharePage() {
   const [post, setPost] = useState<Post | null>(null);
-  const [mediaFiles, setMediaFiles] = useState<MediaFile[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const params = useParams();
   const secretUrlParam = params?.secret_url as string; // Get secret_url from dynamic route
+  // The attachments are private; the share secret gets short-lived signed URLs for them from /api/media
+  const { files: mediaFiles, urls: mediaUrls, mediumUrls } = useMediaUrls(secretUrlParam ? { secret: secretUrlParam } : null);
 
   useEffect(() => {
     if (!secretUrlParam) {
@@ -47,19 +43,10 @@ export default function SharePage() {
         setLoading(true);
         setError(null);
         try {
-            // Fetch post using the secret URL header for RLS
+            // Secrets aren't readable from posts; shared_post resolves one to its post
             const { data: postData, error: postError } = await supabase
-                .from('posts')
-                .select('*')
-                .eq('secret_url', secretUrlParam) // Match the secret_url column directly
-                // Pass the secret URL in the header for the RLS policy check
-                .single();
-                // Note: The RLS policy uses current_setting('request.header.x-secret-url', true)
-                // Supabase client might automatically handle passing necessary context for RLS,
-                // but explicitly setting the header might be needed in some setups or for clarity.
-                // If direct .eq('secret_url', ...) doesn't work with RLS, we'd need to adjust
-                // the client call or the RLS policy (e.g., use a function).
-                // Let's assume direct .eq works for now with the RLS check on secret_url itself.
+                .rpc('shared_post', { p_secret: secretUrlParam })
+                .maybeSingle<Post>();
 
             if (postError || !postData) {
                  if (postError?.code === 'PGRST116' || !postData) { // Not found
@@ -68,34 +55,17 @@ export default function SharePage() {
                     throw postError || new Error("Failed to fetch post data.");
                  }
                  setPost(null);
-                 setMediaFiles([]);
                  setLoading(false);
                  return;
             }
 
             setPost(postData);
 
-            // Fetch associated media files using the post_id from the fetched post
-            const { data: mediaData, error: mediaError } = await supabase
-                .from('media_files')
-                .select('*')
-                .eq('post_id', postData.id)
-                // RLS policy for media_files should allow access based on the post's secret_url match
-                .order('uploaded_at', { ascending: true });
-
-            if (mediaError) {
-                console.warn("Could not fetch media files:", mediaError); // Non-critical error for media
-                setMediaFiles([]);
-            } else {
-                setMediaFiles(mediaData || []);
-            }
-
         } catch (err: unknown) {
             console.error("Error fetching shared data:", err);
             const message = err instanceof Error ? err.message : 'An unknown error occurred.';
             setError(`Failed to load shared post: ${message}`);
             setPost(null);
-            setMediaFiles([]);
         } finally {
             setLoading(false);
         }
@@ -105,27 +75,10 @@ export default function SharePage() {
 
   }, [secretUrlParam]); // Re-run if secretUrlParam changes
 
-   // Function to get a temporary signed URL for viewing a private file
-   // This needs to work for public users viewing the shared link too.
-   // The RLS policy on storage.objects needs to allow this based on the secret link.
-   // Let's adjust the storage policy approach slightly - generate URLs from backend context if needed.
-   // For now, assume the client can generate based on path if storage RLS allows public read via post link.
-   const getMediaUrl = async (filePath: string): Promise<string | null> => {
-    try {
-        // This might require adjustments based on storage RLS for public access
-        const { data, error } = await supabase
-            .storage
-            .from('post-media')
-            .createSignedUrl(filePath, 60 * 5); // 5 minute validity
-
-        if (error) throw error;
-        return data.signedUrl;
-    } catch (err) {
-        console.error('Error creating signed URL for shared view:', err);
-        return null;
-    }
-   };
-
+  // PDFs open in the inline viewer; #page=N links open the first one at that page
+  const { open: openPdf, openPdf: showPdf, closePdf, pageChanged } = usePdfDeepLink(
+    mediaFiles.filter(file => attachmentKind(file) === 'pdf').map(file => file.id)
+  );
 
   if (loading) {
     return <div className="p-8 text-center">Loading shared post...</div>;
@@ -177,7 +130,19 @@ export default function SharePage() {
       </div>
 
       <article className="prose print-content dark:prose-invert lg:prose-xl max-w-none bg-white dark:bg-gray-800 p-6 rounded-lg shadow mb-6">
-        <ReactMarkdown remarkPlugins={[remarkGfm]}>{post.content}</ReactMarkdown>
+        <ReactMarkdown
+          remarkPlugins={[remarkGfm]}
+          components={{
+            // Images embedded from our storage are swapped for signed URLs
+            img: ({ src, alt }) => {
+              const resolved = typeof src === 'string' ? resolveMediaSrc(src, mediumUrls) : null;
+              // eslint-disable-next-line @next/next/no-img-element
+              return resolved ? <img src={resolved} alt={alt ?? ''} /> : null;
+            },
+          }}
+        >
+          {post.content}
+        </ReactMarkdown>
       </article>
 
       {/* Media Files Section */}
@@ -186,18 +151,42 @@ export default function SharePage() {
             <h3 className="text-lg font-semibold mb-3 dark:text-white">Attached Media</h3>
             <ul className="space-y-2">
                 {mediaFiles.map(file => (
-                    <li key={file.id} className="flex items-center justify-between text-sm">
-                        <span className="dark:text-gray-300">{file.file_name} ({file.file_type})</span>
-                        <button
-                            onClick={async () => {
-                                const url = await getMediaUrl(file.file_path);
-                                if (url) window.open(url, '_blank');
-                                else alert('Could not generate link for this file.');
-                            }}
-                            className="text-indigo-600 dark:text-indigo-400 hover:underline"
-                        >
-                            View/Download
-                        </button>
+                    <li key={file.id} className="text-sm">
+                        <div className="flex items-center justify-between">
+                            <span className="dark:text-gray-300">{file.file_name} ({file.file_type})</span>
+                            <div className="flex gap-3">
+                                {attachmentKind(file) === 'pdf' && (
+                                    <button
+                                        onClick={() => openPdf?.pdf === file.id ? closePdf() : showPdf(file.id)}
+                                        className="text-indigo-600 dark:text-indigo-400 hover:underline"
+                                    >
+                                        {openPdf?.pdf === file.id ? 'Hide' : 'View'}
+                                    </button>
+                                )}
+                                <button
+                                    onClick={() => {
+                                        const url = mediaUrls.get(file.file_path);
+                                        if (url) window.open(url, '_blank');
+                                        else alert('Could not generate link for this file.');
+                                    }}
+                                    className="text-indigo-600 dark:text-indigo-400 hover:underline"
+                                >
+                                    {attachmentKind(file) === 'pdf' ? 'Download' : 'View/Download'}
+                                </button>
+                            </div>
+                        </div>
+                        {openPdf?.pdf === file.id && (
+                            <div className="mt-2 print:hidden">
+                                <PdfViewer
+                                    filePath={file.file_path}
+                                    fileName={file.file_name}
+                                    getUrl={async path => mediaUrls.get(path) ?? null}
+                                    page={openPdf.page}
+                                    onPageChange={page => pageChanged(file.id, page)}
+                                    onClose={closePdf}
+                                />
+                            </div>
+                        )}
                     </li>
                 ))}
             </ul>
@@ -0,0 +1,83 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { fetchMediaUrls, type MediaQuery, type SignedMediaFile } from '../lib/media';
+
+// Ask again this long before the signed URLs run out, so a rendered link always works
+const REFRESH_MARGIN_MS = 60 * 1000;
+// Matches the limit in /api/media
+const MAX_POST_IDS_PER_REQUEST = 100;
+
+// Attachments and their signed URLs, from /api/media. With post ids (which need
+// a signed-in user) posts are fetched as they appear, so a growing feed only asks
+// for the new ones; with a share secret the shared post's attachments are fetched.
+// Everything is fetched again shortly before the URLs expire.
+export function useMediaUrls(query: MediaQuery | null, accessToken?: string | null) {
+  const [filesById, setFilesById] = useState<Map<string, SignedMediaFile>>(() => new Map());
+  const [error, setError] = useState<string | null>(null);
+  const [generation, setGeneration] = useState(0);
+  // Post ids (or the secret) asked for since the last refresh
+  const requested = useRef(new Set<string>());
+  const refreshTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const secret = query && 'secret' in query ? query.secret : null;
+  const postIdsKey = query && 'postIds' in query ? query.postIds.join(',') : '';
+
+  useEffect(() => () => {
+    if (refreshTimer.current) clearTimeout(refreshTimer.current);
+  }, []);
+
+  useEffect(() => {
+    const batches: { query: MediaQuery; keys: string[] }[] = [];
+    if (secret) {
+      if (!requested.current.has(secret)) batches.push({ query: { secret }, keys: [secret] });
+    } else if (accessToken) {
+      const missing = Array.from(new Set(postIdsKey.split(',').filter(Boolean)))
+        .filter(id => !requested.current.has(id));
+      for (let i = 0; i < missing.length; i += MAX_POST_IDS_PER_REQUEST) {
+        const postIds = missing.slice(i, i + MAX_POST_IDS_PER_REQUEST);
+        batches.push({ query: { postIds }, keys: postIds });
+      }
+    }
+
+    for (const batch of batches) {
+      batch.keys.forEach(key => requested.current.add(key));
+      fetchMediaUrls(batch.query, accessToken ?? undefined)
+        .then(({ expires_at, files }) => {
+          setFilesById(prev => {
+            // A batch's answer replaces what we had for its posts, so removed files drop out
+            const next = new Map(Array.from(prev).filter(([, file]) => secret ? false : !batch.keys.includes(file.post_id)));
+            files.forEach(file => next.set(file.id, file));
+            return next;
+          });
+          setError(null);
+          if (!refreshTimer.current) {
+            const delay = Math.max(Date.parse(expires_at) - Date.now() - REFRESH_MARGIN_MS, 10 * 1000);
+            refreshTimer.current = setTimeout(() => {
+              refreshTimer.current = null;
+              requested.current.clear();
+              setGeneration(g => g + 1);
+            }, delay);
+          }
+        })
+        .catch(err => {
+          batch.keys.forEach(key => requested.current.delete(key));
+          setError(err instanceof Error ? err.message : String(err));
+        });
+    }
+  }, [secret, postIdsKey, accessToken, generation]);
+
+  return useMemo(() => {
+    const files = Array.from(filesById.values()).sort((a, b) => a.uploaded_at.localeCompare(b.uploaded_at));
+    // Keyed by the original's path; the renditions fall back to the original
+    const urls = new Map<string, string>();
+    const mediumUrls = new Map<string, string>();
+    const thumbnailUrls = new Map<string, string>();
+    files.forEach(file => {
+      if (file.url) urls.set(file.file_path, file.url);
+      if (file.medium_url) mediumUrls.set(file.file_path, file.medium_url);
+      if (file.thumbnail_url) thumbnailUrls.set(file.file_path, file.thumbnail_url);
+    });
+    return { files, urls, mediumUrls, thumbnailUrls, error };
+  }, [filesById, error]);
+}
@@ -0,0 +1,132 @@
+import { createClient } from '@supabase/supabase-js';
+import { NextRequest, NextResponse } from 'next/server';
+import { createHash, createHmac, randomBytes } from 'crypto';
+
+// Shared auth for the /api/* routes used by the CLI and agents.
+// A bearer token is either a Supabase session JWT (full access) or a
+// personal access token ("mnp_…") created on the Settings page, which is
+// limited to the scopes it was issued with.
+
+export type TokenScope = 'read' | 'write' | 'delete';
+export const TOKEN_SCOPES: TokenScope[] = ['read', 'write', 'delete'];
+
+const PAT_PREFIX = 'mnp_';
+// Lifetime of the JWT minted for a request authenticated with a PAT
+const PAT_SESSION_SECONDS = 5 * 60;
+// Lifetime of the JWT for work that outlives the request: after() tasks
+// (renditions, OCR, summaries, embeddings) and streamed exports
+const BACKGROUND_SESSION_SECONDS = 60 * 60;
+
+export type AuthUser = { id: string; email?: string };
+
+type AuthResult =
+  | { user: AuthUser; token: string; viaPersonalToken: boolean; error: null }
+  | { user: null; token: null; viaPersonalToken: false; error: NextResponse };
+
+export function getUserClient(token: string) {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    { global: { headers: { Authorization: `Bearer ${token}` } } }
+  );
+}
+
+export type UserClient = ReturnType<typeof getUserClient>;
+
+export function isPersonalAccessToken(token: string) {
+  return token.startsWith(PAT_PREFIX);
+}
+
+export function hashPersonalAccessToken(token: string) {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+export function generatePersonalAccessToken() {
+  const token = `${PAT_PREFIX}${randomBytes(32).toString('base64url')}`;
+  return {
+    token,
+    prefix: token.slice(0, PAT_PREFIX.length + 8),
+    hash: hashPersonalAccessToken(token),
+  };
+}
+
+// Sign a short-lived Supabase JWT for the token's owner so the request runs
+// under the same row-level security as a normal session.
+function mintSessionJwt(user: AuthUser, seconds = PAT_SESSION_SECONDS) {
+  const secret = process.env.SUPABASE_JWT_SECRET;
+  if (!secret) throw new Error('SUPABASE_JWT_SECRET is not configured');
+
+  const now = Math.floor(Date.now() / 1000);
+  const encode = (obj: object) => Buffer.from(JSON.stringify(obj)).toString('base64url');
+  const unsigned = `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode({
+    sub: user.id,
+    email: user.email,
+    role: 'authenticated',
+    aud: 'authenticated',
+    iat: now,
+    exp: now + seconds,
+  })}`;
+  const signature = createHmac('sha256', secret).update(unsigned).digest('base64url');
+  return `${unsigned}.${signature}`;
+}
+
+// A client acting as the given user, for work a request has already been
+// authorized for some other way (e.g. signing URLs for a shared post's media)
+export function getClientForUser(user: AuthUser) {
+  return getUserClient(mintSessionJwt(user));
+}
+
+// A client for work that keeps going after the response is sent, which the
+// request's token may not live to see (a PAT's minted JWT lasts 5 minutes).
+// Without SUPABASE_JWT_SECRET the request was made with a session JWT, which
+// is the best there is.
+export function getBackgroundClient(user: AuthUser, token: string) {
+  if (!process.env.SUPABASE_JWT_SECRET) return getUserClient(token);
+  return getUserClient(mintSessionJwt(user, BACKGROUND_SESSION_SECONDS));
+}
+
+function deny(error: string, status: number): AuthResult {
+  return { user: null, token: null, viaPersonalToken: false, error: NextResponse.json({ error }, { status }) };
+}
+
+async function authenticatePersonalToken(token: string, scope: TokenScope): Promise<AuthResult> {
+  // Requests are run as the owner with a JWT signed here, so PATs can't work without it
+  if (!process.env.SUPABASE_JWT_SECRET) {
+    return deny('Personal access tokens are not available: SUPABASE_JWT_SECRET is not configured on the server', 500);
+  }
+
+  const anon = createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+  );
+
+  // SECURITY DEFINER lookup: checks revocation/expiry and bumps last_used_at
+  const { data, error } = await anon
+    .rpc('resolve_personal_access_token', { p_token_hash: hashPersonalAccessToken(token) })
+    .maybeSingle<{ user_id: string; email: string | null; scopes: string[] }>();
+
+  if (error || !data) return deny('Unauthorized', 401);
+  if (!data.scopes.includes(scope)) {
+    return deny(`Token is missing the "${scope}" scope`, 403);
+  }
+
+  const user = { id: data.user_id, email: data.email ?? undefined };
+  return { user, token: mintSessionJwt(user), viaPersonalToken: true, error: null };
+}
+
+// Resolve the caller from the Authorization header. `scope` is only enforced
+// for personal access tokens; session JWTs carry every scope.
+export async function getAuthenticatedUser(req: NextRequest, scope: TokenScope = 'read'): Promise<AuthResult> {
+  const authHeader = req.headers.get('authorization') ?? '';
+  const token = authHeader.startsWith('Bearer ') ? authHeader.slice(7) : null;
+  if (!token) return deny('Unauthorized', 401);
+
+  if (isPersonalAccessToken(token)) {
+    return authenticatePersonalToken(token, scope);
+  }
+
+  const supabase = getUserClient(token);
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return deny('Unauthorized', 401);
+  return { user: { id: user.id, email: user.email }, token, viaPersonalToken: false, error: null };
+}
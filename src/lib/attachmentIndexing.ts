@@ -0,0 +1,10 @@
+// The web form uploads attachments straight to Supabase Storage, so it asks
+// the API to extract their text for search afterwards (see
+// /api/posts/[id]/media/text). Fire-and-forget like refreshEmbedding.
+export function indexAttachments(postId: string, accessToken: string) {
+  fetch(`/api/posts/${postId}/media/text`, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${accessToken}` },
+    keepalive: true,
+  }).catch(err => console.warn(`[attachments] indexing for ${postId} failed:`, err));
+}
@@ -0,0 +1,49 @@
+// Attachment kinds whose text can be extracted, for search (src/lib/extractors.ts)
+// and summaries (the summarize-document edge function). Safe to import from
+// client components: it only looks at MIME types and file names.
+
+export type AttachmentKind = 'pdf' | 'docx' | 'pptx' | 'html' | 'image';
+
+// Keep in sync with summarizable_file_type() in 20261012_attachment_extractors.sql
+// and with KINDS and EXTRACTORS in supabase/functions/summarize-document;
+// `npm run check:attachment-kinds` compares them
+const KINDS: { kind: AttachmentKind; mimeTypes: string[]; extensions: string[] }[] = [
+  { kind: 'pdf', mimeTypes: ['application/pdf'], extensions: ['pdf'] },
+  {
+    kind: 'docx',
+    mimeTypes: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+    extensions: ['docx'],
+  },
+  {
+    kind: 'pptx',
+    mimeTypes: ['application/vnd.openxmlformats-officedocument.presentationml.presentation'],
+    extensions: ['pptx'],
+  },
+  { kind: 'html', mimeTypes: ['text/html', 'application/xhtml+xml'], extensions: ['html', 'htm', 'xhtml'] },
+  // What the local OCR engine reads; SVGs have no pixels to recognize
+  {
+    kind: 'image',
+    mimeTypes: ['image/png', 'image/jpeg', 'image/tiff', 'image/webp', 'image/bmp', 'image/gif'],
+    extensions: ['png', 'jpg', 'jpeg', 'tif', 'tiff', 'webp', 'bmp', 'gif'],
+  },
+];
+
+// The MIME type wins; the extension covers uploads recorded as application/octet-stream
+export function attachmentKind(file: { file_type?: string | null; file_name?: string | null }): AttachmentKind | null {
+  const mimeType = (file.file_type ?? '').split(';')[0].trim().toLowerCase();
+  const byType = KINDS.find(k => k.mimeTypes.includes(mimeType));
+  if (byType) return byType.kind;
+  if (mimeType && mimeType !== 'application/octet-stream') return null;
+  const extension = (file.file_name ?? '').split('.').pop()?.toLowerCase() ?? '';
+  return KINDS.find(k => k.extensions.includes(extension))?.kind ?? null;
+}
+
+export type DocumentKind = Exclude<AttachmentKind, 'image'>;
+
+// Non-image attachments shown as a badge on feed cards
+export const DOCUMENT_BADGES: Record<DocumentKind, { icon: string; label: string }> = {
+  pdf: { icon: '📄', label: 'PDF' },
+  docx: { icon: '📝', label: 'Word document' },
+  pptx: { icon: '📊', label: 'Slide deck' },
+  html: { icon: '🌐', label: 'Web page' },
+};
@@ -0,0 +1,190 @@
+// Line-based diff (longest common subsequence) used by the revision history view,
+// plus a three-way merge for resolving concurrent edits.
+
+export type DiffOp = { type: 'equal' | 'added' | 'removed'; text: string };
+
+export type SideBySideRow = {
+  type: 'equal' | 'changed' | 'added' | 'removed';
+  left: string | null;
+  right: string | null;
+};
+
+// Above this many cells the LCS table gets too large for the browser;
+// fall back to showing the whole text as replaced.
+const MAX_LCS_CELLS = 4_000_000;
+
+export function diffLines(before: string, after: string): DiffOp[] {
+  return diffSequences(before.split('\n'), after.split('\n'));
+}
+
+function diffSequences(a: string[], b: string[]): DiffOp[] {
+
+  // Trim the common prefix/suffix first; most edits touch a few lines
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) { endA--; endB--; }
+
+  const head: DiffOp[] = a.slice(0, start).map(text => ({ type: 'equal', text }));
+  const tail: DiffOp[] = a.slice(endA).map(text => ({ type: 'equal', text }));
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+
+  if (midA.length * midB.length > MAX_LCS_CELLS) {
+    return [
+      ...head,
+      ...midA.map(text => ({ type: 'removed' as const, text })),
+      ...midB.map(text => ({ type: 'added' as const, text })),
+      ...tail,
+    ];
+  }
+
+  // lcs[i][j] = LCS length of midA[i:] and midB[j:]
+  const lcs: number[][] = Array.from({ length: midA.length + 1 }, () => new Array(midB.length + 1).fill(0));
+  for (let i = midA.length - 1; i >= 0; i--) {
+    for (let j = midB.length - 1; j >= 0; j--) {
+      lcs[i][j] = midA[i] === midB[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const middle: DiffOp[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < midA.length && j < midB.length) {
+    if (midA[i] === midB[j]) {
+      middle.push({ type: 'equal', text: midA[i] });
+      i++; j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      middle.push({ type: 'removed', text: midA[i++] });
+    } else {
+      middle.push({ type: 'added', text: midB[j++] });
+    }
+  }
+  while (i < midA.length) middle.push({ type: 'removed', text: midA[i++] });
+  while (j < midB.length) middle.push({ type: 'added', text: midB[j++] });
+
+  return [...head, ...middle, ...tail];
+}
+
+// Pair up runs of removed/added lines so edits line up across the two columns
+export function toSideBySide(ops: DiffOp[]): SideBySideRow[] {
+  const rows: SideBySideRow[] = [];
+  let k = 0;
+  while (k < ops.length) {
+    if (ops[k].type === 'equal') {
+      rows.push({ type: 'equal', left: ops[k].text, right: ops[k].text });
+      k++;
+      continue;
+    }
+    const removed: string[] = [];
+    const added: string[] = [];
+    while (k < ops.length && ops[k].type !== 'equal') {
+      if (ops[k].type === 'removed') removed.push(ops[k].text);
+      else added.push(ops[k].text);
+      k++;
+    }
+    for (let n = 0; n < Math.max(removed.length, added.length); n++) {
+      const left = removed[n] ?? null;
+      const right = added[n] ?? null;
+      rows.push({ type: left !== null && right !== null ? 'changed' : left !== null ? 'removed' : 'added', left, right });
+    }
+  }
+  return rows;
+}
+
+// A run of base lines [baseStart, baseEnd) that one side replaced with `lines`
+type Hunk = { baseStart: number; baseEnd: number; lines: string[] };
+
+function toHunks(ops: DiffOp[]): Hunk[] {
+  const hunks: Hunk[] = [];
+  let basePos = 0;
+  let current: Hunk | null = null;
+  for (const op of ops) {
+    if (op.type === 'equal') {
+      if (current) { hunks.push(current); current = null; }
+      basePos++;
+      continue;
+    }
+    current ??= { baseStart: basePos, baseEnd: basePos, lines: [] };
+    if (op.type === 'removed') {
+      basePos++;
+      current.baseEnd = basePos;
+    } else {
+      current.lines.push(op.text);
+    }
+  }
+  if (current) hunks.push(current);
+  return hunks;
+}
+
+function applyHunks(base: string[], start: number, end: number, hunks: Hunk[]) {
+  const out: string[] = [];
+  let pos = start;
+  for (const h of hunks) {
+    out.push(...base.slice(pos, h.baseStart), ...h.lines);
+    pos = h.baseEnd;
+  }
+  out.push(...base.slice(pos, end));
+  return out;
+}
+
+export type MergeResult = { text: string; conflicts: number };
+
+export const CONFLICT_MARKERS = {
+  ours: '<<<<<<< your edit',
+  separator: '=======',
+  theirs: '>>>>>>> server version',
+};
+
+// Line-based three-way merge of two edits of the same base text. Changes that
+// touch the same (or adjacent) base lines differently become conflict blocks
+// delimited by CONFLICT_MARKERS.
+export function merge3(base: string, ours: string, theirs: string): MergeResult {
+  const baseLines = base.split('\n');
+  const oursHunks = toHunks(diffSequences(baseLines, ours.split('\n')));
+  const theirsHunks = toHunks(diffSequences(baseLines, theirs.split('\n')));
+
+  const out: string[] = [];
+  let conflicts = 0;
+  let pos = 0;
+  let i = 0;
+  let j = 0;
+
+  while (i < oursHunks.length || j < theirsHunks.length) {
+    const start = Math.min(oursHunks[i]?.baseStart ?? Infinity, theirsHunks[j]?.baseStart ?? Infinity);
+    out.push(...baseLines.slice(pos, start));
+
+    // Grow a cluster of hunks from either side that overlap or touch
+    let end = start;
+    const clusterOurs: Hunk[] = [];
+    const clusterTheirs: Hunk[] = [];
+    for (;;) {
+      if (i < oursHunks.length && oursHunks[i].baseStart <= end) {
+        end = Math.max(end, oursHunks[i].baseEnd);
+        clusterOurs.push(oursHunks[i++]);
+      } else if (j < theirsHunks.length && theirsHunks[j].baseStart <= end) {
+        end = Math.max(end, theirsHunks[j].baseEnd);
+        clusterTheirs.push(theirsHunks[j++]);
+      } else {
+        break;
+      }
+    }
+
+    const oursText = applyHunks(baseLines, start, end, clusterOurs);
+    const theirsText = applyHunks(baseLines, start, end, clusterTheirs);
+
+    if (clusterTheirs.length === 0 || oursText.join('\n') === theirsText.join('\n')) {
+      out.push(...oursText);
+    } else if (clusterOurs.length === 0) {
+      out.push(...theirsText);
+    } else {
+      conflicts++;
+      out.push(CONFLICT_MARKERS.ours, ...oursText, CONFLICT_MARKERS.separator, ...theirsText, CONFLICT_MARKERS.theirs);
+    }
+    pos = end;
+  }
+
+  out.push(...baseLines.slice(pos));
+  return { text: out.join('\n'), conflicts };
+}
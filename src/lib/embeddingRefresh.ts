@@ -0,0 +1,10 @@
+// The web editor saves posts straight to Supabase, so it asks the API to
+// re-embed them afterwards (see /api/posts/[id]/embedding). Fire-and-forget:
+// related notes and semantic search catch up on the next save if this fails.
+export function refreshEmbedding(postId: string, accessToken: string) {
+  fetch(`/api/posts/${postId}/embedding`, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${accessToken}` },
+    keepalive: true,
+  }).catch(err => console.warn(`[embedding] refresh for ${postId} failed:`, err));
+}
@@ -0,0 +1,154 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createHash } from 'crypto';
+import { searchRpcFilters, type SearchQuery } from '@/lib/searchQuery';
+
+// Embeddings for semantic search and "Related notes" (post_embeddings, see
+// 20261009_post_embeddings.sql). The provider is chosen by EMBEDDING_PROVIDER:
+// "openai" (default when OPENAI_API_KEY is set) or "local", a deterministic
+// embedder that needs no network access, for dev and tests.
+
+// Keep in sync with the vector(512) column in post_embeddings
+export const EMBEDDING_DIMENSIONS = 512;
+
+export interface EmbeddingProvider {
+  // Stored with each vector; only vectors from the same model are compared
+  model: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm === 0 ? vector : vector.map(v => v / norm);
+}
+
+// FNV-1a, so the local embedder gives the same vector on every machine
+function hash32(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+// Feature hashing over words and their character trigrams: texts sharing
+// vocabulary (or word stems) land close together. Not semantic in the way a
+// trained model is, but stable and good enough to exercise the pipeline.
+export const localEmbedder: EmbeddingProvider = {
+  model: 'local-hash-v1',
+  async embed(texts) {
+    return texts.map(text => {
+      const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+      const add = (feature: string, weight: number) => {
+        const h = hash32(feature);
+        vector[h % EMBEDDING_DIMENSIONS] += (h & 0x80000000 ? -1 : 1) * weight;
+      };
+      for (const word of text.toLowerCase().match(/[\p{L}\p{N}]{2,}/gu) ?? []) {
+        add(`w:${word}`, 1);
+        const padded = `<${word}>`;
+        for (let i = 0; i + 3 <= padded.length; i++) add(`t:${padded.slice(i, i + 3)}`, 0.25);
+      }
+      return normalize(vector);
+    });
+  },
+};
+
+export function openAIEmbedder(apiKey: string, model = 'text-embedding-3-small'): EmbeddingProvider {
+  return {
+    model: `openai:${model}`,
+    async embed(texts) {
+      const res = await fetch('https://api.openai.com/v1/embeddings', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${apiKey}` },
+        body: JSON.stringify({ model, input: texts, dimensions: EMBEDDING_DIMENSIONS }),
+      });
+      if (!res.ok) {
+        throw new Error(`OpenAI embeddings failed (${res.status}): ${await res.text()}`);
+      }
+      const json: { data: { index: number; embedding: number[] }[] } = await res.json();
+      return json.data.sort((a, b) => a.index - b.index).map(d => d.embedding);
+    },
+  };
+}
+
+export function getEmbeddingProvider(): EmbeddingProvider {
+  const apiKey = process.env.OPENAI_API_KEY;
+  const provider = process.env.EMBEDDING_PROVIDER ?? (apiKey ? 'openai' : 'local');
+  if (provider === 'local') return localEmbedder;
+  if (provider !== 'openai') throw new Error(`Unknown EMBEDDING_PROVIDER: ${provider}`);
+  if (!apiKey) throw new Error('EMBEDDING_PROVIDER is "openai" but OPENAI_API_KEY is not configured');
+  return openAIEmbedder(apiKey, process.env.OPENAI_EMBEDDING_MODEL || undefined);
+}
+
+// Roughly the input limit of the OpenAI embedding models
+const MAX_EMBEDDING_CHARS = 24_000;
+
+export function embeddingText(post: { content: string; summary?: string | null }) {
+  const summary = post.summary ? `\n\n${post.summary}` : '';
+  return `${post.content}${summary}`.slice(0, MAX_EMBEDDING_CHARS);
+}
+
+// Embed a post unless its stored vector is already up to date. Runs under the
+// caller's RLS, so only the post's owner can write its embedding.
+export async function embedPost(
+  supabase: SupabaseClient,
+  postId: string,
+  provider: EmbeddingProvider = getEmbeddingProvider()
+): Promise<{ updated: boolean }> {
+  const [{ data: post, error: postError }, { data: existing }] = await Promise.all([
+    supabase.from('posts').select('id, content, summary').eq('id', postId).is('deleted_at', null).single(),
+    supabase.from('post_embeddings').select('model, source_hash').eq('post_id', postId).maybeSingle(),
+  ]);
+  if (postError || !post) throw new Error('Post not found');
+
+  const text = embeddingText(post);
+  const sourceHash = createHash('md5').update(text).digest('hex');
+  if (existing?.model === provider.model && existing.source_hash === sourceHash) return { updated: false };
+
+  const [embedding] = await provider.embed([text]);
+  const { error } = await supabase.from('post_embeddings').upsert({
+    post_id: postId,
+    model: provider.model,
+    embedding,
+    source_hash: sourceHash,
+    updated_at: new Date().toISOString(),
+  });
+  if (error) throw new Error(error.message);
+  return { updated: true };
+}
+
+// For after(): a failed embedding must never fail the write that triggered it
+export async function embedPostQuietly(supabase: SupabaseClient, postId: string) {
+  try {
+    await embedPost(supabase, postId);
+  } catch (err) {
+    console.error(`[embeddings] post ${postId}:`, err);
+  }
+}
+
+export type SemanticHit = {
+  id: string;
+  created_at: string;
+  updated_at: string;
+  content: string;
+  tags: string[] | null;
+  is_starred: boolean;
+  user_id: string;
+  similarity: number;
+};
+
+export async function semanticSearch(
+  supabase: SupabaseClient,
+  options: { query: SearchQuery; limit?: number; offset?: number; userId?: string },
+  provider: EmbeddingProvider = getEmbeddingProvider()
+) {
+  const [embedding] = await provider.embed([options.query.text]);
+  const { data, error } = await supabase.rpc('match_posts', {
+    p_embedding: embedding,
+    p_model: provider.model,
+    p_limit: options.limit ?? 20,
+    p_offset: options.offset ?? 0,
+    ...searchRpcFilters(options.query, options.userId),
+  });
+  return { hits: (data ?? []) as SemanticHit[], error };
+}
@@ -0,0 +1,18 @@
+// Post versions for optimistic concurrency. A post's ETag is its updated_at
+// timestamp, exactly as Postgres returns it, so it can be fed straight back
+// into an `.eq('updated_at', …)` filter for a conditional update.
+
+export function postETag(updatedAt: string) {
+  return `"${updatedAt}"`;
+}
+
+// Extract the updated_at from an If-Match / If-None-Match header value.
+// Returns null for a missing header or "*", undefined for one that isn't ours.
+export function parseETag(header: string | null): string | null | undefined {
+  if (!header) return null;
+  const value = header.split(',')[0].trim().replace(/^W\//, '');
+  if (value === '*') return null;
+  const match = value.match(/^"(.+)"$/);
+  if (!match || Number.isNaN(Date.parse(match[1]))) return undefined;
+  return match[1];
+}
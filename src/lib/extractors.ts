@@ -0,0 +1,187 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { spawn } from 'child_process';
+import { unzipSync, strFromU8 } from 'fflate';
+import { attachmentKind, type AttachmentKind } from '@/lib/attachmentTypes';
+import { extractPdfText, PAGE_BREAK } from '@/lib/pdfText';
+
+// Text extractors per attachment kind, feeding media_files.extracted_text so
+// search_posts can match inside attachments (see 20261010_attachment_search.sql).
+// Each returns the text page by page (slides for decks, rendered pages for Word
+// files), joined with PAGE_BREAK. Add a kind in attachmentTypes.ts, then an
+// entry in EXTRACTORS.
+
+export interface TextExtractor {
+  extract(data: Buffer): Promise<string[]>;
+}
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+function decodeEntities(text: string) {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+      const code = name[1].toLowerCase() === 'x' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return Number.isFinite(code) && code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+    }
+    return XML_ENTITIES[name.toLowerCase()] ?? entity;
+  });
+}
+
+function tidy(text: string) {
+  return text.replace(/[ \t]+/g, ' ').replace(/ ?\n ?/g, '\n').replace(/\n{3,}/g, '\n\n').trim();
+}
+
+// Word keeps the text in w:t runs; w:lastRenderedPageBreak marks where pages
+// ended when the file was last saved, which is the closest thing it has to pages
+export const docxExtractor: TextExtractor = {
+  async extract(data) {
+    const files = unzipSync(new Uint8Array(data), { filter: file => file.name === 'word/document.xml' });
+    const xml = files['word/document.xml'];
+    if (!xml) throw new Error('Not a Word document (word/document.xml is missing)');
+    const text = strFromU8(xml)
+      .replace(/<w:lastRenderedPageBreak\/>|<w:br [^>]*w:type="page"[^>]*\/>/g, PAGE_BREAK)
+      .replace(/<\/w:p>/g, '\n')
+      .replace(/<w:tab\/>/g, '\t')
+      .replace(/<w:br[^>]*\/>/g, '\n')
+      .replace(/<w:t(?: [^>]*)?>([^<]*)<\/w:t>/g, '\u0001$1\u0001')
+      .replace(/<[^>]+>/g, '')
+      .replace(/\u0001/g, '');
+    return decodeEntities(text).split(PAGE_BREAK).map(tidy);
+  },
+};
+
+// One page per slide, in slide order, text from the a:t runs
+export const pptxExtractor: TextExtractor = {
+  async extract(data) {
+    const files = unzipSync(new Uint8Array(data), { filter: file => /^ppt\/slides\/slide\d+\.xml$/.test(file.name) });
+    const slideNumber = (name: string) => parseInt(name.match(/slide(\d+)\.xml$/)?.[1] ?? '0', 10);
+    const names = Object.keys(files).sort((a, b) => slideNumber(a) - slideNumber(b));
+    if (names.length === 0) throw new Error('Not a slide deck (no ppt/slides)');
+    return names.map(name => {
+      const runs = strFromU8(files[name])
+        .replace(/<\/a:p>/g, '\n')
+        .match(/<a:t>[^<]*<\/a:t>|\n/g) ?? [];
+      return tidy(decodeEntities(runs.map(run => run === '\n' ? '\n' : run.slice(5, -6)).join(' ')));
+    });
+  },
+};
+
+const BLOCK_TAGS = /<\/?(?:p|div|br|li|ul|ol|h[1-6]|tr|table|section|article|header|footer|blockquote|pre|hr)\b[^>]*>/gi;
+
+export const htmlExtractor: TextExtractor = {
+  async extract(data) {
+    const html = data.toString('utf-8')
+      .replace(/<!--[\s\S]*?-->/g, '')
+      .replace(/<(script|style|noscript|template|svg)\b[\s\S]*?<\/\1>/gi, '')
+      .replace(BLOCK_TAGS, '\n')
+      .replace(/<[^>]+>/g, ' ');
+    return [tidy(decodeEntities(html))];
+  },
+};
+
+// OCR with a local Tesseract install (TESSERACT_PATH, default "tesseract"),
+// so photos of printed handouts never leave the server. OCR_LANGUAGES takes
+// Tesseract's syntax, e.g. "eng+deu".
+const OCR_TIMEOUT_MS = 60_000;
+
+export const imageOcrExtractor: TextExtractor = {
+  extract(data) {
+    const command = process.env.TESSERACT_PATH || 'tesseract';
+    const languages = process.env.OCR_LANGUAGES || 'eng';
+    return new Promise((resolve, reject) => {
+      const child = spawn(command, ['stdin', 'stdout', '-l', languages]);
+      const timer = setTimeout(() => child.kill(), OCR_TIMEOUT_MS);
+      let stdout = '';
+      let stderr = '';
+      child.stdout.on('data', chunk => { stdout += chunk; });
+      child.stderr.on('data', chunk => { stderr += chunk; });
+      child.on('error', err => {
+        clearTimeout(timer);
+        reject(new Error(`Could not run ${command}: ${err.message}`));
+      });
+      child.on('close', code => {
+        clearTimeout(timer);
+        if (code === 0) resolve([tidy(stdout)]);
+        else reject(new Error(`${command} exited with ${code ?? 'a signal'}: ${stderr.trim().slice(0, 200)}`));
+      });
+      child.stdin.on('error', () => { /* reported through close */ });
+      child.stdin.end(data);
+    });
+  },
+};
+
+export const pdfExtractor: TextExtractor = {
+  async extract(data) {
+    return (await extractPdfText(data)).pages;
+  },
+};
+
+export const EXTRACTORS: Record<AttachmentKind, TextExtractor> = {
+  pdf: pdfExtractor,
+  docx: docxExtractor,
+  pptx: pptxExtractor,
+  html: htmlExtractor,
+  image: imageOcrExtractor,
+};
+
+export function findExtractor(file: { file_type?: string | null; file_name?: string | null }): TextExtractor | null {
+  const kind = attachmentKind(file);
+  return kind ? EXTRACTORS[kind] : null;
+}
+
+// Postgres text can't hold NUL characters
+export async function extractText(extractor: TextExtractor, data: Buffer): Promise<{ pages: string[]; text: string }> {
+  const pages = (await extractor.extract(data)).map(page => page.replace(/\u0000/g, ''));
+  return { pages, text: pages.join(PAGE_BREAK) };
+}
+
+// to_tsvector refuses input whose vector would exceed 1MB; this stays well under
+const MAX_INDEXED_CHARS = 500_000;
+
+// Extract and store the text of a post's attachments that haven't been indexed
+// yet. Runs under the caller's RLS, so only the post's owner can index it. A
+// file that fails to parse is still marked as done (with no text) so it isn't
+// retried on every call.
+export async function indexPostAttachments(
+  supabase: SupabaseClient,
+  postId: string
+): Promise<{ indexed: number; failed: number }> {
+  const { data: files, error } = await supabase
+    .from('media_files')
+    .select('id, file_path, file_name, file_type')
+    .eq('post_id', postId)
+    .is('text_extracted_at', null);
+  if (error) throw new Error(error.message);
+
+  let indexed = 0;
+  let failed = 0;
+  for (const file of files ?? []) {
+    const extractor = findExtractor(file);
+    if (!extractor) continue;
+
+    let text: string | null = null;
+    try {
+      const { data: blob, error: downloadError } = await supabase.storage.from('post-media').download(file.file_path);
+      if (downloadError || !blob) throw new Error(downloadError?.message ?? 'download failed');
+      text = (await extractText(extractor, Buffer.from(await blob.arrayBuffer()))).text.slice(0, MAX_INDEXED_CHARS);
+      indexed++;
+    } catch (err) {
+      console.error(`[extractors] ${file.file_path}:`, err);
+      failed++;
+    }
+    const { error: updateError } = await supabase
+      .from('media_files')
+      .update({ extracted_text: text, text_extracted_at: new Date().toISOString() })
+      .eq('id', file.id);
+    if (updateError) throw new Error(updateError.message);
+  }
+  return { indexed, failed };
+}
+
+// For after(): indexing must never fail the upload that triggered it
+export async function indexPostAttachmentsQuietly(supabase: SupabaseClient, postId: string) {
+  try {
+    await indexPostAttachments(supabase, postId);
+  } catch (err) {
+    console.error(`[extractors] post ${postId}:`, err);
+  }
+}
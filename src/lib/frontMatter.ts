@@ -0,0 +1,20 @@
+// Minimal YAML front matter for exported Markdown notes.
+// Values are written as JSON scalars/flow sequences, which are valid YAML,
+// so any YAML parser (Obsidian, Jekyll, our importer) can read them back.
+
+type FrontMatterValue = string | number | boolean | null | undefined | string[];
+
+function formatValue(value: FrontMatterValue): string {
+  if (value === null || value === undefined) return 'null';
+  if (Array.isArray(value)) return `[${value.map(v => JSON.stringify(v)).join(', ')}]`;
+  return JSON.stringify(value);
+}
+
+export function serializeFrontMatter(meta: Record<string, FrontMatterValue>) {
+  const lines = Object.entries(meta).map(([key, value]) => `${key}: ${formatValue(value)}`);
+  return `---\n${lines.join('\n')}\n---\n`;
+}
+
+export function withFrontMatter(meta: Record<string, FrontMatterValue>, body: string) {
+  return `${serializeFrontMatter(meta)}\n${body.endsWith('\n') ? body : `${body}\n`}`;
+}
@@ -0,0 +1,51 @@
+import sharp, { type FormatEnum } from 'sharp';
+import { attachmentKind } from '@/lib/attachmentTypes';
+
+// Photos carry EXIF, XMP and IPTC metadata: GPS coordinates, camera serial
+// numbers and capture times, any of which can identify a patient or a site.
+// /api/posts/[id]/media runs every image through stripImageMetadata before it
+// is stored; the untouched file is only kept when the owner asks for it
+// (media_files.original_path, see 20261017_strip_image_metadata.sql). Images
+// that can't be decoded here are stored as uploaded and flagged instead
+// (media_files.metadata_kept, see 20261023_metadata_kept.sql).
+
+// Formats re-encoded in place, with the settings used to write them back
+const WRITERS: Partial<Record<keyof FormatEnum, { type: string; options?: object }>> = {
+  jpeg: { type: 'image/jpeg', options: { quality: 92 } },
+  png: { type: 'image/png' },
+  webp: { type: 'image/webp', options: { quality: 92 } },
+  gif: { type: 'image/gif' },
+  tiff: { type: 'image/tiff' },
+  // AVIF; HEIC photos can't be decoded here (no HEVC decoder in sharp)
+  heif: { type: 'image/avif', options: { compression: 'av1', quality: 80 } },
+};
+
+// SVG and BMP files can't carry camera metadata and are stored as uploaded
+const NO_METADATA_TYPES = ['image/svg+xml', 'image/bmp'];
+
+export function hasImageMetadata(file: { file_type: string; file_name: string }) {
+  const mimeType = file.file_type.split(';')[0].trim().toLowerCase();
+  if (NO_METADATA_TYPES.includes(mimeType)) return false;
+  return mimeType.startsWith('image/') || attachmentKind(file) === 'image';
+}
+
+// The image re-encoded without its metadata. Orientation is applied to the
+// pixels, since the tag that carried it goes too, and the colour profile is
+// kept so colours don't shift. Null for formats that can't be decoded or
+// written here, such as HEIC; throws when a supported image fails to convert.
+export async function stripImageMetadata(data: Buffer): Promise<{ data: Buffer; contentType: string } | null> {
+  const image = sharp(data, { animated: true });
+  const info = await image.metadata().catch(() => null);
+  if (!info) return null;
+  const { format, orientation, compression } = info;
+  const writer = format ? WRITERS[format] : undefined;
+  if (!format || !writer || compression === 'hevc') return null;
+  const upright = orientation && orientation !== 1 ? image.rotate() : image;
+  const stripped = await upright.keepIccProfile().toFormat(format, writer.options).toBuffer();
+  return { data: stripped, contentType: writer.type };
+}
+
+// Where the untouched upload is kept when the owner opts in
+export function originalPath(filePath: string) {
+  return `${filePath}.original`;
+}
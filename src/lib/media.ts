@@ -0,0 +1,138 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+// Attachments live in the private post-media bucket (see
+// 20261015_private_media.sql) and are only ever handed out as short-lived
+// signed URLs by /api/media, after checking post ownership or a share secret.
+
+export const MEDIA_BUCKET = 'post-media';
+
+// Long enough to load a page's images and open a PDF, short enough that a
+// copied link soon stops working
+export const MEDIA_URL_TTL_SECONDS = 10 * 60;
+
+export type MediaFile = {
+  id: string;
+  post_id: string;
+  file_name: string;
+  file_path: string;
+  file_type: string;
+  uploaded_at: string;
+  // Smaller WebP copies of images (src/lib/renditions.ts); null for other
+  // files and for images uploaded before renditions existed
+  thumbnail_path: string | null;
+  medium_path: string | null;
+  // The upload as it arrived, metadata and all, when the owner chose to keep
+  // it (src/lib/imageMetadata.ts); never given out through share links
+  original_path: string | null;
+  // An image stored as uploaded, metadata and all, because it couldn't be
+  // decoded here (HEIC); such files aren't given out through share links
+  metadata_kept: boolean;
+};
+
+// thumbnail_url and medium_url fall back to the original's url, so callers
+// can always use the size they want
+export type SignedMediaFile = MediaFile & {
+  url: string | null;
+  thumbnail_url: string | null;
+  medium_url: string | null;
+  original_url: string | null;
+};
+
+export const MEDIA_FILE_COLUMNS = 'id, post_id, file_name, file_path, file_type, uploaded_at, thumbnail_path, medium_path, original_path, metadata_kept';
+
+type Renditions = { thumbnail_path?: string | null; medium_path?: string | null; original_path?: string | null };
+
+// The client's file name, made safe for the last segment of a storage path:
+// only its basename, without control characters or leading dots, and short
+// enough for Storage (the end is kept, so is the extension)
+export function safeFileName(name: string) {
+  const base = name.split(/[\\/]/).pop() ?? '';
+  const cleaned = base.replace(/\p{Cc}/gu, '').trim().replace(/^\.+/, '');
+  return cleaned.slice(-200) || 'file';
+}
+
+const ISO_MEDIA_BRANDS: Record<string, string> = {
+  heic: 'image/heic', heix: 'image/heic', hevc: 'image/heic', hevx: 'image/heic',
+  heim: 'image/heic', heis: 'image/heic', mif1: 'image/heif', msf1: 'image/heif',
+  avif: 'image/avif', avis: 'image/avif',
+};
+
+// The image type from a file's first bytes (16 are enough), for uploads whose
+// MIME type and extension say nothing. Only formats that can carry camera
+// metadata; null for anything else.
+export function imageTypeFromBytes(bytes: Uint8Array): string | null {
+  const ascii = (start: number, end: number) => String.fromCharCode(...bytes.subarray(start, end));
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'image/jpeg';
+  if (ascii(0, 8) === '\x89PNG\r\n\x1a\n') return 'image/png';
+  if (ascii(0, 4) === 'GIF8') return 'image/gif';
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP') return 'image/webp';
+  if (ascii(0, 4) === 'II*\0' || ascii(0, 4) === 'MM\0*') return 'image/tiff';
+  if (ascii(4, 8) === 'ftyp') return ISO_MEDIA_BRANDS[ascii(8, 12)] ?? null;
+  return null;
+}
+
+// Every storage object behind a media_files row (the file, its renditions and
+// any kept original), for removing them together
+export function mediaObjectPaths(file: { file_path: string } & Renditions) {
+  return [file.file_path, file.thumbnail_path, file.medium_path, file.original_path].filter((path): path is string => !!path);
+}
+
+export async function signMediaFiles<T extends { file_path: string } & Renditions>(supabase: SupabaseClient, files: T[]) {
+  if (files.length === 0) return [];
+  const paths = files.flatMap(mediaObjectPaths);
+  const { data, error } = await supabase.storage
+    .from(MEDIA_BUCKET)
+    .createSignedUrls(paths, MEDIA_URL_TTL_SECONDS);
+  if (error) throw new Error(error.message);
+  const urls = new Map(data.map(signed => [signed.path, signed.error ? null : signed.signedUrl]));
+  return files.map(file => {
+    const url = urls.get(file.file_path) ?? null;
+    return {
+      ...file,
+      url,
+      thumbnail_url: (file.thumbnail_path && urls.get(file.thumbnail_path)) || url,
+      medium_url: (file.medium_path && urls.get(file.medium_path)) || url,
+      original_url: (file.original_path && urls.get(file.original_path)) || null,
+    };
+  });
+}
+
+// The stable link to embed in a note's Markdown: Storage's authenticated
+// object URL, which the app swaps for a signed URL when rendering
+export function mediaEmbedUrl(filePath: string) {
+  return `${process.env.NEXT_PUBLIC_SUPABASE_URL}/storage/v1/object/authenticated/${MEDIA_BUCKET}/${filePath}`;
+}
+
+// The object path behind a Storage URL for this bucket. Notes imported while
+// the bucket was public embed /object/public/ URLs, which resolve the same way.
+export function mediaPathFromUrl(url: string): string | null {
+  const match = url.match(new RegExp(`/storage/v1/object/(?:public|authenticated|sign)/${MEDIA_BUCKET}/([^?#]+)`));
+  if (!match) return null;
+  try {
+    return decodeURIComponent(match[1]);
+  } catch {
+    return match[1];
+  }
+}
+
+// An image src from note Markdown, pointed at a signed URL when it is one of
+// our attachments; null when it is one the viewer can't be given
+export function resolveMediaSrc(src: string, urls: Map<string, string>): string | null {
+  const path = mediaPathFromUrl(src);
+  return path ? urls.get(path) ?? null : src;
+}
+
+export type MediaQuery = { postIds: string[] } | { secret: string };
+
+// Browser side: fetch signed URLs for the caller's posts, or for a shared post
+export async function fetchMediaUrls(query: MediaQuery, accessToken?: string) {
+  const params = 'secret' in query
+    ? new URLSearchParams({ secret: query.secret })
+    : new URLSearchParams({ post_id: query.postIds.join(',') });
+  const res = await fetch(`/api/media?${params}`, {
+    headers: accessToken ? { Authorization: `Bearer ${accessToken}` } : {},
+  });
+  const json = await res.json();
+  if (!res.ok) throw new Error(json.error ?? `Could not load attachments (${res.status})`);
+  return json as { expires_at: string; files: SignedMediaFile[] };
+}
@@ -0,0 +1,24 @@
+// Page citations in attachment summaries. summarize-document asks the model to
+// cite pages as "(p. 4)" or "(pp. 4-6)"; linkPageCitations turns them into
+// links to the summarized PDF at that page, so a claim can be checked at its source.
+
+// A single citation inside the parentheses: "p. 4", "pp. 4-6" or a bare "7"
+// after a comma, as in "(p. 4, 7)" or "(pp. 4-6; p. 9)"
+const CITATION = String.raw`(?:pp?\.\s*)?\d+(?:\s*[-–]\s*\d+)?`;
+const CITATION_GROUP = new RegExp(String.raw`\((pp?\.\s*\d+(?:\s*[-–]\s*\d+)?(?:\s*[,;]\s*${CITATION})*)\)`, 'g');
+const CITATION_PART = new RegExp(CITATION, 'g');
+
+// Rewrite each cited page of a Markdown summary as a link; a range links to its first page.
+// Code spans and existing links are left alone.
+export function linkPageCitations(markdown: string, pageHref: (page: number) => string): string {
+  return markdown
+    .split(/(`[^`]*`|\[[^\]]*\]\([^)]*\))/)
+    .map((segment, i) => i % 2 === 1 ? segment : segment.replace(CITATION_GROUP, (_, citations: string) => {
+      const linked = citations.replace(CITATION_PART, citation => {
+        const page = Number(citation.match(/\d+/)![0]);
+        return page > 0 ? `[${citation}](<${pageHref(page)}>)` : citation;
+      });
+      return `(${linked})`;
+    }))
+    .join('');
+}
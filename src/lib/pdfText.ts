@@ -0,0 +1,36 @@
+// The library entry point: pdf-parse's index.js parses a bundled test PDF when
+// it thinks it isn't being required
+import pdf, { type PageData } from 'pdf-parse/lib/pdf-parse.js';
+
+// Text extraction for PDF attachments (the pdf entry in src/lib/extractors.ts).
+
+// Pages are joined with a form feed, so a character offset maps back to a page
+export const PAGE_BREAK = '\f';
+
+// Lines are rebuilt from the y position of each text item, like pdf-parse's own renderer
+async function renderPage(pageData: PageData) {
+  const { items } = await pageData.getTextContent({ normalizeWhitespace: true });
+  let text = '';
+  let lastY: number | undefined;
+  for (const item of items) {
+    if (lastY !== undefined && lastY !== item.transform[5]) text += '\n';
+    text += item.str;
+    lastY = item.transform[5];
+  }
+  return text;
+}
+
+export async function extractPdfText(data: Buffer): Promise<{ pages: string[]; text: string }> {
+  // pdf-parse renders pages one after another, so they arrive in order
+  const pages: string[] = [];
+  await pdf(data, {
+    pagerender: async pageData => {
+      const text = await renderPage(pageData);
+      pages.push(text);
+      return text;
+    },
+  });
+  // Postgres text can't hold NUL characters
+  const clean = pages.map(page => page.replace(/\u0000/g, '').trim());
+  return { pages: clean, text: clean.join(PAGE_BREAK) };
+}
@@ -0,0 +1,64 @@
+// Helpers for the inline PDF viewer (src/app/PdfViewer.tsx): deep links and
+// text search. Kept free of pdf.js so they run anywhere.
+
+// ── Deep links ──────────────────────────────────────────────────────────────
+// "#page=4" opens the post's first PDF at page 4; "#pdf=<media id>&page=4"
+// picks one when a post has several.
+
+export type PdfLocation = { pdf: string | null; page: number };
+
+export function parsePdfHash(hash: string): PdfLocation | null {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const page = Number(params.get('page'));
+  if (!Number.isInteger(page) || page < 1) return null;
+  return { pdf: params.get('pdf'), page };
+}
+
+export function pdfHash(pdf: string, page: number) {
+  return `#pdf=${encodeURIComponent(pdf)}&page=${page}`;
+}
+
+// ── Search ──────────────────────────────────────────────────────────────────
+
+// A page's text as one string, remembering where each pdf.js text item starts
+// so matches can be mapped back onto the page
+export type PageText = { text: string; starts: number[] };
+
+export type PdfMatch = { page: number; start: number; end: number };
+
+export function pageText(items: { str: string; hasEOL?: boolean }[]): PageText {
+  let text = '';
+  const starts: number[] = [];
+  for (const item of items) {
+    starts.push(text.length);
+    text += item.str + (item.hasEOL ? ' ' : '');
+  }
+  return { text, starts };
+}
+
+// Case-insensitive, with runs of whitespace matching any whitespace
+export function findMatches(pages: Map<number, PageText>, query: string): PdfMatch[] {
+  const words = query.trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return [];
+  const pattern = new RegExp(words.map(w => w.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('\\s+'), 'gi');
+  const matches: PdfMatch[] = [];
+  for (const [page, { text }] of Array.from(pages.entries()).sort(([a], [b]) => a - b)) {
+    for (const m of text.matchAll(pattern)) {
+      const start = m.index ?? 0;
+      matches.push({ page, start, end: start + m[0].length });
+    }
+  }
+  return matches;
+}
+
+// The parts of each text item a match covers, as [item index, from, to] character offsets
+export function matchSpans(page: PageText, match: Pick<PdfMatch, 'start' | 'end'>): [number, number, number][] {
+  const spans: [number, number, number][] = [];
+  page.starts.forEach((start, i) => {
+    const end = i + 1 < page.starts.length ? page.starts[i + 1] : page.text.length;
+    const from = Math.max(match.start, start);
+    const to = Math.min(match.end, end);
+    if (from < to) spans.push([i, from - start, to - start]);
+  });
+  return spans;
+}
@@ -0,0 +1,33 @@
+// Keyset cursor over posts ordered newest first, for GET /api/posts and the
+// summary backfill. Cursors are opaque to clients: base64url-encoded
+// [created_at, id] of the last post on the previous page. The id breaks ties
+// between posts created in the same instant so no row is skipped or repeated
+// across pages.
+
+export type PostCursor = { createdAt: string; id: string };
+
+export function encodePostCursor(post: { created_at: string; id: string }) {
+  return Buffer.from(JSON.stringify([post.created_at, post.id])).toString('base64url');
+}
+
+// Both values end up inside a PostgREST filter (afterPostCursor), so anything
+// but the timestamptz and uuid formats Postgres hands out is rejected. The
+// timestamp keeps its microseconds, which a round trip through Date would drop.
+const TIMESTAMP = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d{1,6})?(Z|[+-]\d{2}(:\d{2})?)$/;
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function decodePostCursor(cursor: string): PostCursor | null {
+  try {
+    const [createdAt, id] = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+    if (typeof createdAt !== 'string' || typeof id !== 'string') return null;
+    if (!TIMESTAMP.test(createdAt) || Number.isNaN(Date.parse(createdAt)) || !UUID.test(id)) return null;
+    return { createdAt, id };
+  } catch {
+    return null;
+  }
+}
+
+// PostgREST or() filter for the posts after the cursor
+export function afterPostCursor(cursor: PostCursor) {
+  return `created_at.lt."${cursor.createdAt}",and(created_at.eq."${cursor.createdAt}",id.lt.${cursor.id})`;
+}
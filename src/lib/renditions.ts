@@ -0,0 +1,98 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import sharp from 'sharp';
+import { MEDIA_BUCKET } from '@/lib/media';
+
+// Smaller copies of uploaded images, so the feed and post pages don't load
+// multi-megabyte phone photos (see 20261016_image_renditions.sql). Each is a
+// WebP stored next to the original and recorded on its media_files row.
+
+export const RENDITIONS = {
+  // Feed cards show up to four of these in a row
+  thumbnail: { size: 320, quality: 70 },
+  // Post and share pages, which are at most ~800px wide (x1.5 for sharp screens)
+  medium: { size: 1280, quality: 80 },
+} as const;
+
+export type RenditionName = keyof typeof RENDITIONS;
+
+const RENDITION_NAMES = Object.keys(RENDITIONS) as RenditionName[];
+
+export function renditionPath(filePath: string, name: RenditionName) {
+  return `${filePath}.${name}.webp`;
+}
+
+// Fit inside a size x size box, never upscaled, turned upright per the EXIF
+// orientation (which the WebP copies don't carry)
+export async function renderRenditions(data: Buffer): Promise<Record<RenditionName, Buffer>> {
+  const rendered = await Promise.all(RENDITION_NAMES.map(name => {
+    const { size, quality } = RENDITIONS[name];
+    return sharp(data)
+      .rotate()
+      .resize({ width: size, height: size, fit: 'inside', withoutEnlargement: true })
+      .webp({ quality })
+      .toBuffer();
+  }));
+  return Object.fromEntries(RENDITION_NAMES.map((name, i) => [name, rendered[i]])) as Record<RenditionName, Buffer>;
+}
+
+// Create the renditions of a post's images that haven't been processed yet,
+// or only of mediaIds when given (an upload handles just its own files, so
+// parallel uploads don't work on each other's). Runs under the caller's RLS,
+// so only the post's owner can do it. An image that can't be resized is still
+// marked as done (with no renditions, so the original is shown) so it isn't
+// retried on every call.
+export async function createPostRenditions(
+  supabase: SupabaseClient,
+  postId: string,
+  mediaIds?: string[]
+): Promise<{ created: number; failed: number }> {
+  let query = supabase
+    .from('media_files')
+    .select('id, file_path, file_type')
+    .eq('post_id', postId)
+    .like('file_type', 'image/%')
+    .is('renditions_at', null);
+  if (mediaIds) query = query.in('id', mediaIds);
+  const { data: files, error } = await query;
+  if (error) throw new Error(error.message);
+
+  let created = 0;
+  let failed = 0;
+  for (const file of files ?? []) {
+    const paths: Record<RenditionName, string | null> = { thumbnail: null, medium: null };
+    try {
+      const { data: blob, error: downloadError } = await supabase.storage.from(MEDIA_BUCKET).download(file.file_path);
+      if (downloadError || !blob) throw new Error(downloadError?.message ?? 'download failed');
+      const rendered = await renderRenditions(Buffer.from(await blob.arrayBuffer()));
+      for (const name of RENDITION_NAMES) {
+        const path = renditionPath(file.file_path, name);
+        const { error: uploadError } = await supabase.storage
+          .from(MEDIA_BUCKET)
+          .upload(path, rendered[name], { contentType: 'image/webp', upsert: true });
+        if (uploadError) throw new Error(uploadError.message);
+        paths[name] = path;
+      }
+      created++;
+    } catch (err) {
+      console.error(`[renditions] ${file.file_path}:`, err);
+      failed++;
+    }
+    // A concurrent backfill may have finished this file first; keep its paths
+    const { error: updateError } = await supabase
+      .from('media_files')
+      .update({ thumbnail_path: paths.thumbnail, medium_path: paths.medium, renditions_at: new Date().toISOString() })
+      .eq('id', file.id)
+      .is('renditions_at', null);
+    if (updateError) throw new Error(updateError.message);
+  }
+  return { created, failed };
+}
+
+// For after(): renditions must never fail the upload that triggered them
+export async function createPostRenditionsQuietly(supabase: SupabaseClient, postId: string, mediaIds?: string[]) {
+  try {
+    await createPostRenditions(supabase, postId, mediaIds);
+  } catch (err) {
+    console.error(`[renditions] post ${postId}:`, err);
+  }
+}
@@ -0,0 +1,169 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { searchRpcFilters, type SearchQuery } from '@/lib/searchQuery';
+import { expandSynonyms, type SynonymDictionary } from '@/lib/synonyms';
+
+// Ranked full-text search via the search_posts RPC, shared by the API route
+// and the home feed so both order and highlight results the same way.
+
+export type SearchSort = 'relevance' | 'newest';
+export const SEARCH_SORTS: SearchSort[] = ['relevance', 'newest'];
+
+export function parseSearchSort(value: string | null | undefined): SearchSort | null {
+  if (!value) return 'relevance';
+  return SEARCH_SORTS.includes(value as SearchSort) ? (value as SearchSort) : null;
+}
+
+// ts_headline wraps matched words in these (see search_posts)
+const HIGHLIGHT_START = '\u0002';
+const HIGHLIGHT_END = '\u0003';
+
+export type SearchMatchSource = 'note' | 'summary' | 'attachment';
+
+export type SearchHit = {
+  id: string;
+  created_at: string;
+  updated_at: string;
+  content: string;
+  tags: string[] | null;
+  is_starred: boolean;
+  user_id: string;
+  rank: number;
+  snippet: string;
+  // Where the match was: the note itself, its PDF summary or an attachment's text
+  match_source: SearchMatchSource;
+  // The attachment matched, when match_source is 'attachment'
+  match_file_name: string | null;
+  // Found by the trigram fallback rather than an exact full-text match
+  fuzzy?: boolean;
+};
+
+export type SearchOptions = {
+  query: SearchQuery;
+  sort?: SearchSort;
+  limit?: number;
+  offset?: number;
+  // Needed for is:mine
+  userId?: string;
+  // Abbreviations to widen the free text with (see loadSynonyms)
+  synonyms?: SynonymDictionary;
+};
+
+// When the exact search runs out with fewer hits than this, search_posts is
+// retried with p_fuzzy so misspelled drug and disease names still find notes.
+export const FUZZY_FALLBACK_MIN_HITS = 3;
+
+async function runSearch(supabase: SupabaseClient, options: SearchOptions, fuzzy: boolean) {
+  // The fuzzy pass works word by word, so it gets the text as typed
+  const expanded = options.synonyms && !fuzzy ? expandSynonyms(options.query.text, options.synonyms) : null;
+  const withSynonyms = expanded && expanded.groups.length > 0;
+  const { data, error } = await supabase.rpc('search_posts', {
+    p_query: options.query.text,
+    p_sort: options.sort ?? 'relevance',
+    p_limit: options.limit ?? 20,
+    p_offset: options.offset ?? 0,
+    ...searchRpcFilters(options.query, options.userId),
+    p_fuzzy: fuzzy,
+    p_synonym_text: withSynonyms ? expanded.text : null,
+    p_synonym_groups: withSynonyms ? expanded.groups : null,
+  });
+  return { hits: (data ?? []) as SearchHit[], error };
+}
+
+// Free-text search; callers list posts with applySearchFilters when query.text is empty.
+// fallback is true when exact matches were scarce: fuzzy hits (if any) follow the
+// exact ones on this single page, and callers should offer suggestSearches.
+export async function searchPosts(supabase: SupabaseClient, options: SearchOptions) {
+  const limit = options.limit ?? 20;
+  const exact = await runSearch(supabase, options, false);
+  const fallback = !exact.error
+    && (options.offset ?? 0) === 0
+    && exact.hits.length < Math.min(FUZZY_FALLBACK_MIN_HITS, limit);
+  if (!fallback) return { ...exact, fallback };
+
+  // Best effort: a failing fuzzy search still leaves the exact results
+  const fuzzy = await runSearch(supabase, options, true);
+  const seen = new Set(exact.hits.map(hit => hit.id));
+  const extra = fuzzy.hits.filter(hit => !seen.has(hit.id)).map(hit => ({ ...hit, fuzzy: true }));
+  return { hits: [...exact.hits, ...extra].slice(0, limit), error: null, fallback };
+}
+
+type SimilarTerm = { word: string; known: boolean; suggestion: string; similarity: number };
+
+const WORD = /[\p{L}\p{N}]+/gu;
+const OPERATOR_TOKEN = /^-?[a-z]+:/i;
+
+// "Did you mean" queries built from words in our own notes: each word that
+// doesn't appear in any note is swapped for its closest spellings. Operators
+// in the original query are kept as typed.
+export async function suggestSearches(supabase: SupabaseClient, input: string, query: SearchQuery, max = 3): Promise<string[]> {
+  const words = query.text
+    .split(/\s+/)
+    .filter(token => token && !token.startsWith('-'))
+    .flatMap(token => token.toLowerCase().match(WORD) ?? []);
+  if (words.length === 0) return [];
+
+  const { data, error } = await supabase.rpc('similar_search_terms', { p_words: words, p_limit: max });
+  if (error || !data) return [];
+
+  const corrections = new Map<string, string[]>();
+  for (const term of data as SimilarTerm[]) {
+    if (term.known) continue;
+    corrections.set(term.word, [...(corrections.get(term.word) ?? []), term.suggestion]);
+  }
+  if (corrections.size === 0) return [];
+
+  const suggestions = new Set<string>();
+  for (let n = 0; n < max; n++) {
+    const rewritten = input
+      .split(/(\s+)/)
+      .map(token => OPERATOR_TOKEN.test(token) ? token : token.replace(WORD, word => {
+        const options = corrections.get(word.toLowerCase());
+        return options ? options[Math.min(n, options.length - 1)] : word;
+      }))
+      .join('');
+    if (rewritten !== input) suggestions.add(rewritten);
+  }
+  return Array.from(suggestions);
+}
+
+// Search results are ranked rather than ordered by time, so their cursor is
+// just the offset of the next page.
+export function encodeSearchCursor(offset: number) {
+  return Buffer.from(JSON.stringify({ offset })).toString('base64url');
+}
+
+export function decodeSearchCursor(cursor: string): number | null {
+  try {
+    const { offset } = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+    return Number.isInteger(offset) && offset >= 0 ? offset : null;
+  } catch {
+    return null;
+  }
+}
+
+export type SnippetPart = { text: string; match: boolean };
+
+export function splitSnippet(snippet: string): SnippetPart[] {
+  const parts: SnippetPart[] = [];
+  for (const [i, chunk] of snippet.split(new RegExp(`[${HIGHLIGHT_START}${HIGHLIGHT_END}]`)).entries()) {
+    if (chunk) parts.push({ text: chunk, match: i % 2 === 1 });
+  }
+  return parts;
+}
+
+// The distinct words ts_headline matched, e.g. "infections" for a search on "infection"
+export function snippetMatches(snippet: string): string[] {
+  return Array.from(new Set(splitSnippet(snippet).filter(p => p.match).map(p => p.text.toLowerCase())));
+}
+
+const HTML_ESCAPES: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' };
+
+// HTML-safe snippet for API clients: note text is escaped, matches are wrapped in <mark>
+export function snippetToHtml(snippet: string): string {
+  return splitSnippet(snippet)
+    .map(({ text, match }) => {
+      const escaped = text.replace(/[&<>"']/g, c => HTML_ESCAPES[c]);
+      return match ? `<mark>${escaped}</mark>` : escaped;
+    })
+    .join('');
+}
@@ -0,0 +1,150 @@
+// The search box query language, parsed once here and used by the home feed,
+// GET /api/posts (and so the CLI).
+//
+//   tag:cardiology  -tag:peds  tag:"infectious disease"
+//   is:starred  is:mine  has:pdf  has:image
+//   after:2025-01-01 (inclusive)  before:2025-02-01 (exclusive)
+//   "quoted phrase"  plain words  -excluded
+//
+// Everything that isn't an operator is left as free text for websearch_to_tsquery,
+// which already understands quoted phrases and -negation.
+
+export type SearchQuery = {
+  text: string;
+  tags: string[];
+  excludeTags: string[];
+  starred: boolean;
+  mine: boolean;
+  hasPdf: boolean;
+  hasImage: boolean;
+  before: string | null;
+  after: string | null;
+  errors: string[];
+};
+
+export function emptySearchQuery(): SearchQuery {
+  return {
+    text: '',
+    tags: [],
+    excludeTags: [],
+    starred: false,
+    mine: false,
+    hasPdf: false,
+    hasImage: false,
+    before: null,
+    after: null,
+    errors: [],
+  };
+}
+
+// Split on whitespace, keeping "quoted phrases" (including tag:"two words") together
+function tokenize(input: string): string[] {
+  return input.match(/-?[a-z]+:"[^"]*"?|"[^"]*"?|\S+/gi) ?? [];
+}
+
+function unquote(value: string) {
+  return value.replace(/^"|"$/g, '').trim();
+}
+
+// Date.parse rolls 2025-02-31 over to March 3rd, which Postgres then rejects,
+// so the date has to come back out with the same year, month and day
+function parseDate(value: string) {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return null;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value ? value : null;
+}
+
+export function parseSearchQuery(input: string): SearchQuery {
+  const query = emptySearchQuery();
+  const text: string[] = [];
+
+  for (const token of tokenize(input)) {
+    const match = token.match(/^(-?)(tag|is|has|before|after):(.*)$/i);
+    if (!match) {
+      text.push(token);
+      continue;
+    }
+
+    const [, negated, key, rawValue] = match;
+    const operator = key.toLowerCase();
+    const value = unquote(rawValue);
+
+    if (!value) {
+      query.errors.push(`${operator}: needs a value`);
+      continue;
+    }
+    if (negated && operator !== 'tag') {
+      query.errors.push(`-${operator}: is not supported`);
+      continue;
+    }
+
+    switch (operator) {
+      case 'tag':
+        (negated ? query.excludeTags : query.tags).push(value);
+        break;
+      case 'is':
+        if (value.toLowerCase() === 'starred') query.starred = true;
+        else if (value.toLowerCase() === 'mine') query.mine = true;
+        else query.errors.push(`Unknown is:${value} (use is:starred or is:mine)`);
+        break;
+      case 'has':
+        if (value.toLowerCase() === 'pdf') query.hasPdf = true;
+        else if (['image', 'images'].includes(value.toLowerCase())) query.hasImage = true;
+        else query.errors.push(`Unknown has:${value} (use has:pdf or has:image)`);
+        break;
+      case 'before':
+      case 'after': {
+        const date = parseDate(value);
+        if (!date) query.errors.push(`${operator}: expects a date like 2025-01-31`);
+        else query[operator] = date;
+        break;
+      }
+    }
+  }
+
+  query.text = text.join(' ');
+  return query;
+}
+
+// The subset of the PostgREST filter builder applySearchFilters needs
+interface Filterable<Q> {
+  eq(column: string, value: unknown): Q;
+  lt(column: string, value: unknown): Q;
+  gte(column: string, value: unknown): Q;
+  contains(column: string, value: string[]): Q;
+  or(filters: string): Q;
+}
+
+function postgrestArray(values: string[]) {
+  return `{${values.map(v => `"${v.replace(/(["\\])/g, '\\$1')}"`).join(',')}}`;
+}
+
+// Apply the operator filters (not the free text) to a posts query. has_pdf and
+// has_image are computed columns on posts (see 20261006_search_operators.sql).
+export function applySearchFilters<Q extends Filterable<Q>>(builder: Q, query: SearchQuery, userId?: string): Q {
+  let q = builder;
+  if (query.mine && userId) q = q.eq('user_id', userId);
+  if (query.starred) q = q.eq('is_starred', true);
+  if (query.tags.length > 0) q = q.contains('tags', query.tags);
+  // Untagged posts have no tag to exclude, as in search_posts
+  if (query.excludeTags.length > 0) q = q.or(`tags.is.null,tags.not.ov.${postgrestArray(query.excludeTags)}`);
+  if (query.hasPdf) q = q.eq('has_pdf', true);
+  if (query.hasImage) q = q.eq('has_image', true);
+  if (query.after) q = q.gte('created_at', query.after);
+  if (query.before) q = q.lt('created_at', query.before);
+  return q;
+}
+
+// The same filters as arguments to the search_posts RPC
+export function searchRpcFilters(query: SearchQuery, userId?: string) {
+  return {
+    p_user_id: query.mine && userId ? userId : null,
+    p_starred: query.starred,
+    p_tags: query.tags.length > 0 ? query.tags : null,
+    p_exclude_tags: query.excludeTags.length > 0 ? query.excludeTags : null,
+    p_has_pdf: query.hasPdf,
+    p_has_image: query.hasImage,
+    p_after: query.after,
+    p_before: query.before,
+  };
+}
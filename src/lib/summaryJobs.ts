@@ -0,0 +1,54 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+// Attachment summaries are durable jobs (summary_jobs, see 20261011_summary_jobs.sql)
+// run by the summarize-document edge function. Queuing is what matters: if
+// the immediate run never happens, the drain cron picks the job up, and
+// failures are retried with backoff. posts.summary only holds the text.
+
+export type SummaryJobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+export type SummaryJob = {
+  id: string;
+  post_id: string;
+  file_path: string;
+  status: SummaryJobStatus;
+  attempts: number;
+  max_attempts: number;
+  last_error: string | null;
+  run_after: string;
+  // The summary template the last attempt used (see summaryTemplates.ts)
+  template_name: string | null;
+  updated_at: string;
+};
+
+export const SUMMARY_JOB_COLUMNS = 'id, post_id, file_path, status, attempts, max_attempts, last_error, run_after, template_name, updated_at';
+
+// What the post page shows for a post's summary
+export type SummaryState = 'none' | 'pending' | 'failed' | 'succeeded';
+
+export function summaryState(jobs: Pick<SummaryJob, 'status'>[]): SummaryState {
+  if (jobs.some(job => job.status === 'queued' || job.status === 'running')) return 'pending';
+  if (jobs.some(job => job.status === 'failed')) return 'failed';
+  return jobs.length > 0 ? 'succeeded' : 'none';
+}
+
+export async function enqueueSummary(supabase: SupabaseClient, postId: string, filePath: string) {
+  const { data, error } = await supabase.rpc('enqueue_summary_job', {
+    p_post_id: postId,
+    p_file_path: filePath,
+  });
+  if (error) throw new Error(error.message);
+  return data as string;
+}
+
+// Re-queue a post's failed jobs (and queue attachments that never had one); returns the job ids
+export async function retrySummaries(supabase: SupabaseClient, postId: string) {
+  const { data, error } = await supabase.rpc('retry_summary_jobs', { p_post_id: postId });
+  if (error) throw new Error(error.message);
+  return (data ?? []) as string[];
+}
+
+// Ask the edge function to run a queued job now rather than on the next drain
+export function runSummaryJob(supabase: SupabaseClient, jobId: string) {
+  return supabase.functions.invoke('summarize-document', { body: { jobId } });
+}
@@ -0,0 +1,43 @@
+// Summary templates (summary_templates, see 20261013_summary_templates.sql):
+// named instructions the summarize-document edge function follows instead of
+// its generic format. A job uses the template sharing one of the post's tags,
+// else the user's default. Built-in templates have no user_id; saving a
+// template under a built-in's name replaces it for that user.
+
+export type SummaryTemplate = {
+  id: string;
+  user_id: string | null;
+  name: string;
+  instructions: string;
+  tags: string[];
+  is_default: boolean;
+  updated_at: string;
+};
+
+export const SUMMARY_TEMPLATE_COLUMNS = 'id, user_id, name, instructions, tags, is_default, updated_at';
+
+// Keep in sync with the checks on summary_templates
+export const MAX_TEMPLATE_NAME_LENGTH = 80;
+export const MAX_TEMPLATE_INSTRUCTIONS_LENGTH = 4000;
+
+export function normalizeTemplateName(name: unknown): string | null {
+  if (typeof name !== 'string') return null;
+  const normalized = name.replace(/\s+/g, ' ').trim();
+  return normalized && normalized.length <= MAX_TEMPLATE_NAME_LENGTH ? normalized : null;
+}
+
+export function normalizeTemplateInstructions(instructions: unknown): string | null {
+  if (typeof instructions !== 'string') return null;
+  const normalized = instructions.trim();
+  return normalized && normalized.length <= MAX_TEMPLATE_INSTRUCTIONS_LENGTH ? normalized : null;
+}
+
+// Tags are matched case-insensitively against post tags, so they're stored lowercase
+export function normalizeTemplateTags(tags: unknown): string[] {
+  if (!Array.isArray(tags)) return [];
+  const cleaned = tags
+    .filter((t): t is string => typeof t === 'string')
+    .map(t => t.trim().replace(/^[@#]/, '').toLowerCase())
+    .filter(Boolean);
+  return Array.from(new Set(cleaned));
+}
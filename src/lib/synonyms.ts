@@ -0,0 +1,145 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+// Medical abbreviations and synonyms for search. A query word found here is
+// widened to match its expansions too ("MI" → MI or "myocardial infarction").
+// Users extend this with their own entries on the Settings page (search_synonyms).
+
+export type SynonymDictionary = Map<string, string[]>;
+
+export type UserSynonym = {
+  id: string;
+  term: string;
+  expansions: string[];
+  created_at: string;
+};
+
+export const SYNONYM_COLUMNS = 'id, term, expansions, created_at';
+
+// Keys are lowercase single words
+export const BUNDLED_SYNONYMS: Record<string, string[]> = {
+  // cardiology
+  mi: ['myocardial infarction', 'heart attack'],
+  stemi: ['st elevation myocardial infarction'],
+  nstemi: ['non st elevation myocardial infarction'],
+  acs: ['acute coronary syndrome'],
+  cad: ['coronary artery disease'],
+  chf: ['congestive heart failure', 'heart failure'],
+  hf: ['heart failure'],
+  hfref: ['heart failure with reduced ejection fraction'],
+  hfpef: ['heart failure with preserved ejection fraction'],
+  afib: ['atrial fibrillation'],
+  af: ['atrial fibrillation'],
+  aflutter: ['atrial flutter'],
+  svt: ['supraventricular tachycardia'],
+  vt: ['ventricular tachycardia'],
+  vf: ['ventricular fibrillation'],
+  htn: ['hypertension'],
+  ef: ['ejection fraction'],
+  lvef: ['left ventricular ejection fraction'],
+  ecg: ['electrocardiogram', 'ekg'],
+  ekg: ['electrocardiogram', 'ecg'],
+  pci: ['percutaneous coronary intervention'],
+  cabg: ['coronary artery bypass graft'],
+  // pulmonology
+  copd: ['chronic obstructive pulmonary disease'],
+  pe: ['pulmonary embolism'],
+  dvt: ['deep vein thrombosis'],
+  vte: ['venous thromboembolism'],
+  ards: ['acute respiratory distress syndrome'],
+  osa: ['obstructive sleep apnea'],
+  cap: ['community acquired pneumonia'],
+  // neurology
+  cva: ['stroke', 'cerebrovascular accident'],
+  tia: ['transient ischemic attack'],
+  ms: ['multiple sclerosis'],
+  // endocrine & renal
+  dm: ['diabetes mellitus', 'diabetes'],
+  t1dm: ['type 1 diabetes'],
+  t2dm: ['type 2 diabetes'],
+  dka: ['diabetic ketoacidosis'],
+  aki: ['acute kidney injury'],
+  ckd: ['chronic kidney disease'],
+  esrd: ['end stage renal disease'],
+  uti: ['urinary tract infection'],
+  // gastroenterology
+  gerd: ['gastroesophageal reflux disease', 'reflux'],
+  ibd: ['inflammatory bowel disease'],
+  ibs: ['irritable bowel syndrome'],
+  gi: ['gastrointestinal'],
+  // drugs
+  nsaid: ['nonsteroidal anti inflammatory drug'],
+  nsaids: ['nonsteroidal anti inflammatory drugs'],
+  ssri: ['selective serotonin reuptake inhibitor'],
+  ace: ['angiotensin converting enzyme'],
+  arb: ['angiotensin receptor blocker'],
+  sglt2: ['sodium glucose cotransporter 2'],
+  glp1: ['glucagon like peptide 1'],
+  doac: ['direct oral anticoagulant'],
+  abx: ['antibiotics'],
+  // general
+  sob: ['shortness of breath', 'dyspnea'],
+  ros: ['review of systems'],
+  hpi: ['history of present illness'],
+  bp: ['blood pressure'],
+  hr: ['heart rate'],
+  rsv: ['respiratory syncytial virus'],
+  uri: ['upper respiratory infection'],
+};
+
+// A term must be a single word so it can be matched against query words
+export function normalizeSynonymTerm(term: string): string | null {
+  const normalized = term.trim().toLowerCase();
+  return /^[\p{L}\p{N}][\p{L}\p{N}'-]*$/u.test(normalized) ? normalized : null;
+}
+
+export function normalizeExpansions(expansions: unknown): string[] {
+  if (!Array.isArray(expansions)) return [];
+  const cleaned = expansions
+    .filter((e): e is string => typeof e === 'string')
+    .map(e => e.replace(/["\s]+/g, ' ').trim().toLowerCase())
+    .filter(Boolean);
+  return Array.from(new Set(cleaned));
+}
+
+// Bundled entries plus the user's own; a user entry adds to a bundled one
+export function buildSynonymDictionary(entries: { term: string; expansions: string[] }[] = []): SynonymDictionary {
+  const dictionary: SynonymDictionary = new Map(Object.entries(BUNDLED_SYNONYMS));
+  for (const { term, expansions } of entries) {
+    dictionary.set(term, Array.from(new Set([...(dictionary.get(term) ?? []), ...expansions])));
+  }
+  return dictionary;
+}
+
+export async function loadSynonyms(supabase: SupabaseClient, userId?: string): Promise<SynonymDictionary> {
+  if (!userId) return buildSynonymDictionary();
+  // Missing user entries shouldn't break search, so errors fall back to the bundled list
+  const { data } = await supabase.from('search_synonyms').select('term, expansions').eq('user_id', userId);
+  return buildSynonymDictionary(data ?? []);
+}
+
+export type ExpandedQuery = {
+  // The free text without the expanded words, for websearch_to_tsquery
+  text: string;
+  // Each expanded word followed by its expansions
+  groups: string[][];
+};
+
+// Split free text into the words that have synonyms and the rest, so
+// search_posts can match each word or one of its expansions and still require
+// every other word: "afib anticoagulation" becomes (afib | "atrial
+// fibrillation") & anticoagulation (see synonym_tsquery). Quoted phrases,
+// -excluded words and words joined by the "or" keyword are left in the text.
+export function expandSynonyms(text: string, dictionary: SynonymDictionary): ExpandedQuery {
+  const tokens = text.match(/"[^"]*"?|\S+/g) ?? [];
+  const isOr = (token: string | undefined) => token?.toLowerCase() === 'or';
+  const rest: string[] = [];
+  const groups: string[][] = [];
+  tokens.forEach((token, i) => {
+    const expansions = token.startsWith('"') || token.startsWith('-') || isOr(token) || isOr(tokens[i - 1]) || isOr(tokens[i + 1])
+      ? undefined
+      : dictionary.get(token.replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, '').toLowerCase());
+    if (expansions && expansions.length > 0) groups.push([token, ...expansions]);
+    else rest.push(token);
+  });
+  return { text: rest.join(' '), groups };
+}
@@ -0,0 +1,47 @@
+import type { UserClient } from '@/lib/apiAuth';
+import { MEDIA_BUCKET, mediaObjectPaths } from '@/lib/media';
+
+// Posts in the trash are restorable for this long before purge-trash removes them
+export const TRASH_RETENTION_DAYS = 30;
+
+export function purgeAfter(deletedAt: string) {
+  return new Date(new Date(deletedAt).getTime() + TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+}
+
+// Permanently remove trashed posts along with their storage objects and
+// media_files rows. Ids of posts that aren't in the trash are ignored. Stops
+// at the first failure, before the posts are deleted, so nothing is left
+// behind unreferenced; calling again picks up where it stopped.
+export async function purgePosts(supabase: UserClient, postIds: string[]) {
+  const failed = (error: { message: string }) => ({ purged: [] as string[], error });
+  if (postIds.length === 0) return { purged: [] as string[], error: null };
+
+  const { data: trashed, error: fetchError } = await supabase
+    .from('posts')
+    .select('id')
+    .in('id', postIds)
+    .not('deleted_at', 'is', null);
+
+  if (fetchError) return failed(fetchError);
+  const ids = (trashed ?? []).map((p: { id: string }) => p.id);
+  if (ids.length === 0) return { purged: [] as string[], error: null };
+
+  const { data: mediaFiles, error: mediaError } = await supabase
+    .from('media_files')
+    .select('file_path, thumbnail_path, medium_path, original_path')
+    .in('post_id', ids);
+  if (mediaError) return failed(mediaError);
+
+  if (mediaFiles && mediaFiles.length > 0) {
+    const paths = mediaFiles.flatMap(mediaObjectPaths);
+    const { error: storageError } = await supabase.storage.from(MEDIA_BUCKET).remove(paths);
+    if (storageError) return failed(storageError);
+  }
+
+  // Delete media_files records, then the posts (cascade would handle this but be explicit)
+  const { error: deleteMediaError } = await supabase.from('media_files').delete().in('post_id', ids);
+  if (deleteMediaError) return failed(deleteMediaError);
+
+  const { error } = await supabase.from('posts').delete().in('id', ids);
+  return error ? failed(error) : { purged: ids, error: null };
+}
@@ -0,0 +1,28 @@
+// pdf-parse ships without types; this covers the parts src/lib/pdfText.ts uses
+declare module 'pdf-parse/lib/pdf-parse.js' {
+  interface TextItem {
+    str: string;
+    transform: number[];
+  }
+
+  export interface PageData {
+    getTextContent(options?: { normalizeWhitespace?: boolean; disableCombineTextItems?: boolean }): Promise<{ items: TextItem[] }>;
+  }
+
+  interface Options {
+    pagerender?: (pageData: PageData) => Promise<string>;
+    max?: number;
+    version?: string;
+  }
+
+  interface Result {
+    numpages: number;
+    numrender: number;
+    info: unknown;
+    metadata: unknown;
+    text: string;
+    version: string;
+  }
+
+  export default function pdf(data: Buffer, options?: Options): Promise<Result>;
+}
@@ -0,0 +1,84 @@
+import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+// Permanently removes posts that have been in the trash longer than the
+// retention window, along with their storage objects and media_files rows.
+// Scheduled daily by pg_cron (see migrations/20261004_post_trash.sql).
+
+// Keep in sync with TRASH_RETENTION_DAYS in src/lib/trash.ts
+const TRASH_RETENTION_DAYS = 30;
+const BATCH_SIZE = 100;
+
+// --- Environment Variables ---
+const supabaseUrl = Deno.env.get('SUPABASE_URL');
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+serve(async () => {
+  if (!supabaseUrl || !supabaseServiceKey) {
+    console.error('Missing environment variables (SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY)');
+    return new Response(JSON.stringify({ error: 'Internal server configuration error.' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  // Service role: purges every user's expired trash, bypassing RLS
+  const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey);
+  const cutoff = new Date(Date.now() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+  let purgedPosts = 0;
+  let removedFiles = 0;
+
+  try {
+    while (true) {
+      const { data: posts, error: fetchError } = await supabaseAdmin
+        .from('posts')
+        .select('id')
+        .lt('deleted_at', cutoff)
+        .limit(BATCH_SIZE);
+
+      if (fetchError) throw fetchError;
+      if (!posts || posts.length === 0) break;
+
+      const ids = posts.map((p: { id: string }) => p.id);
+
+      const { data: mediaFiles, error: mediaError } = await supabaseAdmin
+        .from('media_files')
+        .select('file_path, thumbnail_path, medium_path, original_path')
+        .in('post_id', ids);
+
+      if (mediaError) throw mediaError;
+
+      if (mediaFiles && mediaFiles.length > 0) {
+        // The files plus their thumbnail and medium renditions and any kept originals
+        const paths = mediaFiles.flatMap((f: { file_path: string; thumbnail_path: string | null; medium_path: string | null; original_path: string | null }) =>
+          [f.file_path, f.thumbnail_path, f.medium_path, f.original_path].filter((path): path is string => !!path)
+        );
+        const { error: storageError } = await supabaseAdmin.storage.from('post-media').remove(paths);
+        // Leave the rows in place so the next run retries the storage cleanup
+        if (storageError) throw storageError;
+        removedFiles += mediaFiles.length;
+      }
+
+      // Keep the posts too, so the next run retries with their rows still there
+      const { error: mediaDeleteError } = await supabaseAdmin.from('media_files').delete().in('post_id', ids);
+      if (mediaDeleteError) throw mediaDeleteError;
+      const { error: deleteError } = await supabaseAdmin.from('posts').delete().in('id', ids);
+      if (deleteError) throw deleteError;
+
+      purgedPosts += ids.length;
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[purge-trash] Failed after purging ${purgedPosts} posts:`, message);
+    return new Response(JSON.stringify({ error: message, purged_posts: purgedPosts, removed_files: removedFiles }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  console.log(`[purge-trash] Purged ${purgedPosts} posts and ${removedFiles} files older than ${cutoff}`);
+  return new Response(JSON.stringify({ purged_posts: purgedPosts, removed_files: removedFiles }), {
+    headers: { 'Content-Type': 'application/json' },
+  });
+});
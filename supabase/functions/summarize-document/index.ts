@@ -3,19 +3,70 @@ import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
 import OpenAI from 'https://esm.sh/openai@4';
 import type { ThreadMessage } from 'https://esm.sh/openai@4/resources/beta/threads/messages.mjs'; // Import Message type
 import { delay } from "https://deno.land/std@0.177.0/async/delay.ts"; // Import delay
+import { extractText, getDocumentProxy } from 'https://esm.sh/unpdf@0.12.1';
+import { unzipSync, strFromU8 } from 'https://esm.sh/fflate@0.8.2';
+import { crypto as stdCrypto } from 'https://deno.land/std@0.177.0/crypto/mod.ts';
+
+// Runs summary_jobs (see migrations/20261011_summary_jobs.sql): summarizes an
+// attachment (PDF, Word, slides, web page or image) into summary_jobs.summary,
+// and into posts.summary when it is the post's summary attachment. The
+// text is extracted here, split into page-anchored chunks and map-reduced
+// through chat completions, so the summary can cite pages as (p. N). Scanned
+// PDFs, which have no text layer, still go through the Assistants API
+// (OPENAI_ASSISTANT_ID). Images use the OCR text the app stored on
+// media_files. Failed attempts are recorded on the job and retried with
+// backoff by the drain cron. The summary follows the post's summary template
+// (see migrations/20261013_summary_templates.sql), picked by tag.
 
 // --- Interfaces ---
 interface RequestPayload {
-  postId: string;
-  filePath: string; // e.g., user_id/post_id/filename.pdf
-  fileType: string; // e.g., 'application/pdf'
+  jobId?: string; // run this summary_jobs row now, if it is due
+  drain?: boolean; // run every due job (sent by pg_cron)
+}
+
+interface SummaryJob {
+  id: string;
+  post_id: string;
+  user_id: string;
+  file_path: string; // e.g., user_id/post_id/filename.pdf
+  file_type: string; // e.g., 'application/pdf'
+  attempts: number;
+  max_attempts: number;
+}
+
+interface SummaryTemplate {
+  id: string;
+  name: string;
+  instructions: string;
 }
 
 // --- Environment Variables ---
 const supabaseUrl = Deno.env.get('SUPABASE_URL');
 const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY'); // Use Service Role Key
 const openaiApiKey = Deno.env.get('OPENAI_API_KEY');
+// Only needed for scanned PDFs, which have no text layer to extract
 const assistantId = Deno.env.get('OPENAI_ASSISTANT_ID');
+// Any OpenAI-compatible chat completions endpoint can do the chunked summaries
+const chatBaseUrl = Deno.env.get('SUMMARY_CHAT_BASE_URL');
+const chatModel = Deno.env.get('SUMMARY_CHAT_MODEL') ?? 'gpt-4o-mini';
+// The same settings as the app's getEmbeddingProvider (src/lib/embeddings.ts)
+const embeddingProvider = Deno.env.get('EMBEDDING_PROVIDER') ?? 'openai';
+const embeddingModel = Deno.env.get('OPENAI_EMBEDDING_MODEL') || 'text-embedding-3-small';
+
+// --- Pipeline Settings ---
+// Fewer extracted characters per page than this means a scanned (image-only) PDF
+const MIN_CHARS_PER_PAGE = 50;
+// Images with less OCR text than this are photos, not documents: nothing to summarize
+const MIN_OCR_CHARS = 200;
+// Roughly 3k tokens of document text per map step
+const CHUNK_CHARS = 12_000;
+// Chunks summarized at the same time
+const MAP_CONCURRENCY = 3;
+// Jobs run per drain call; each can take a couple of minutes
+const DRAIN_BATCH_SIZE = 3;
+// Keep in sync with EMBEDDING_DIMENSIONS and MAX_EMBEDDING_CHARS in src/lib/embeddings.ts
+const EMBEDDING_DIMENSIONS = 512;
+const MAX_EMBEDDING_CHARS = 24_000;
 
 // --- Error Handling ---
 class ApiError extends Error {
@@ -26,70 +77,199 @@ class ApiError extends Error {
   }
 }
 
-// --- Main Handler ---
-serve(async (req: Request) => {
-  // --- CORS Headers ---
-  const corsHeaders = {
-    'Access-Control-Allow-Origin': '*', // Adjust for production
-    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-    'Access-Control-Allow-Methods': 'POST, OPTIONS',
-  };
+// --- Local Extraction ---
+type Page = { number: number; text: string };
+type AttachmentKind = 'pdf' | 'docx' | 'pptx' | 'html' | 'image';
 
-  if (req.method === 'OPTIONS') {
-    return new Response('ok', { headers: corsHeaders });
-  }
+// Keep in sync with attachmentKind() in src/lib/attachmentTypes.ts
+// (`npm run check:attachment-kinds` compares them)
+const KINDS: { kind: AttachmentKind; mimeTypes: string[]; extensions: string[] }[] = [
+  { kind: 'pdf', mimeTypes: ['application/pdf'], extensions: ['pdf'] },
+  { kind: 'docx', mimeTypes: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'], extensions: ['docx'] },
+  { kind: 'pptx', mimeTypes: ['application/vnd.openxmlformats-officedocument.presentationml.presentation'], extensions: ['pptx'] },
+  { kind: 'html', mimeTypes: ['text/html', 'application/xhtml+xml'], extensions: ['html', 'htm', 'xhtml'] },
+  {
+    kind: 'image',
+    mimeTypes: ['image/png', 'image/jpeg', 'image/tiff', 'image/webp', 'image/bmp', 'image/gif'],
+    extensions: ['png', 'jpg', 'jpeg', 'tif', 'tiff', 'webp', 'bmp', 'gif'],
+  },
+];
 
-  // --- Validate Environment ---
-  if (!supabaseUrl || !supabaseServiceKey || !openaiApiKey || !assistantId) { // Check for Service Key
-    console.error('Missing environment variables (SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, OPENAI_API_KEY, OPENAI_ASSISTANT_ID)');
-    return new Response(JSON.stringify({ error: 'Internal server configuration error.' }), {
-      status: 500,
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-    });
-  }
+function attachmentKind(fileType: string, filePath: string): AttachmentKind | null {
+  const mimeType = fileType.split(';')[0].trim().toLowerCase();
+  const byType = KINDS.find(k => k.mimeTypes.includes(mimeType));
+  if (byType) return byType.kind;
+  if (mimeType && mimeType !== 'application/octet-stream') return null;
+  const extension = filePath.split('.').pop()?.toLowerCase() ?? '';
+  return KINDS.find(k => k.extensions.includes(extension))?.kind ?? null;
+}
 
-  // --- Initialize Clients ---
-  // Use Service Role Key for admin tasks like updating posts, bypassing RLS
-  const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey);
-  const openai = new OpenAI({ apiKey: openaiApiKey });
+function decodeEntities(text: string) {
+  const named: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+      const code = name[1].toLowerCase() === 'x' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return Number.isFinite(code) && code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+    }
+    return named[name.toLowerCase()] ?? entity;
+  });
+}
 
-  let openAiFileId: string | null = null;
-  let postId: string | null = null; // Declare postId here
+const toPages = (texts: string[]): Page[] =>
+  texts.map((text, i) => ({ number: i + 1, text: text.replace(/\s+/g, ' ').trim() }));
 
-  try {
-    // --- Parse Request ---
-    if (req.headers.get("content-type") !== "application/json") {
-        throw new ApiError("Expected application/json", 415);
-    }
-    const payload: RequestPayload = await req.json();
-    // Assign postId after parsing
-    postId = payload.postId;
-    const { filePath, fileType } = payload; // Keep others local
-    // const { postId, filePath, fileType } = payload; // postId is now assigned above
+// Each returns the document page by page (slides for decks, the pages Word
+// last rendered for .docx). Keep in sync with src/lib/extractors.ts
+const EXTRACTORS: Record<Exclude<AttachmentKind, 'image'>, (data: Uint8Array) => Promise<Page[]>> = {
+  async pdf(data) {
+    const pdf = await getDocumentProxy(data);
+    const { text } = await extractText(pdf, { mergePages: false });
+    return toPages(text);
+  },
+  async docx(data) {
+    const xml = unzipSync(data, { filter: file => file.name === 'word/document.xml' })['word/document.xml'];
+    if (!xml) throw new ApiError('Not a Word document (word/document.xml is missing)', 422);
+    const text = strFromU8(xml)
+      .replace(/<w:lastRenderedPageBreak\/>|<w:br [^>]*w:type="page"[^>]*\/>/g, '\f')
+      .replace(/<\/w:p>|<w:br[^>]*\/>/g, ' ')
+      .replace(/<[^>]+>/g, '');
+    return toPages(decodeEntities(text).split('\f'));
+  },
+  async pptx(data) {
+    const files = unzipSync(data, { filter: file => /^ppt\/slides\/slide\d+\.xml$/.test(file.name) });
+    const slideNumber = (name: string) => parseInt(name.match(/slide(\d+)\.xml$/)?.[1] ?? '0', 10);
+    const names = Object.keys(files).sort((a, b) => slideNumber(a) - slideNumber(b));
+    if (names.length === 0) throw new ApiError('Not a slide deck (no ppt/slides)', 422);
+    return toPages(names.map(name =>
+      decodeEntities((strFromU8(files[name]).match(/<a:t>[^<]*<\/a:t>/g) ?? []).map(run => run.slice(5, -6)).join(' '))
+    ));
+  },
+  async html(data) {
+    const html = new TextDecoder().decode(data)
+      .replace(/<!--[\s\S]*?-->/g, '')
+      .replace(/<(script|style|noscript|template|svg)\b[\s\S]*?<\/\1>/gi, '')
+      .replace(/<[^>]+>/g, ' ');
+    return toPages([decodeEntities(html)]);
+  },
+};
+
+function isScanned(pages: Page[]) {
+  const chars = pages.reduce((sum, page) => sum + page.text.length, 0);
+  return chars < MIN_CHARS_PER_PAGE * Math.max(pages.length, 1);
+}
 
-    if (!postId || !filePath || !fileType) {
-      throw new ApiError('Missing required fields: postId, filePath, fileType', 400);
+// Whole pages per chunk, each prefixed with a [Page N] anchor the model cites
+// from. A page longer than a chunk is split and keeps its anchor on every part.
+function chunkPages(pages: Page[]): string[] {
+  const chunks: string[] = [];
+  let current = '';
+  for (const page of pages) {
+    if (!page.text) continue;
+    for (let start = 0; start < page.text.length; start += CHUNK_CHARS) {
+      const part = `[Page ${page.number}] ${page.text.slice(start, start + CHUNK_CHARS)}\n\n`;
+      if (current && current.length + part.length > CHUNK_CHARS) {
+        chunks.push(current);
+        current = '';
+      }
+      current += part;
     }
+  }
+  if (current) chunks.push(current);
+  return chunks;
+}
+
+// --- Map-Reduce Summarization ---
+// The post page turns these into links to the page (src/lib/pageCitations.ts), so the form matters
+const CITATION_RULE = 'Cite the page each point comes from as (p. N), or (pp. N-M) for a range, using the [Page N] markers; write several as (p. N, M). Never invent page numbers.';
+
+async function chat(openai: OpenAI, system: string, user: string): Promise<string> {
+  const completion = await openai.chat.completions.create({
+    model: chatModel,
+    temperature: 0.2,
+    messages: [
+      { role: 'system', content: system },
+      { role: 'user', content: user },
+    ],
+  });
+  const content = completion.choices[0]?.message?.content?.trim();
+  if (!content) throw new ApiError('The summary model returned an empty response.', 502);
+  return content;
+}
+
+// The generic format, used when no summary template applies
+const SUMMARY_FORMAT = 'Write a short overview paragraph, then the key points (findings, recommendations, doses and numbers) as bullets.';
+
+// Partial summaries keep what the template asks for, so the reduce step has it
+function summarizeChunk(openai: OpenAI, chunk: string, index: number, total: number, format: string) {
+  const focus = format === SUMMARY_FORMAT ? '' : ` Keep everything the final summary will need. Its format: ${format}`;
+  return chat(
+    openai,
+    `You summarize part of a medical document for a clinician's notes. List the key findings, recommendations, doses and numbers as concise bullet points.${focus} ${CITATION_RULE}`,
+    `Part ${index + 1} of ${total}:\n\n${chunk}`,
+  );
+}
+
+// A document that fits in one chunk needs no reduce step
+function summarizeWhole(openai: OpenAI, chunk: string, format: string) {
+  return chat(
+    openai,
+    `You summarize a medical document for a clinician's notes. ${format} ${CITATION_RULE}`,
+    chunk,
+  );
+}
 
-    // --- Check File Type (Assistants API supports PDF) ---
-    if (!fileType.includes('pdf')) {
-      console.log(`Skipping summarization for non-PDF file: ${filePath} (${fileType})`);
-      return new Response(JSON.stringify({ message: 'File type not supported for summarization by this function.' }), {
-        status: 200,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      });
+function combineSummaries(openai: OpenAI, partials: string[], format: string) {
+  return chat(
+    openai,
+    `You combine partial summaries of one medical document into a single summary for a clinician's notes. ${format} Merge duplicates and keep every (p. N) citation attached to the point it supports.`,
+    partials.map((partial, i) => `Partial summary ${i + 1}:\n${partial}`).join('\n\n'),
+  );
+}
+
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T, index: number) => Promise<R>): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
     }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
 
-    // --- Download File from Storage ---
-    console.log(`Downloading file: ${filePath}`);
-    const { data: blobData, error: downloadError } = await supabaseAdmin.storage
-      .from('post-media')
-      .download(filePath);
+async function summarizeText(openai: OpenAI, pages: Page[], format: string): Promise<string> {
+  const chunks = chunkPages(pages);
+  console.log(`Summarizing ${pages.length} page(s) in ${chunks.length} chunk(s) with ${chatModel}...`);
+  if (chunks.length === 0) throw new ApiError('The PDF contains no text to summarize.', 422);
+  if (chunks.length === 1) return summarizeWhole(openai, chunks[0], format);
 
-    if (downloadError) throw new ApiError(`Failed to download file: ${downloadError.message}`, 500);
-    if (!blobData) throw new ApiError('Downloaded file data is empty.', 500);
-    console.log(`File downloaded successfully (${blobData.size} bytes).`);
+  let partials = await mapWithConcurrency(chunks, MAP_CONCURRENCY, (chunk, i) => summarizeChunk(openai, chunk, i, chunks.length, format));
+  // Reduce in rounds so the combined input stays around one chunk in size
+  while (partials.length > 1) {
+    const groups: string[][] = [[]];
+    for (const partial of partials) {
+      const group = groups[groups.length - 1];
+      if (group.length > 0 && group.join('').length + partial.length > CHUNK_CHARS) groups.push([partial]);
+      else group.push(partial);
+    }
+    // One group left, or partials too long to pair up: finish in a single call
+    if (groups.length === 1 || groups.length === partials.length) return combineSummaries(openai, partials, format);
+    console.log(`Reducing ${partials.length} partial summaries in ${groups.length} group(s)...`);
+    partials = await mapWithConcurrency(groups, MAP_CONCURRENCY, group => combineSummaries(openai, group, format));
+  }
+  return partials[0];
+}
+
+// --- Assistants Fallback (scanned PDFs) ---
+async function summarizeWithAssistant(openai: OpenAI, blobData: Blob, filePath: string, fileType: string, format: string): Promise<string> {
+  if (!assistantId) {
+    throw new ApiError('This PDF has no extractable text (scanned?) and OPENAI_ASSISTANT_ID is not configured.', 422);
+  }
 
+  let openAiFileId: string | null = null;
+  try {
     // --- Upload File to OpenAI ---
     console.log('Uploading file to OpenAI...');
     // Use ReadableStream directly if OpenAI SDK supports it, otherwise convert Blob to File-like object
@@ -112,7 +292,7 @@ serve(async (req: Request) => {
     console.log('Adding message to Thread...');
     await openai.beta.threads.messages.create(thread.id, {
       role: 'user',
-      content: `Please summarize the document provided in the attached file.`,
+      content: `Please summarize the document provided in the attached file. ${format} Cite the page each point comes from as (p. N).`,
       attachments: [ // Use attachments for File Search
         { file_id: openAiFileId, tools: [{ type: "file_search" }] }
       ],
@@ -153,69 +333,310 @@ serve(async (req: Request) => {
 
     // Find the latest assistant message
     const assistantMessage = messages.data.find((m: ThreadMessage) => m.role === 'assistant'); // Add type for 'm'
-    let summary = 'Summary could not be generated.'; // Default summary
 
     if (assistantMessage && assistantMessage.content[0]?.type === 'text') {
-        summary = assistantMessage.content[0].text.value;
         console.log('Summary extracted from assistant message.');
+        return assistantMessage.content[0].text.value;
+    }
+    console.warn('Could not find assistant text response in messages.');
+    return 'Summary could not be generated.';
+  } finally {
+      // --- Clean up uploaded OpenAI file ---
+      if (openAiFileId) {
+          try {
+              console.log(`Attempting to delete OpenAI file: ${openAiFileId}`);
+              await openai.files.del(openAiFileId);
+              console.log(`Successfully deleted OpenAI file: ${openAiFileId}`);
+          } catch (cleanupError) {
+              console.warn(`Failed to delete OpenAI file ${openAiFileId}:`, cleanupError);
+          }
+      }
+  }
+}
+
+// --- Job Runner ---
+type SupabaseAdmin = ReturnType<typeof createClient>;
+
+// Image text comes from the app server's local OCR (src/lib/extractors.ts),
+// stored on media_files; the job is retried until it shows up
+async function ocrPages(supabaseAdmin: SupabaseAdmin, postId: string, filePath: string): Promise<Page[] | null> {
+  const { data: media, error } = await supabaseAdmin
+    .from('media_files')
+    .select('extracted_text, text_extracted_at')
+    .eq('post_id', postId)
+    .eq('file_path', filePath)
+    .maybeSingle();
+  if (error) throw new ApiError(`Failed to load OCR text: ${error.message}`, 500);
+  if (!media) return null;
+  if (!media.text_extracted_at) throw new ApiError('Waiting for the image to be OCRed.', 409);
+  const text = (media.extracted_text as string | null) ?? '';
+  return text.replace(/\s/g, '').length < MIN_OCR_CHARS ? null : toPages(text.split('\f'));
+}
+
+// The post's summary template, by tag or the owner's default; null means the generic format
+async function templateForPost(supabaseAdmin: SupabaseAdmin, postId: string): Promise<SummaryTemplate | null> {
+  const { data, error } = await supabaseAdmin.rpc('summary_template_for_post', { p_post_id: postId });
+  if (error) throw new ApiError(`Failed to load the summary template: ${error.message}`, 500);
+  return ((data ?? []) as SummaryTemplate[])[0] ?? null;
+}
+
+// The service role reads any object, so make sure the job's file really is an
+// attachment of the post, in the folder of the post's owner, before touching it
+async function assertOwnAttachment(supabaseAdmin: SupabaseAdmin, job: SummaryJob) {
+  const { data: media, error } = await supabaseAdmin
+    .from('media_files')
+    .select('id, posts!inner(user_id)')
+    .eq('post_id', job.post_id)
+    .eq('file_path', job.file_path)
+    .eq('user_id', job.user_id)
+    .eq('posts.user_id', job.user_id)
+    .maybeSingle();
+  if (error) throw new ApiError(`Failed to check the attachment: ${error.message}`, 500);
+  if (!media || !job.file_path.startsWith(`${job.user_id}/`)) {
+    throw new ApiError('The file is not an attachment of this post.', 403);
+  }
+}
+
+// The attachment whose summary is the post's: the earliest uploaded one that
+// has a summary. Every job saves its summary before asking, so whichever order
+// jobs finish in, the post ends up with this attachment's summary.
+async function summaryAttachment(supabaseAdmin: SupabaseAdmin, postId: string): Promise<string | null> {
+  const [{ data: files, error: filesError }, { data: jobs, error: jobsError }] = await Promise.all([
+    supabaseAdmin
+      .from('media_files')
+      .select('file_path')
+      .eq('post_id', postId)
+      .order('uploaded_at', { ascending: true })
+      .order('id', { ascending: true }),
+    supabaseAdmin
+      .from('summary_jobs')
+      .select('file_path')
+      .eq('post_id', postId)
+      .not('summary', 'is', null),
+  ]);
+  if (filesError || jobsError) {
+    throw new ApiError(`Failed to read the post's attachments: ${(filesError ?? jobsError)!.message}`, 500);
+  }
+  const summarized = new Set((jobs ?? []).map(job => job.file_path));
+  return (files ?? []).find(file => summarized.has(file.file_path))?.file_path ?? null;
+}
+
+async function runJob(supabaseAdmin: SupabaseAdmin, openai: OpenAI, chatClient: OpenAI, job: SummaryJob) {
+  const { post_id: postId, file_path: filePath, file_type: fileType } = job;
+  await assertOwnAttachment(supabaseAdmin, job);
+
+  // --- Check File Type ---
+  const kind = attachmentKind(fileType, filePath);
+  if (!kind) {
+    throw new ApiError(`File type not supported for summarization: ${fileType}`, 415);
+  }
+  console.log(`[job ${job.id}] Summarizing ${kind}: ${filePath} (attempt ${job.attempts}/${job.max_attempts})`);
+
+  // --- Pick the Summary Template ---
+  // Chosen on every attempt, so template edits apply to retries too
+  const template = await templateForPost(supabaseAdmin, postId);
+  const format = template?.instructions ?? SUMMARY_FORMAT;
+  console.log(`Using ${template ? `the "${template.name}" template` : 'the generic format'}.`);
+  await supabaseAdmin.from('summary_jobs').update({ template_name: template?.name ?? null }).eq('id', job.id);
+
+  let summary: string;
+  let method: 'chunked' | 'assistant';
+  if (kind === 'image') {
+    const pages = await ocrPages(supabaseAdmin, postId, filePath);
+    if (!pages) {
+      console.log('Too little text in the image to summarize; skipping.');
+      return { summary: null, method: 'skipped', template: template?.name ?? null };
+    }
+    summary = await summarizeText(chatClient, pages, format);
+    method = 'chunked';
+  } else {
+    // --- Download File from Storage ---
+    const { data: blobData, error: downloadError } = await supabaseAdmin.storage
+      .from('post-media')
+      .download(filePath);
+
+    if (downloadError) throw new ApiError(`Failed to download file: ${downloadError.message}`, 500);
+    if (!blobData) throw new ApiError('Downloaded file data is empty.', 500);
+    console.log(`File downloaded successfully (${blobData.size} bytes).`);
+
+    // --- Extract Text Locally ---
+    // Text PDFs are summarized from their own text; only scanned ones (or ones
+    // pdf.js can't read) go to the Assistants API, which can OCR them.
+    let pages: Page[] = [];
+    try {
+      pages = await EXTRACTORS[kind](new Uint8Array(await blobData.arrayBuffer()));
+      console.log(`Extracted text from ${pages.length} page(s).`);
+    } catch (extractError) {
+      if (kind !== 'pdf') throw extractError;
+      console.warn('Local text extraction failed:', extractError);
+    }
+
+    if (kind !== 'pdf' || (pages.length > 0 && !isScanned(pages))) {
+      summary = await summarizeText(chatClient, pages, format);
+      method = 'chunked';
     } else {
-        console.warn('Could not find assistant text response in messages.');
+      console.log('No usable text layer; falling back to the Assistants API.');
+      summary = await summarizeWithAssistant(openai, blobData, filePath, fileType, format);
+      method = 'assistant';
     }
+  }
+
+  // --- Save the Summary ---
+  const { error: saveError } = await supabaseAdmin.from('summary_jobs').update({ summary }).eq('id', job.id);
+  if (saveError) {
+    console.error('Database update error:', saveError);
+    throw new ApiError('Failed to save summary to the database.', 500);
+  }
+
+  const summaryFile = await summaryAttachment(supabaseAdmin, postId);
+  if (summaryFile !== filePath) {
+    console.log(`Post ${postId} keeps the summary of ${summaryFile}.`);
+    return { summary, method, template: template?.name ?? null };
+  }
+
+  // --- Update Post Record in Database ---
+  // updated_at is left alone: it is the post's ETag (src/lib/etag.ts) and only
+  // moves when the note itself is edited, so a summary arriving in the
+  // background doesn't turn an open edit into a 409
+  console.log(`Updating post ${postId} with summary...`);
+  const { error: updateError } = await supabaseAdmin
+    .from('posts')
+    .update({ summary: summary, summary_file_path: filePath })
+    .eq('id', postId);
+
+  if (updateError) {
+    console.error('Database update error:', updateError);
+    throw new ApiError('Failed to save summary to the database.', 500);
+  }
+  console.log('Post updated successfully.');
+  return { summary, method, template: template?.name ?? null };
+}
+
+// --- Re-embedding ---
+// The app re-embeds a post after the summary jobs it starts itself; jobs the
+// drain cron runs have no app request behind them, so the post is embedded
+// here. Mirrors embedPost in src/lib/embeddings.ts (same text, model name and
+// source hash), so the app sees the vector as up to date. The local embedder
+// is for dev only; posts embedded with it are refreshed by the app instead.
+async function md5Hex(text: string) {
+  const digest = await stdCrypto.subtle.digest('MD5', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
 
-    // --- Update Post Record in Database ---
-    console.log(`Updating post ${postId} with summary...`);
-    const { error: updateError } = await supabaseAdmin
-      .from('posts')
-      .update({ summary: summary, updated_at: new Date().toISOString() })
-      .eq('id', postId);
+async function embedPost(supabaseAdmin: SupabaseAdmin, openai: OpenAI, postId: string) {
+  if (embeddingProvider !== 'openai') return;
+  const [{ data: post, error: postError }, { data: existing }] = await Promise.all([
+    supabaseAdmin.from('posts').select('content, summary').eq('id', postId).is('deleted_at', null).maybeSingle(),
+    supabaseAdmin.from('post_embeddings').select('model, source_hash').eq('post_id', postId).maybeSingle(),
+  ]);
+  if (postError) throw new ApiError(`Failed to load the post: ${postError.message}`, 500);
+  if (!post) return;
 
-    if (updateError) {
-      console.error('Database update error:', updateError);
-      throw new ApiError('Failed to save summary to the database.', 500);
+  const model = `openai:${embeddingModel}`;
+  const summary = post.summary ? `\n\n${post.summary}` : '';
+  const text = `${post.content}${summary}`.slice(0, MAX_EMBEDDING_CHARS);
+  const sourceHash = await md5Hex(text);
+  if (existing?.model === model && existing.source_hash === sourceHash) return;
+
+  const response = await openai.embeddings.create({ model: embeddingModel, input: text, dimensions: EMBEDDING_DIMENSIONS });
+  const { error } = await supabaseAdmin.from('post_embeddings').upsert({
+    post_id: postId,
+    model,
+    embedding: response.data[0].embedding,
+    source_hash: sourceHash,
+    updated_at: new Date().toISOString(),
+  });
+  if (error) throw new ApiError(`Failed to save the embedding: ${error.message}`, 500);
+}
+
+// --- Main Handler ---
+serve(async (req: Request) => {
+  // --- CORS Headers ---
+  const corsHeaders = {
+    'Access-Control-Allow-Origin': '*', // Adjust for production
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  };
+
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  // --- Validate Environment ---
+  if (!supabaseUrl || !supabaseServiceKey || !openaiApiKey) { // Check for Service Key
+    console.error('Missing environment variables (SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, OPENAI_API_KEY)');
+    return new Response(JSON.stringify({ error: 'Internal server configuration error.' }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+
+  // --- Initialize Clients ---
+  // Use Service Role Key for admin tasks like updating posts, bypassing RLS
+  const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey);
+  const openai = new OpenAI({ apiKey: openaiApiKey });
+  const chatClient = chatBaseUrl ? new OpenAI({ apiKey: openaiApiKey, baseURL: chatBaseUrl }) : openai;
+
+  try {
+    // --- Parse Request ---
+    if (req.headers.get("content-type") !== "application/json") {
+        throw new ApiError("Expected application/json", 415);
     }
-    console.log('Post updated successfully.');
+    const payload: RequestPayload = await req.json();
+    if (!payload.jobId && !payload.drain) {
+      throw new ApiError('Expected jobId or drain', 400);
+    }
+
+    // --- Claim Jobs ---
+    // Claiming marks the job running and counts the attempt, so two callers
+    // never run the same job
+    const { data: jobs, error: claimError } = await supabaseAdmin.rpc('claim_summary_jobs', {
+      p_job_id: payload.jobId ?? null,
+      p_limit: payload.drain ? DRAIN_BATCH_SIZE : 1,
+    });
+    if (claimError) throw new ApiError(`Failed to claim jobs: ${claimError.message}`, 500);
 
-    // --- Return Success ---
-    return new Response(JSON.stringify({ message: 'Summary generated and saved successfully via Assistant.', summary }), {
+    const results = [];
+    for (const job of (jobs ?? []) as SummaryJob[]) {
+      try {
+        const { summary, method, template } = await runJob(supabaseAdmin, openai, chatClient, job);
+        await supabaseAdmin.rpc('finish_summary_job', { p_job_id: job.id, p_error: null });
+        if (payload.drain) {
+          // The summary is part of what gets embedded; a failure here doesn't undo the job
+          await embedPost(supabaseAdmin, openai, job.post_id)
+            .catch(error => console.error(`[job ${job.id}] Re-embedding post ${job.post_id} failed:`, error));
+        }
+        results.push({ job_id: job.id, post_id: job.post_id, status: 'succeeded', method, template, summary });
+      } catch (error) {
+        // --- Record the Failed Attempt ---
+        // The job goes back to queued with a backoff, or to failed after its last attempt
+        console.error(`[job ${job.id}] Summarization failed:`, error);
+        const message = error instanceof Error ? error.message : 'An unexpected error occurred.';
+        const { data: finished, error: finishError } = await supabaseAdmin
+          .rpc('finish_summary_job', { p_job_id: job.id, p_error: message.substring(0, 500) })
+          .single();
+        if (finishError) console.error(`[job ${job.id}] Failed to record the error:`, finishError);
+        results.push({ job_id: job.id, post_id: job.post_id, status: (finished as { status?: string } | null)?.status ?? 'failed', error: message });
+      }
+    }
+
+    // --- Return Results ---
+    // A jobId that isn't due (already running, finished or backing off) returns no jobs
+    return new Response(JSON.stringify({ jobs: results }), {
       status: 200,
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
 
   } catch (error) {
     // --- Handle Errors ---
-    console.error('Error in summarize-document function (Assistants API):', error);
+    console.error('Error in summarize-document function:', error);
     const status = error instanceof ApiError ? error.status : 500;
     const message = error instanceof Error ? error.message : 'An unexpected error occurred.';
 
-    // Attempt to update the post summary with an error message
-    const errorSummary = `Error: Summarization failed. (${message.substring(0, 100)}${message.length > 100 ? '...' : ''})`; // Truncate long messages
-    try {
-        if (postId) { // Ensure postId was parsed earlier
-             await supabaseAdmin
-                .from('posts')
-                .update({ summary: errorSummary, updated_at: new Date().toISOString() })
-                .eq('id', postId);
-             console.log(`Updated post ${postId} summary with error message.`);
-        }
-    } catch (updateErr) {
-        console.error('Failed to update post summary with error message:', updateErr);
-    }
-
     // Return the error response to the caller
     return new Response(JSON.stringify({ error: message }), {
       status: status,
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
-  } finally {
-      // --- Optional: Clean up uploaded OpenAI file ---
-      if (openAiFileId) {
-          try {
-              console.log(`Attempting to delete OpenAI file: ${openAiFileId}`);
-              await openai.files.del(openAiFileId);
-              console.log(`Successfully deleted OpenAI file: ${openAiFileId}`);
-          } catch (cleanupError) {
-              console.warn(`Failed to delete OpenAI file ${openAiFileId}:`, cleanupError);
-          }
-      }
   }
 });
@@ -0,0 +1,57 @@
+-- Migration: Personal access tokens for the CLI, agents and REST API
+-- Only the SHA-256 hash of a token is stored; the plaintext is shown once at creation.
+CREATE TABLE IF NOT EXISTS personal_access_tokens (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    name text NOT NULL,
+    token_prefix text NOT NULL,
+    token_hash text NOT NULL UNIQUE,
+    scopes text[] NOT NULL DEFAULT ARRAY['read'],
+    expires_at timestamptz,
+    last_used_at timestamptz,
+    revoked_at timestamptz,
+    created_at timestamptz NOT NULL DEFAULT now(),
+    CONSTRAINT personal_access_tokens_scopes_check
+        CHECK (cardinality(scopes) > 0 AND scopes <@ ARRAY['read', 'write', 'delete'])
+);
+
+CREATE INDEX IF NOT EXISTS idx_personal_access_tokens_user_id ON personal_access_tokens(user_id);
+
+ALTER TABLE personal_access_tokens ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "personal_access_tokens_owner_select"
+  ON personal_access_tokens FOR SELECT TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "personal_access_tokens_owner_insert"
+  ON personal_access_tokens FOR INSERT TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "personal_access_tokens_owner_update"
+  ON personal_access_tokens FOR UPDATE TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+-- Resolve a token hash to its owner. Runs as definer so the API can look a token
+-- up before it knows who the caller is; returns nothing for revoked or expired tokens.
+CREATE OR REPLACE FUNCTION resolve_personal_access_token(p_token_hash text)
+RETURNS TABLE (user_id uuid, email text, scopes text[])
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, auth
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE personal_access_tokens t
+     SET last_used_at = now()
+    FROM auth.users u
+   WHERE t.token_hash = p_token_hash
+     AND t.revoked_at IS NULL
+     AND (t.expires_at IS NULL OR t.expires_at > now())
+     AND u.id = t.user_id
+  RETURNING t.user_id, u.email::text, t.scopes;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION resolve_personal_access_token(text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION resolve_personal_access_token(text) TO anon, authenticated;
@@ -0,0 +1,9 @@
+-- Migration: Content hashes for duplicate detection during bulk import
+-- content_hash tracks the current text; import_hash keeps the hash of the text as
+-- originally imported, so re-importing a note whose image links were rewritten
+-- after upload is still recognised as a duplicate.
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS content_hash text GENERATED ALWAYS AS (md5(content)) STORED;
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS import_hash text;
+
+CREATE INDEX IF NOT EXISTS idx_posts_user_content_hash ON posts(user_id, content_hash);
+CREATE INDEX IF NOT EXISTS idx_posts_user_import_hash ON posts(user_id, import_hash) WHERE import_hash IS NOT NULL;
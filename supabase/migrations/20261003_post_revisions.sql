@@ -0,0 +1,40 @@
+-- Migration: Revision history for posts
+-- A trigger snapshots the previous content and tags whenever either changes, so
+-- edits from the web app, the REST API and the CLI are all captured.
+CREATE TABLE IF NOT EXISTS post_revisions (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    post_id uuid NOT NULL REFERENCES posts(id) ON DELETE CASCADE,
+    user_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+    content text NOT NULL,
+    tags text[],
+    saved_at timestamptz NOT NULL,              -- when this version was originally written
+    replaced_at timestamptz NOT NULL DEFAULT now() -- when an edit superseded it
+);
+
+CREATE INDEX IF NOT EXISTS idx_post_revisions_post_id ON post_revisions(post_id, replaced_at DESC);
+
+ALTER TABLE post_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "post_revisions_owner_select"
+  ON post_revisions FOR SELECT TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE OR REPLACE FUNCTION record_post_revision()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO post_revisions (post_id, user_id, content, tags, saved_at)
+  VALUES (OLD.id, OLD.user_id, OLD.content, OLD.tags, COALESCE(OLD.updated_at, OLD.created_at));
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS posts_record_revision ON posts;
+CREATE TRIGGER posts_record_revision
+  BEFORE UPDATE OF content, tags ON posts
+  FOR EACH ROW
+  WHEN (OLD.content IS DISTINCT FROM NEW.content OR OLD.tags IS DISTINCT FROM NEW.tags)
+  EXECUTE FUNCTION record_post_revision();
@@ -0,0 +1,34 @@
+-- Migration: Soft-delete trash for posts
+-- Deleting a post sets deleted_at; the row and its media stay restorable for
+-- 30 days before the purge-trash edge function removes them for good.
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_posts_deleted_at ON posts(deleted_at) WHERE deleted_at IS NOT NULL;
+
+-- Trashed posts are only visible to their owner: this hides them from the
+-- public feed and makes their share links stop resolving. RESTRICTIVE so it
+-- narrows whatever permissive SELECT policies already exist on posts.
+CREATE POLICY "posts_hide_trashed"
+  ON posts AS RESTRICTIVE
+  FOR SELECT
+  USING (deleted_at IS NULL OR user_id = auth.uid());
+
+-- Run the purge daily. Requires the pg_cron and pg_net extensions and two Vault
+-- secrets: project_url (https://<ref>.supabase.co) and service_role_key.
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'purge-trash-daily',
+  '17 3 * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/purge-trash',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
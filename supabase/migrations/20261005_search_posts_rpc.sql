@@ -0,0 +1,65 @@
+-- Migration: Ranked full-text search
+-- search_posts orders matches by ts_rank_cd (or newest first) and returns a
+-- ts_headline snippet per hit. Matched words are wrapped in chr(2)/chr(3) so
+-- clients can highlight them without trusting any markup in the note itself.
+-- SECURITY INVOKER: the caller's row-level security still applies.
+CREATE OR REPLACE FUNCTION search_posts(
+  p_query text,
+  p_sort text DEFAULT 'relevance',
+  p_limit int DEFAULT 20,
+  p_offset int DEFAULT 0,
+  p_user_id uuid DEFAULT NULL,
+  p_starred boolean DEFAULT false,
+  p_tag text DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  created_at timestamptz,
+  updated_at timestamptz,
+  content text,
+  tags text[],
+  is_starred boolean,
+  user_id uuid,
+  rank real,
+  snippet text
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH q AS (
+    SELECT websearch_to_tsquery('english', p_query) AS query,
+           btrim(p_query) AS term
+  ),
+  ranked AS (
+    SELECT p.id, p.created_at, p.updated_at, p.content, p.tags, p.is_starred, p.user_id,
+           -- An exact tag match counts as a strong hit, like the old tag OR filter
+           (ts_rank_cd(p.fts, q.query, 32)
+             + CASE WHEN p.tags @> ARRAY[q.term] THEN 0.5 ELSE 0 END)::real AS rank
+    FROM posts p, q
+    WHERE p.deleted_at IS NULL
+      AND (p.fts @@ q.query OR p.tags @> ARRAY[q.term])
+      AND (p_user_id IS NULL OR p.user_id = p_user_id)
+      AND (NOT p_starred OR p.is_starred)
+      AND (p_tag IS NULL OR p.tags @> ARRAY[p_tag])
+  ),
+  hits AS (
+    SELECT * FROM ranked r
+    ORDER BY CASE WHEN p_sort = 'newest' THEN NULL ELSE r.rank END DESC NULLS LAST,
+             r.created_at DESC,
+             r.id DESC
+    LIMIT LEAST(GREATEST(p_limit, 1), 200)
+    OFFSET GREATEST(p_offset, 0)
+  )
+  -- Headlines are expensive, so only build them for the page being returned
+  SELECT h.id, h.created_at, h.updated_at, h.content, h.tags, h.is_starred, h.user_id, h.rank,
+         ts_headline(
+           'english', h.content, q.query,
+           'StartSel="' || chr(2) || '", StopSel="' || chr(3) || '", MaxWords=35, MinWords=15, ShortWord=3, MaxFragments=2, FragmentDelimiter=" … "'
+         ) AS snippet
+  FROM hits h, q
+  ORDER BY CASE WHEN p_sort = 'newest' THEN NULL ELSE h.rank END DESC NULLS LAST,
+           h.created_at DESC,
+           h.id DESC;
+$$;
+
+GRANT EXECUTE ON FUNCTION search_posts(text, text, int, int, uuid, boolean, text) TO anon, authenticated;
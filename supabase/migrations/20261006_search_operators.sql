@@ -0,0 +1,95 @@
+-- Migration: Filters for the search query language (src/lib/searchQuery.ts)
+-- has_pdf / has_image are computed columns: PostgREST exposes functions that take
+-- a posts row as filterable fields, e.g. /posts?has_pdf=is.true
+CREATE OR REPLACE FUNCTION has_pdf(p posts)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT EXISTS (SELECT 1 FROM media_files m WHERE m.post_id = p.id AND m.file_type ILIKE '%pdf%');
+$$;
+
+CREATE OR REPLACE FUNCTION has_image(p posts)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT EXISTS (SELECT 1 FROM media_files m WHERE m.post_id = p.id AND m.file_type LIKE 'image/%');
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_media_files_post_id ON media_files(post_id);
+
+-- search_posts gains the operator filters; the single p_tag argument becomes p_tags
+DROP FUNCTION IF EXISTS search_posts(text, text, int, int, uuid, boolean, text);
+
+CREATE OR REPLACE FUNCTION search_posts(
+  p_query text,
+  p_sort text DEFAULT 'relevance',
+  p_limit int DEFAULT 20,
+  p_offset int DEFAULT 0,
+  p_user_id uuid DEFAULT NULL,
+  p_starred boolean DEFAULT false,
+  p_tags text[] DEFAULT NULL,
+  p_exclude_tags text[] DEFAULT NULL,
+  p_has_pdf boolean DEFAULT false,
+  p_has_image boolean DEFAULT false,
+  p_after timestamptz DEFAULT NULL,
+  p_before timestamptz DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  created_at timestamptz,
+  updated_at timestamptz,
+  content text,
+  tags text[],
+  is_starred boolean,
+  user_id uuid,
+  rank real,
+  snippet text
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH q AS (
+    SELECT websearch_to_tsquery('english', p_query) AS query,
+           btrim(p_query) AS term
+  ),
+  ranked AS (
+    SELECT p.id, p.created_at, p.updated_at, p.content, p.tags, p.is_starred, p.user_id,
+           -- An exact tag match counts as a strong hit, like the old tag OR filter
+           (ts_rank_cd(p.fts, q.query, 32)
+             + CASE WHEN p.tags @> ARRAY[q.term] THEN 0.5 ELSE 0 END)::real AS rank
+    FROM posts p, q
+    WHERE p.deleted_at IS NULL
+      AND (p.fts @@ q.query OR p.tags @> ARRAY[q.term])
+      AND (p_user_id IS NULL OR p.user_id = p_user_id)
+      AND (NOT p_starred OR p.is_starred)
+      AND (p_tags IS NULL OR p.tags @> p_tags)
+      AND (p_exclude_tags IS NULL OR NOT COALESCE(p.tags && p_exclude_tags, false))
+      AND (NOT p_has_pdf OR has_pdf(p))
+      AND (NOT p_has_image OR has_image(p))
+      AND (p_after IS NULL OR p.created_at >= p_after)
+      AND (p_before IS NULL OR p.created_at < p_before)
+  ),
+  hits AS (
+    SELECT * FROM ranked r
+    ORDER BY CASE WHEN p_sort = 'newest' THEN NULL ELSE r.rank END DESC NULLS LAST,
+             r.created_at DESC,
+             r.id DESC
+    LIMIT LEAST(GREATEST(p_limit, 1), 200)
+    OFFSET GREATEST(p_offset, 0)
+  )
+  -- Headlines are expensive, so only build them for the page being returned
+  SELECT h.id, h.created_at, h.updated_at, h.content, h.tags, h.is_starred, h.user_id, h.rank,
+         ts_headline(
+           'english', h.content, q.query,
+           'StartSel="' || chr(2) || '", StopSel="' || chr(3) || '", MaxWords=35, MinWords=15, ShortWord=3, MaxFragments=2, FragmentDelimiter=" … "'
+         ) AS snippet
+  FROM hits h, q
+  ORDER BY CASE WHEN p_sort = 'newest' THEN NULL ELSE h.rank END DESC NULLS LAST,
+           h.created_at DESC,
+           h.id DESC;
+$$;
+
+GRANT EXECUTE ON FUNCTION search_posts(text, text, int, int, uuid, boolean, text[], text[], boolean, boolean, timestamptz, timestamptz)
+  TO anon, authenticated;
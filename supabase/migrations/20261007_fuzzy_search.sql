@@ -0,0 +1,166 @@
+-- Migration: Typo-tolerant search
+-- search_vocabulary holds every word used in (non-trashed) notes. Trigram
+-- similarity against it powers "did you mean" suggestions and the fuzzy
+-- fallback search_posts(p_fuzzy := true) uses when full-text search finds
+-- too little, e.g. "metroprolol" → metoprolol, "semaglutid" → semaglutide.
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+CREATE MATERIALIZED VIEW IF NOT EXISTS search_vocabulary AS
+  SELECT word, ndoc
+  FROM ts_stat('SELECT to_tsvector(''simple'', content) FROM posts WHERE deleted_at IS NULL')
+  WHERE length(word) >= 3 AND word ~ '^[a-z]';
+
+-- The unique index lets the view be refreshed concurrently
+CREATE UNIQUE INDEX IF NOT EXISTS idx_search_vocabulary_word ON search_vocabulary(word);
+CREATE INDEX IF NOT EXISTS idx_search_vocabulary_trgm ON search_vocabulary USING GIN (word gin_trgm_ops);
+
+-- Only reachable through the functions below
+REVOKE ALL ON search_vocabulary FROM anon, authenticated;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'refresh-search-vocabulary',
+  '*/15 * * * *',
+  $$ REFRESH MATERIALIZED VIEW CONCURRENTLY search_vocabulary; $$
+);
+
+-- Words from the notes that look like each of p_words. known is true when the
+-- word itself already appears in the notes, so callers only suggest
+-- corrections for words that don't.
+CREATE OR REPLACE FUNCTION similar_search_terms(p_words text[], p_limit int DEFAULT 3)
+RETURNS TABLE (
+  word text,
+  known boolean,
+  suggestion text,
+  similarity real
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+SET pg_trgm.similarity_threshold = 0.4
+AS $$
+  SELECT w.word,
+         EXISTS (SELECT 1 FROM search_vocabulary v WHERE v.word = w.word) AS known,
+         c.word AS suggestion,
+         c.similarity
+  FROM (SELECT DISTINCT lower(x) AS word FROM unnest(p_words) AS x WHERE length(x) >= 3) w
+  CROSS JOIN LATERAL (
+    SELECT v.word, similarity(v.word, w.word) AS similarity
+    FROM search_vocabulary v
+    WHERE v.word % w.word AND v.word <> w.word
+    ORDER BY similarity(v.word, w.word) DESC, v.ndoc DESC
+    LIMIT LEAST(GREATEST(p_limit, 1), 10)
+  ) c
+  ORDER BY w.word, c.similarity DESC;
+$$;
+
+GRANT EXECUTE ON FUNCTION similar_search_terms(text[], int) TO anon, authenticated;
+
+-- A forgiving tsquery: each word of p_query matches itself or any similar
+-- vocabulary word, and all words must match. Phrases and -negation are
+-- dropped; this is only used as a fallback.
+CREATE OR REPLACE FUNCTION fuzzy_tsquery(p_query text)
+RETURNS tsquery
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+SET pg_trgm.similarity_threshold = 0.4
+AS $$
+  SELECT to_tsquery('english', COALESCE(string_agg('(' || alternatives || ')', ' & '), ''))
+  FROM (
+    SELECT w.word || COALESCE((
+             SELECT string_agg(' | ' || c.word, '')
+             FROM (
+               SELECT v.word FROM search_vocabulary v
+               WHERE v.word % w.word AND v.word <> w.word
+               ORDER BY similarity(v.word, w.word) DESC, v.ndoc DESC
+               LIMIT 5
+             ) c
+           ), '') AS alternatives
+    FROM (
+      SELECT DISTINCT lower(x) AS word
+      FROM regexp_split_to_table(p_query, '[^[:alnum:]]+') AS x
+      WHERE x <> ''
+    ) w
+  ) words;
+$$;
+
+-- search_posts gains p_fuzzy; everything else is unchanged from 20261006
+DROP FUNCTION IF EXISTS search_posts(text, text, int, int, uuid, boolean, text[], text[], boolean, boolean, timestamptz, timestamptz);
+
+CREATE OR REPLACE FUNCTION search_posts(
+  p_query text,
+  p_sort text DEFAULT 'relevance',
+  p_limit int DEFAULT 20,
+  p_offset int DEFAULT 0,
+  p_user_id uuid DEFAULT NULL,
+  p_starred boolean DEFAULT false,
+  p_tags text[] DEFAULT NULL,
+  p_exclude_tags text[] DEFAULT NULL,
+  p_has_pdf boolean DEFAULT false,
+  p_has_image boolean DEFAULT false,
+  p_after timestamptz DEFAULT NULL,
+  p_before timestamptz DEFAULT NULL,
+  p_fuzzy boolean DEFAULT false
+)
+RETURNS TABLE (
+  id uuid,
+  created_at timestamptz,
+  updated_at timestamptz,
+  content text,
+  tags text[],
+  is_starred boolean,
+  user_id uuid,
+  rank real,
+  snippet text
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH q AS (
+    SELECT CASE WHEN p_fuzzy THEN fuzzy_tsquery(p_query)
+                ELSE websearch_to_tsquery('english', p_query) END AS query,
+           btrim(p_query) AS term
+  ),
+  ranked AS (
+    SELECT p.id, p.created_at, p.updated_at, p.content, p.tags, p.is_starred, p.user_id,
+           -- An exact tag match counts as a strong hit, like the old tag OR filter
+           (ts_rank_cd(p.fts, q.query, 32)
+             + CASE WHEN p.tags @> ARRAY[q.term] THEN 0.5 ELSE 0 END)::real AS rank
+    FROM posts p, q
+    WHERE p.deleted_at IS NULL
+      AND (p.fts @@ q.query OR p.tags @> ARRAY[q.term])
+      AND (p_user_id IS NULL OR p.user_id = p_user_id)
+      AND (NOT p_starred OR p.is_starred)
+      AND (p_tags IS NULL OR p.tags @> p_tags)
+      AND (p_exclude_tags IS NULL OR NOT COALESCE(p.tags && p_exclude_tags, false))
+      AND (NOT p_has_pdf OR has_pdf(p))
+      AND (NOT p_has_image OR has_image(p))
+      AND (p_after IS NULL OR p.created_at >= p_after)
+      AND (p_before IS NULL OR p.created_at < p_before)
+  ),
+  hits AS (
+    SELECT * FROM ranked r
+    ORDER BY CASE WHEN p_sort = 'newest' THEN NULL ELSE r.rank END DESC NULLS LAST,
+             r.created_at DESC,
+             r.id DESC
+    LIMIT LEAST(GREATEST(p_limit, 1), 200)
+    OFFSET GREATEST(p_offset, 0)
+  )
+  -- Headlines are expensive, so only build them for the page being returned
+  SELECT h.id, h.created_at, h.updated_at, h.content, h.tags, h.is_starred, h.user_id, h.rank,
+         ts_headline(
+           'english', h.content, q.query,
+           'StartSel="' || chr(2) || '", StopSel="' || chr(3) || '", MaxWords=35, MinWords=15, ShortWord=3, MaxFragments=2, FragmentDelimiter=" … "'
+         ) AS snippet
+  FROM hits h, q
+  ORDER BY CASE WHEN p_sort = 'newest' THEN NULL ELSE h.rank END DESC NULLS LAST,
+           h.created_at DESC,
+           h.id DESC;
+$$;
+
+GRANT EXECUTE ON FUNCTION search_posts(text, text, int, int, uuid, boolean, text[], text[], boolean, boolean, timestamptz, timestamptz, boolean)
+  TO anon, authenticated;
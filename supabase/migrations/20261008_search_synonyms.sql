@@ -0,0 +1,32 @@
+-- Migration: Per-user search synonyms
+-- Extends the bundled medical abbreviation dictionary (src/lib/synonyms.ts):
+-- searching for term also matches each of its expansions.
+CREATE TABLE IF NOT EXISTS search_synonyms (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    term text NOT NULL,
+    expansions text[] NOT NULL,
+    created_at timestamptz NOT NULL DEFAULT now(),
+    CONSTRAINT search_synonyms_term_check CHECK (term = lower(term) AND term !~ '\s' AND term <> ''),
+    CONSTRAINT search_synonyms_expansions_check CHECK (cardinality(expansions) > 0),
+    UNIQUE (user_id, term)
+);
+
+ALTER TABLE search_synonyms ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "search_synonyms_owner_select"
+  ON search_synonyms FOR SELECT TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "search_synonyms_owner_insert"
+  ON search_synonyms FOR INSERT TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "search_synonyms_owner_update"
+  ON search_synonyms FOR UPDATE TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "search_synonyms_owner_delete"
+  ON search_synonyms FOR DELETE TO authenticated
+  USING (user_id = auth.uid());
@@ -0,0 +1,109 @@
+-- Migration: Semantic search with pgvector
+-- One embedding per post, computed from its content and PDF summary by the
+-- provider in src/lib/embeddings.ts. model records which provider produced
+-- the vector; searches only compare vectors from the same model.
+CREATE EXTENSION IF NOT EXISTS vector;
+
+-- Keep in sync with EMBEDDING_DIMENSIONS in src/lib/embeddings.ts
+CREATE TABLE IF NOT EXISTS post_embeddings (
+    post_id uuid PRIMARY KEY REFERENCES posts(id) ON DELETE CASCADE,
+    model text NOT NULL,
+    embedding vector(512) NOT NULL,
+    -- md5 of the embedded text, to skip re-embedding unchanged posts
+    source_hash text NOT NULL,
+    updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_post_embeddings_hnsw ON post_embeddings USING hnsw (embedding vector_cosine_ops);
+
+ALTER TABLE post_embeddings ENABLE ROW LEVEL SECURITY;
+
+-- Readable wherever the post is; posts RLS applies inside the subquery
+CREATE POLICY "post_embeddings_select"
+  ON post_embeddings FOR SELECT
+  USING (EXISTS (SELECT 1 FROM posts p WHERE p.id = post_id));
+
+CREATE POLICY "post_embeddings_owner_insert"
+  ON post_embeddings FOR INSERT TO authenticated
+  WITH CHECK (EXISTS (SELECT 1 FROM posts p WHERE p.id = post_id AND p.user_id = auth.uid()));
+
+CREATE POLICY "post_embeddings_owner_update"
+  ON post_embeddings FOR UPDATE TO authenticated
+  USING (EXISTS (SELECT 1 FROM posts p WHERE p.id = post_id AND p.user_id = auth.uid()))
+  WITH CHECK (EXISTS (SELECT 1 FROM posts p WHERE p.id = post_id AND p.user_id = auth.uid()));
+
+-- Nearest posts to p_embedding by cosine similarity, with the same filters as search_posts.
+-- SECURITY INVOKER: the caller's row-level security still applies.
+CREATE OR REPLACE FUNCTION match_posts(
+  p_embedding vector(512),
+  p_model text,
+  p_limit int DEFAULT 20,
+  p_offset int DEFAULT 0,
+  p_exclude_post_id uuid DEFAULT NULL,
+  p_user_id uuid DEFAULT NULL,
+  p_starred boolean DEFAULT false,
+  p_tags text[] DEFAULT NULL,
+  p_exclude_tags text[] DEFAULT NULL,
+  p_has_pdf boolean DEFAULT false,
+  p_has_image boolean DEFAULT false,
+  p_after timestamptz DEFAULT NULL,
+  p_before timestamptz DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  created_at timestamptz,
+  updated_at timestamptz,
+  content text,
+  tags text[],
+  is_starred boolean,
+  user_id uuid,
+  similarity real
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT p.id, p.created_at, p.updated_at, p.content, p.tags, p.is_starred, p.user_id,
+         (1 - (e.embedding <=> p_embedding))::real AS similarity
+  FROM post_embeddings e
+  JOIN posts p ON p.id = e.post_id
+  WHERE e.model = p_model
+    AND p.deleted_at IS NULL
+    AND (p_exclude_post_id IS NULL OR p.id <> p_exclude_post_id)
+    AND (p_user_id IS NULL OR p.user_id = p_user_id)
+    AND (NOT p_starred OR p.is_starred)
+    AND (p_tags IS NULL OR p.tags @> p_tags)
+    AND (p_exclude_tags IS NULL OR NOT COALESCE(p.tags && p_exclude_tags, false))
+    AND (NOT p_has_pdf OR has_pdf(p))
+    AND (NOT p_has_image OR has_image(p))
+    AND (p_after IS NULL OR p.created_at >= p_after)
+    AND (p_before IS NULL OR p.created_at < p_before)
+  ORDER BY e.embedding <=> p_embedding, p.id
+  LIMIT LEAST(GREATEST(p_limit, 1), 200)
+  OFFSET GREATEST(p_offset, 0);
+$$;
+
+GRANT EXECUTE ON FUNCTION match_posts(vector, text, int, int, uuid, uuid, boolean, text[], text[], boolean, boolean, timestamptz, timestamptz)
+  TO anon, authenticated;
+
+-- Posts most similar to p_post_id, using its stored embedding
+CREATE OR REPLACE FUNCTION related_posts(p_post_id uuid, p_limit int DEFAULT 5)
+RETURNS TABLE (
+  id uuid,
+  created_at timestamptz,
+  updated_at timestamptz,
+  content text,
+  tags text[],
+  is_starred boolean,
+  user_id uuid,
+  similarity real
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT m.*
+  FROM post_embeddings src,
+       LATERAL match_posts(src.embedding, src.model, p_limit, 0, src.post_id) m
+  WHERE src.post_id = p_post_id;
+$$;
+
+GRANT EXECUTE ON FUNCTION related_posts(uuid, int) TO anon, authenticated;
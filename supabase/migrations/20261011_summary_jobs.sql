@@ -0,0 +1,175 @@
+-- Migration: Durable PDF summary jobs
+-- Each PDF attachment gets a row in summary_jobs that the summarize-document
+-- edge function claims, runs and finishes. Failures are retried with
+-- exponential backoff instead of being written into posts.summary as
+-- "Error: …" text, so posts.summary only ever holds a real summary.
+CREATE TABLE IF NOT EXISTS summary_jobs (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    post_id uuid NOT NULL REFERENCES posts(id) ON DELETE CASCADE,
+    user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    file_path text NOT NULL,
+    file_type text NOT NULL,
+    status text NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'succeeded', 'failed')),
+    attempts int NOT NULL DEFAULT 0,
+    max_attempts int NOT NULL DEFAULT 5,
+    last_error text,
+    run_after timestamptz NOT NULL DEFAULT now(), -- earliest time the next attempt may start
+    started_at timestamptz,
+    finished_at timestamptz,
+    created_at timestamptz NOT NULL DEFAULT now(),
+    updated_at timestamptz NOT NULL DEFAULT now(),
+    UNIQUE (post_id, file_path)
+);
+
+CREATE INDEX IF NOT EXISTS idx_summary_jobs_due ON summary_jobs(run_after) WHERE status IN ('queued', 'running');
+
+ALTER TABLE summary_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Owners can watch their jobs; all writes go through the functions below
+CREATE POLICY "summary_jobs_owner_select"
+  ON summary_jobs FOR SELECT TO authenticated
+  USING (user_id = auth.uid());
+
+-- The post page follows job status over Realtime
+ALTER PUBLICATION supabase_realtime ADD TABLE summary_jobs;
+
+-- Queue (or re-queue) a summary of one of the caller's attachments
+CREATE OR REPLACE FUNCTION enqueue_summary_job(p_post_id uuid, p_file_path text, p_file_type text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_job_id uuid;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM posts WHERE id = p_post_id AND user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Post not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO summary_jobs (post_id, user_id, file_path, file_type)
+  VALUES (p_post_id, auth.uid(), p_file_path, p_file_type)
+  ON CONFLICT (post_id, file_path) DO UPDATE
+    SET status = 'queued', attempts = 0, last_error = NULL, run_after = now(),
+        started_at = NULL, finished_at = NULL, updated_at = now()
+  RETURNING id INTO v_job_id;
+
+  RETURN v_job_id;
+END;
+$$;
+
+-- Re-queue a post's failed jobs and queue its PDFs that never had one (e.g.
+-- uploaded before this table existed). Returns the ids to run.
+CREATE OR REPLACE FUNCTION retry_summary_jobs(p_post_id uuid)
+RETURNS SETOF uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM posts WHERE id = p_post_id AND user_id = auth.uid() AND deleted_at IS NULL) THEN
+    RAISE EXCEPTION 'Post not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN QUERY
+  UPDATE summary_jobs
+     SET status = 'queued', attempts = 0, last_error = NULL, run_after = now(),
+         started_at = NULL, finished_at = NULL, updated_at = now()
+   WHERE post_id = p_post_id AND status = 'failed'
+  RETURNING id;
+
+  RETURN QUERY
+  INSERT INTO summary_jobs (post_id, user_id, file_path, file_type)
+  SELECT m.post_id, auth.uid(), m.file_path, m.file_type
+  FROM media_files m
+  WHERE m.post_id = p_post_id AND m.file_type LIKE '%pdf%'
+  ON CONFLICT (post_id, file_path) DO NOTHING
+  RETURNING id;
+END;
+$$;
+
+-- Worker side (service role only). Claims due jobs, or one specific job if it
+-- is due. A job stuck in running for 10 minutes (the function was killed) is
+-- claimed again, or failed if that was its last attempt.
+CREATE OR REPLACE FUNCTION claim_summary_jobs(p_job_id uuid DEFAULT NULL, p_limit int DEFAULT 5)
+RETURNS SETOF summary_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE summary_jobs
+     SET status = 'failed', last_error = COALESCE(last_error, 'Timed out'), finished_at = now(), updated_at = now()
+   WHERE status = 'running' AND started_at < now() - interval '10 minutes' AND attempts >= max_attempts;
+
+  RETURN QUERY
+  UPDATE summary_jobs j
+     SET status = 'running', attempts = j.attempts + 1, started_at = now(), updated_at = now()
+   WHERE j.id IN (
+     SELECT d.id FROM summary_jobs d
+     WHERE (p_job_id IS NULL OR d.id = p_job_id)
+       AND ((d.status = 'queued' AND d.run_after <= now())
+            OR (d.status = 'running' AND d.started_at < now() - interval '10 minutes'))
+     ORDER BY d.run_after
+     LIMIT GREATEST(p_limit, 1)
+     FOR UPDATE SKIP LOCKED
+   )
+  RETURNING j.*;
+END;
+$$;
+
+-- Record the outcome of an attempt. A failure is retried after 1, 2, 4, 8…
+-- minutes (capped at an hour) until max_attempts is reached.
+CREATE OR REPLACE FUNCTION finish_summary_job(p_job_id uuid, p_error text DEFAULT NULL)
+RETURNS summary_jobs
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE summary_jobs
+     SET status = CASE WHEN p_error IS NULL THEN 'succeeded'
+                       WHEN attempts >= max_attempts THEN 'failed'
+                       ELSE 'queued' END,
+         last_error = p_error,
+         run_after = CASE WHEN p_error IS NULL OR attempts >= max_attempts THEN run_after
+                          ELSE now() + LEAST(interval '1 minute' * power(2, attempts - 1), interval '1 hour') END,
+         finished_at = CASE WHEN p_error IS NULL OR attempts >= max_attempts THEN now() END,
+         updated_at = now()
+   WHERE id = p_job_id
+  RETURNING *;
+$$;
+
+REVOKE EXECUTE ON FUNCTION claim_summary_jobs(uuid, int) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION finish_summary_job(uuid, text) FROM PUBLIC, anon, authenticated;
+
+-- Move the "Error: …" summaries into failed jobs so they can be retried
+INSERT INTO summary_jobs (post_id, user_id, file_path, file_type, status, attempts, last_error, finished_at)
+SELECT p.id, p.user_id, m.file_path, m.file_type, 'failed', 1, p.summary, now()
+FROM posts p
+JOIN media_files m ON m.post_id = p.id AND m.file_type LIKE '%pdf%'
+WHERE p.summary LIKE 'Error:%'
+ON CONFLICT (post_id, file_path) DO NOTHING;
+
+UPDATE posts SET summary = NULL WHERE summary LIKE 'Error:%';
+
+-- Due jobs (retries, or ones whose first run never started) are picked up every
+-- minute. Uses the same Vault secrets as purge-trash.
+SELECT cron.schedule(
+  'summary-jobs-drain',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/summarize-document',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{"drain": true}'::jsonb
+  )
+  WHERE EXISTS (
+    SELECT 1 FROM summary_jobs
+    WHERE (status = 'queued' AND run_after <= now())
+       OR (status = 'running' AND started_at < now() - interval '10 minutes')
+  );
+  $$
+);
@@ -0,0 +1,54 @@
+-- Migration: Summarize and index more attachment types
+-- Word documents, slide decks, saved web pages and images (OCR) now go through
+-- the same summary jobs and text extraction as PDFs.
+
+-- Keep in sync with attachmentKind() in src/lib/attachmentTypes.ts
+CREATE OR REPLACE FUNCTION summarizable_file_type(p_file_type text, p_file_name text)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN lower(split_part(coalesce(p_file_type, ''), ';', 1)) IN (
+      'application/pdf',
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+      'text/html', 'application/xhtml+xml',
+      'image/png', 'image/jpeg', 'image/tiff', 'image/webp', 'image/bmp', 'image/gif'
+    ) THEN true
+    WHEN coalesce(p_file_type, '') NOT IN ('', 'application/octet-stream') THEN false
+    ELSE lower(substring(coalesce(p_file_name, '') FROM '\.([^.]+)$')) IN (
+      'pdf', 'docx', 'pptx', 'html', 'htm', 'xhtml',
+      'png', 'jpg', 'jpeg', 'tif', 'tiff', 'webp', 'bmp', 'gif'
+    )
+  END;
+$$;
+
+-- Same as before, but "Summarize" also picks up the newly supported types
+CREATE OR REPLACE FUNCTION retry_summary_jobs(p_post_id uuid)
+RETURNS SETOF uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM posts WHERE id = p_post_id AND user_id = auth.uid() AND deleted_at IS NULL) THEN
+    RAISE EXCEPTION 'Post not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN QUERY
+  UPDATE summary_jobs
+     SET status = 'queued', attempts = 0, last_error = NULL, run_after = now(),
+         started_at = NULL, finished_at = NULL, updated_at = now()
+   WHERE post_id = p_post_id AND status = 'failed'
+  RETURNING id;
+
+  RETURN QUERY
+  INSERT INTO summary_jobs (post_id, user_id, file_path, file_type)
+  SELECT m.post_id, auth.uid(), m.file_path, m.file_type
+  FROM media_files m
+  WHERE m.post_id = p_post_id AND summarizable_file_type(m.file_type, m.file_name)
+  ON CONFLICT (post_id, file_path) DO NOTHING
+  RETURNING id;
+END;
+$$;
@@ -0,0 +1,86 @@
+-- Migration: Summary templates
+-- Named instructions for the summarize-document edge function, e.g. PICO for
+-- journal articles or graded recommendations for guidelines. Built-in
+-- templates have no user_id; a user's template with the same name replaces
+-- the built-in one for that user. Templates are picked by post tag when a
+-- summary job runs (see summary_template_for_post).
+CREATE TABLE IF NOT EXISTS summary_templates (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE, -- NULL for built-in templates
+    name text NOT NULL,
+    instructions text NOT NULL,
+    tags text[] NOT NULL DEFAULT '{}', -- lowercase post tags that select this template
+    is_default boolean NOT NULL DEFAULT false, -- used when no template matches a post's tags
+    created_at timestamptz NOT NULL DEFAULT now(),
+    updated_at timestamptz NOT NULL DEFAULT now(),
+    CONSTRAINT summary_templates_name_check CHECK (btrim(name) <> '' AND char_length(name) <= 80),
+    CONSTRAINT summary_templates_instructions_check CHECK (btrim(instructions) <> '' AND char_length(instructions) <= 4000),
+    CONSTRAINT summary_templates_default_check CHECK (NOT is_default OR user_id IS NOT NULL),
+    UNIQUE NULLS NOT DISTINCT (user_id, name)
+);
+
+-- At most one default per user
+CREATE UNIQUE INDEX IF NOT EXISTS idx_summary_templates_default ON summary_templates(user_id) WHERE is_default;
+
+ALTER TABLE summary_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "summary_templates_select"
+  ON summary_templates FOR SELECT TO authenticated
+  USING (user_id = auth.uid() OR user_id IS NULL);
+
+CREATE POLICY "summary_templates_owner_insert"
+  ON summary_templates FOR INSERT TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "summary_templates_owner_update"
+  ON summary_templates FOR UPDATE TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "summary_templates_owner_delete"
+  ON summary_templates FOR DELETE TO authenticated
+  USING (user_id = auth.uid());
+
+INSERT INTO summary_templates (user_id, name, tags, instructions) VALUES
+  (NULL, 'Journal article', '{article,journal-article,journal-club,study,trial,research}',
+   'Structure the summary as: **Citation** (title, authors, journal and year, if given); **PICO**: population, intervention, comparison and outcomes; **Design** (study type, setting, sample size, follow-up); **Key results** with effect sizes, confidence intervals and p-values as reported; **Limitations** (bias, generalizability, funding and conflicts of interest); **Bottom line** in one or two sentences.'),
+  (NULL, 'Guideline', '{guideline,guidelines,consensus,recommendations}',
+   'Start with the issuing body, year and scope. Then list the recommendations as bullets grouped by topic, each followed by its strength of recommendation and level or certainty of evidence exactly as the guideline grades them (e.g. Class I, Level A; or strong recommendation, moderate-certainty evidence). Note what changed from the previous version if the document says so.'),
+  (NULL, 'Drug monograph', '{drug,drugs,medication,medications,pharmacology,monograph}',
+   'Structure the summary as: **Drug** (name, class, mechanism); **Indications**; **Dosing** for adults, with renal and hepatic adjustments and pediatric dosing if given; **Contraindications**; **Warnings**, including boxed warnings; **Adverse effects** (common and serious); **Interactions**; **Monitoring**.')
+ON CONFLICT (user_id, name) DO NOTHING;
+
+-- The template a post's summary should use: a template of the owner's (or an
+-- uncustomized built-in) sharing one of the post's tags, the owner's own
+-- templates first; otherwise the owner's default. No row means the generic
+-- summary format.
+CREATE OR REPLACE FUNCTION summary_template_for_post(p_post_id uuid)
+RETURNS TABLE (id uuid, name text, instructions text)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH post AS (
+    SELECT p.user_id, ARRAY(SELECT lower(t) FROM unnest(COALESCE(p.tags, '{}')) t) AS tags
+    FROM posts p
+    WHERE p.id = p_post_id
+  ),
+  candidates AS (
+    SELECT t.id, t.name, t.instructions, t.is_default, t.tags && post.tags AS tag_match, t.user_id IS NOT NULL AS own
+    FROM summary_templates t, post
+    WHERE t.user_id = post.user_id
+       OR (t.user_id IS NULL AND NOT EXISTS (
+             SELECT 1 FROM summary_templates o WHERE o.user_id = post.user_id AND o.name = t.name))
+  )
+  SELECT c.id, c.name, c.instructions
+  FROM candidates c
+  WHERE c.tag_match OR c.is_default
+  ORDER BY c.tag_match DESC, c.own DESC, c.name
+  LIMIT 1;
+$$;
+
+REVOKE EXECUTE ON FUNCTION summary_template_for_post(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Which template produced a summary, shown on the post page
+ALTER TABLE summary_jobs ADD COLUMN IF NOT EXISTS template_name text;
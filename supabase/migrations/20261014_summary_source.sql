@@ -0,0 +1,15 @@
+-- Migration: Summary source attachment
+-- The attachment posts.summary was generated from, so the page citations in
+-- it ("(p. 4)") can link to that file on the post page.
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS summary_file_path text;
+
+-- Existing summaries came from the post's most recently finished job
+UPDATE posts p
+   SET summary_file_path = j.file_path
+  FROM (
+    SELECT DISTINCT ON (post_id) post_id, file_path
+    FROM summary_jobs
+    WHERE status = 'succeeded'
+    ORDER BY post_id, finished_at DESC
+  ) j
+ WHERE j.post_id = p.id AND p.summary IS NOT NULL AND p.summary_file_path IS NULL;
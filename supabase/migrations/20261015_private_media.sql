@@ -0,0 +1,41 @@
+-- Migration: Private media
+-- Reverts 20260302_public_media.sql. Attachments are clinical data, so the
+-- post-media bucket is private again and media_files is no longer readable
+-- by anon. The app serves attachments through /api/media, which checks post
+-- ownership or a share secret and hands out short-lived signed URLs.
+UPDATE storage.buckets SET public = false WHERE id = 'post-media';
+
+DROP POLICY IF EXISTS "media_files_public_read" ON media_files;
+
+-- Owners can read, and so sign URLs for, their own objects
+-- (paths are <user_id>/<post_id>/<file>)
+DROP POLICY IF EXISTS "post_media_owner_read" ON storage.objects;
+CREATE POLICY "post_media_owner_read"
+  ON storage.objects FOR SELECT TO authenticated
+  USING (bucket_id = 'post-media' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+-- The attachments of the live post a share link points at. Returns nothing
+-- for an unknown secret, a trashed post or a post without attachments.
+CREATE OR REPLACE FUNCTION shared_post_media(p_secret text)
+RETURNS TABLE (
+  id uuid,
+  post_id uuid,
+  owner_id uuid,
+  file_name text,
+  file_path text,
+  file_type text,
+  uploaded_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT m.id, m.post_id, p.user_id, m.file_name, m.file_path, m.file_type, m.uploaded_at
+  FROM posts p
+  JOIN media_files m ON m.post_id = p.id
+  WHERE p.secret_url = p_secret AND p_secret <> '' AND p.deleted_at IS NULL
+  ORDER BY m.uploaded_at;
+$$;
+
+GRANT EXECUTE ON FUNCTION shared_post_media(text) TO anon, authenticated;
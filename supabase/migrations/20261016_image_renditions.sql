@@ -0,0 +1,42 @@
+-- Migration: Image renditions
+-- Uploaded images get a thumbnail (feed cards) and a medium rendition (post
+-- and share pages), stored as WebP next to the original as
+-- <file_path>.thumbnail.webp and <file_path>.medium.webp (src/lib/renditions.ts).
+-- The paths stay NULL for files that aren't images, for images that couldn't
+-- be resized and for media uploaded before this migration; the app then shows
+-- the original. renditions_at records that a file was processed, so failures
+-- aren't retried on every upload.
+ALTER TABLE media_files ADD COLUMN IF NOT EXISTS thumbnail_path text;
+ALTER TABLE media_files ADD COLUMN IF NOT EXISTS medium_path text;
+ALTER TABLE media_files ADD COLUMN IF NOT EXISTS renditions_at timestamptz;
+
+-- shared_post_media also returns the rendition paths (the return type changes,
+-- so it has to be dropped first)
+DROP FUNCTION IF EXISTS shared_post_media(text);
+
+CREATE FUNCTION shared_post_media(p_secret text)
+RETURNS TABLE (
+  id uuid,
+  post_id uuid,
+  owner_id uuid,
+  file_name text,
+  file_path text,
+  file_type text,
+  uploaded_at timestamptz,
+  thumbnail_path text,
+  medium_path text
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT m.id, m.post_id, p.user_id, m.file_name, m.file_path, m.file_type, m.uploaded_at,
+         m.thumbnail_path, m.medium_path
+  FROM posts p
+  JOIN media_files m ON m.post_id = p.id
+  WHERE p.secret_url = p_secret AND p_secret <> '' AND p.deleted_at IS NULL
+  ORDER BY m.uploaded_at;
+$$;
+
+GRANT EXECUTE ON FUNCTION shared_post_media(text) TO anon, authenticated;
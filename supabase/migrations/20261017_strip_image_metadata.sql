@@ -0,0 +1,9 @@
+-- Migration: Strip image metadata
+-- Images are now stored without their EXIF/XMP/IPTC metadata (GPS position,
+-- camera serial, capture time; see src/lib/imageMetadata.ts). Every image
+-- upload goes through /api/posts/[id]/media, which re-encodes it first. When
+-- the owner asks, the upload as it arrived is kept at <file_path>.original and
+-- recorded here. It is covered by post_media_owner_read, so only the owner can
+-- read it, and shared_post_media never returns it.
+-- Images uploaded before this migration are left as they were.
+ALTER TABLE media_files ADD COLUMN IF NOT EXISTS original_path text;
@@ -0,0 +1,50 @@
+-- Migration: Summary jobs only for the caller's own attachments
+-- enqueue_summary_job took the file path and type from the caller, and
+-- summarize-document downloads that path with the service role. Any signed-in
+-- user could queue one of their posts with another user's file_path and read
+-- the summary back. The path must now be an attachment of that post, owned by
+-- the caller, and the type is taken from the media_files row.
+DROP FUNCTION IF EXISTS enqueue_summary_job(uuid, text, text);
+
+CREATE OR REPLACE FUNCTION enqueue_summary_job(p_post_id uuid, p_file_path text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_file_type text;
+  v_job_id uuid;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM posts WHERE id = p_post_id AND user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Post not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT m.file_type INTO v_file_type
+  FROM media_files m
+  WHERE m.post_id = p_post_id AND m.file_path = p_file_path AND m.user_id = auth.uid();
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Attachment not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO summary_jobs (post_id, user_id, file_path, file_type)
+  VALUES (p_post_id, auth.uid(), p_file_path, v_file_type)
+  ON CONFLICT (post_id, file_path) DO UPDATE
+    SET file_type = EXCLUDED.file_type, status = 'queued', attempts = 0, last_error = NULL,
+        run_after = now(), started_at = NULL, finished_at = NULL, updated_at = now()
+  RETURNING id INTO v_job_id;
+
+  RETURN v_job_id;
+END;
+$$;
+
+-- Jobs queued for a path that isn't one of the post owner's attachments
+-- can't be legitimate; drop them before the worker picks them up
+DELETE FROM summary_jobs j
+WHERE NOT EXISTS (
+  SELECT 1
+  FROM media_files m
+  JOIN posts p ON p.id = m.post_id
+  WHERE m.post_id = j.post_id AND m.file_path = j.file_path
+    AND m.user_id = j.user_id AND p.user_id = j.user_id
+);
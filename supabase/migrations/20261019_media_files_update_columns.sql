@@ -0,0 +1,22 @@
+-- Migration: Limit what owners can change on media_files
+-- media_files_owner_update_text (20261010_attachment_search.sql) let owners
+-- update any column of their rows, so a client could repoint file_path,
+-- file_type, post_id or original_path at objects the row was never about. The
+-- app only writes the extracted text (src/lib/extractors.ts) and the rendition
+-- paths (src/lib/renditions.ts) after upload; those are now the only columns
+-- authenticated users may update. The policy still limits it to their rows.
+REVOKE UPDATE ON media_files FROM anon, authenticated;
+GRANT UPDATE (extracted_text, text_extracted_at, thumbnail_path, medium_path, renditions_at)
+  ON media_files TO authenticated;
+
+-- Renditions always sit next to their file; anything else set through the
+-- old policy is dropped so the app falls back to the original
+UPDATE media_files SET thumbnail_path = NULL
+WHERE thumbnail_path IS NOT NULL AND thumbnail_path <> file_path || '.thumbnail.webp';
+UPDATE media_files SET medium_path = NULL
+WHERE medium_path IS NOT NULL AND medium_path <> file_path || '.medium.webp';
+
+ALTER TABLE media_files ADD CONSTRAINT media_files_thumbnail_path_check
+  CHECK (thumbnail_path IS NULL OR thumbnail_path = file_path || '.thumbnail.webp');
+ALTER TABLE media_files ADD CONSTRAINT media_files_medium_path_check
+  CHECK (medium_path IS NULL OR medium_path = file_path || '.medium.webp');
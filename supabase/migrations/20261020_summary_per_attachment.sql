@@ -0,0 +1,13 @@
+-- Migration: One summary per attachment
+-- Every summary job used to write posts.summary, so on a post with several
+-- summarizable attachments whichever job finished last won. Each job now keeps
+-- its own summary, and posts.summary (with summary_file_path) shows the one of
+-- the earliest uploaded attachment that has a summary; summarize-document
+-- only writes the post when its file is that attachment.
+ALTER TABLE summary_jobs ADD COLUMN IF NOT EXISTS summary text;
+
+-- The post's current summary belongs to the job that wrote it
+UPDATE summary_jobs j
+   SET summary = p.summary
+  FROM posts p
+ WHERE p.id = j.post_id AND p.summary_file_path = j.file_path AND p.summary IS NOT NULL;
@@ -0,0 +1,59 @@
+-- Migration: Keep share secrets secret
+-- posts.secret_url is what /api/media signs a shared post's attachments with
+-- (20261015_private_media.sql), but every column of posts was readable through
+-- PostgREST, so anyone could list the secrets and open everyone's media. The
+-- column is no longer readable by anon or authenticated; the owner reads it
+-- with post_share_secret and a share link resolves through shared_post.
+-- Columns added to posts later need their own GRANT SELECT.
+REVOKE SELECT ON posts FROM anon, authenticated;
+
+DO $$
+DECLARE
+  v_columns text;
+BEGIN
+  SELECT string_agg(quote_ident(column_name), ', ' ORDER BY ordinal_position) INTO v_columns
+  FROM information_schema.columns
+  WHERE table_schema = 'public' AND table_name = 'posts' AND column_name <> 'secret_url';
+  EXECUTE format('GRANT SELECT (%s) ON posts TO anon, authenticated', v_columns);
+END;
+$$;
+
+-- The caller's own post's share secret (NULL when sharing is off)
+CREATE OR REPLACE FUNCTION post_share_secret(p_post_id uuid)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT secret_url FROM posts WHERE id = p_post_id AND user_id = auth.uid();
+$$;
+
+REVOKE EXECUTE ON FUNCTION post_share_secret(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION post_share_secret(uuid) TO authenticated;
+
+-- The post behind a share link, for the share page (no login)
+CREATE OR REPLACE FUNCTION shared_post(p_secret text)
+RETURNS TABLE (
+  id uuid,
+  created_at timestamptz,
+  updated_at timestamptz,
+  content text,
+  tags text[],
+  is_starred boolean,
+  user_id uuid,
+  summary text,
+  summary_file_path text
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p.id, p.created_at, p.updated_at, p.content, p.tags, p.is_starred, p.user_id,
+         p.summary, p.summary_file_path
+  FROM posts p
+  WHERE p.secret_url = p_secret AND p_secret <> '' AND p.deleted_at IS NULL;
+$$;
+
+GRANT EXECUTE ON FUNCTION shared_post(text) TO anon, authenticated;
@@ -0,0 +1,155 @@
+-- Migration: Group synonym expansions with the word they expand
+-- expandSynonyms used to splice expansions into the text as
+-- afib or "atrial fibrillation" anticoagulation, and websearch_to_tsquery
+-- reads that as afib | ("atrial fibrillation" & anticoagulation): any note
+-- mentioning afib matched, anticoagulation or not. The app now sends the
+-- expanded words separately (src/lib/synonyms.ts) and synonym_tsquery ORs
+-- each one with its own expansions only, then ANDs the groups with the rest.
+
+-- p_groups is a JSON array of [word, expansion, ...] arrays
+CREATE OR REPLACE FUNCTION synonym_tsquery(p_text text, p_groups jsonb)
+RETURNS tsquery
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  query tsquery := websearch_to_tsquery('english', COALESCE(p_text, ''));
+  grp jsonb;
+  alternatives tsquery;
+  expansion text;
+BEGIN
+  FOR grp IN SELECT jsonb_array_elements(COALESCE(p_groups, '[]'::jsonb)) LOOP
+    alternatives := websearch_to_tsquery('english', grp->>0);
+    FOR expansion IN SELECT e FROM jsonb_array_elements_text(grp) WITH ORDINALITY AS x(e, n) WHERE n > 1 LOOP
+      alternatives := alternatives || phraseto_tsquery('english', expansion);
+    END LOOP;
+    query := query && alternatives;
+  END LOOP;
+  RETURN query;
+END;
+$$;
+
+-- The other words still have to match: a note about afib alone isn't a hit
+-- for "afib anticoagulation", while one about atrial fibrillation and
+-- anticoagulation is.
+DO $$
+DECLARE
+  query tsquery := synonym_tsquery('anticoagulation', '[["afib", "atrial fibrillation"]]');
+BEGIN
+  IF to_tsvector('english', 'afib follow-up') @@ query THEN
+    RAISE EXCEPTION 'synonym_tsquery: % matches without the other words', query;
+  END IF;
+  IF to_tsvector('english', 'anticoagulation notes') @@ query THEN
+    RAISE EXCEPTION 'synonym_tsquery: % matches without the expanded word', query;
+  END IF;
+  IF NOT to_tsvector('english', 'atrial fibrillation, started anticoagulation') @@ query
+     OR NOT to_tsvector('english', 'afib anticoagulation') @@ query THEN
+    RAISE EXCEPTION 'synonym_tsquery: % misses a matching note', query;
+  END IF;
+END;
+$$;
+
+-- search_posts takes the split text as p_synonym_text and p_synonym_groups;
+-- p_query stays the text as typed for the tag match and the fuzzy pass.
+-- Everything else is unchanged from 20261010.
+DROP FUNCTION IF EXISTS search_posts(text, text, int, int, uuid, boolean, text[], text[], boolean, boolean, timestamptz, timestamptz, boolean);
+
+CREATE OR REPLACE FUNCTION search_posts(
+  p_query text,
+  p_sort text DEFAULT 'relevance',
+  p_limit int DEFAULT 20,
+  p_offset int DEFAULT 0,
+  p_user_id uuid DEFAULT NULL,
+  p_starred boolean DEFAULT false,
+  p_tags text[] DEFAULT NULL,
+  p_exclude_tags text[] DEFAULT NULL,
+  p_has_pdf boolean DEFAULT false,
+  p_has_image boolean DEFAULT false,
+  p_after timestamptz DEFAULT NULL,
+  p_before timestamptz DEFAULT NULL,
+  p_fuzzy boolean DEFAULT false,
+  p_synonym_text text DEFAULT NULL,
+  p_synonym_groups jsonb DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  created_at timestamptz,
+  updated_at timestamptz,
+  content text,
+  tags text[],
+  is_starred boolean,
+  user_id uuid,
+  rank real,
+  snippet text,
+  match_source text,
+  match_file_name text
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH q AS (
+    SELECT CASE WHEN p_fuzzy THEN fuzzy_tsquery(p_query)
+                WHEN p_synonym_groups IS NOT NULL THEN synonym_tsquery(p_synonym_text, p_synonym_groups)
+                ELSE websearch_to_tsquery('english', p_query) END AS query,
+           btrim(p_query) AS term
+  ),
+  -- The best-matching attachment of each post
+  attachments AS (
+    SELECT DISTINCT ON (m.post_id)
+           m.post_id, m.file_name, m.extracted_text,
+           ts_rank_cd(m.fts, q.query, 32) AS rank
+    FROM media_files m, q
+    WHERE m.fts @@ q.query
+    ORDER BY m.post_id, ts_rank_cd(m.fts, q.query, 32) DESC
+  ),
+  matches AS (
+    SELECT p.id, p.created_at, p.updated_at, p.content, p.tags, p.is_starred, p.user_id,
+           p.summary, a.file_name, a.extracted_text,
+           (p.fts @@ q.query OR p.tags @> ARRAY[q.term]) AS in_note,
+           p.summary_fts @@ q.query AS in_summary,
+           -- Note hits outrank summary hits, which outrank attachment hits; an
+           -- exact tag match counts as a strong hit, like the old tag OR filter
+           (ts_rank_cd(p.fts, q.query, 32)
+             + CASE WHEN p.tags @> ARRAY[q.term] THEN 0.5 ELSE 0 END
+             + CASE WHEN p.summary_fts @@ q.query THEN 0.8 * ts_rank_cd(p.summary_fts, q.query, 32) ELSE 0 END
+             + 0.6 * COALESCE(a.rank, 0))::real AS rank
+    FROM posts p
+    CROSS JOIN q
+    LEFT JOIN attachments a ON a.post_id = p.id
+    WHERE p.deleted_at IS NULL
+      AND (p.fts @@ q.query OR p.tags @> ARRAY[q.term] OR p.summary_fts @@ q.query OR a.post_id IS NOT NULL)
+      AND (p_user_id IS NULL OR p.user_id = p_user_id)
+      AND (NOT p_starred OR p.is_starred)
+      AND (p_tags IS NULL OR p.tags @> p_tags)
+      AND (p_exclude_tags IS NULL OR NOT COALESCE(p.tags && p_exclude_tags, false))
+      AND (NOT p_has_pdf OR has_pdf(p))
+      AND (NOT p_has_image OR has_image(p))
+      AND (p_after IS NULL OR p.created_at >= p_after)
+      AND (p_before IS NULL OR p.created_at < p_before)
+  ),
+  hits AS (
+    SELECT * FROM matches r
+    ORDER BY CASE WHEN p_sort = 'newest' THEN NULL ELSE r.rank END DESC NULLS LAST,
+             r.created_at DESC,
+             r.id DESC
+    LIMIT LEAST(GREATEST(p_limit, 1), 200)
+    OFFSET GREATEST(p_offset, 0)
+  )
+  -- Headlines are expensive, so only build them for the page being returned
+  SELECT h.id, h.created_at, h.updated_at, h.content, h.tags, h.is_starred, h.user_id, h.rank,
+         ts_headline(
+           'english',
+           CASE WHEN h.in_note THEN h.content WHEN h.in_summary THEN h.summary ELSE h.extracted_text END,
+           q.query,
+           'StartSel="' || chr(2) || '", StopSel="' || chr(3) || '", MaxWords=35, MinWords=15, ShortWord=3, MaxFragments=2, FragmentDelimiter=" … "'
+         ) AS snippet,
+         CASE WHEN h.in_note THEN 'note' WHEN h.in_summary THEN 'summary' ELSE 'attachment' END AS match_source,
+         CASE WHEN NOT h.in_note AND NOT h.in_summary THEN h.file_name END AS match_file_name
+  FROM hits h, q
+  ORDER BY CASE WHEN p_sort = 'newest' THEN NULL ELSE h.rank END DESC NULLS LAST,
+           h.created_at DESC,
+           h.id DESC;
+$$;
+
+GRANT EXECUTE ON FUNCTION search_posts(text, text, int, int, uuid, boolean, text[], text[], boolean, boolean, timestamptz, timestamptz, boolean, text, jsonb)
+  TO anon, authenticated;
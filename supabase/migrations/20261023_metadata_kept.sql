@@ -0,0 +1,34 @@
+-- Migration: Flag images stored with their metadata
+-- HEIC photos (and anything else sharp can't decode) used to be rejected by
+-- /api/posts/[id]/media, which stopped imports of iPhone photo folders. They
+-- are now stored as uploaded, metadata and all, and metadata_kept says so
+-- (src/lib/imageMetadata.ts). Like kept originals, such files are left out
+-- of share links.
+ALTER TABLE media_files ADD COLUMN IF NOT EXISTS metadata_kept boolean NOT NULL DEFAULT false;
+
+-- Unchanged from 20261016_image_renditions.sql apart from the metadata_kept filter
+CREATE OR REPLACE FUNCTION shared_post_media(p_secret text)
+RETURNS TABLE (
+  id uuid,
+  post_id uuid,
+  owner_id uuid,
+  file_name text,
+  file_path text,
+  file_type text,
+  uploaded_at timestamptz,
+  thumbnail_path text,
+  medium_path text
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT m.id, m.post_id, p.user_id, m.file_name, m.file_path, m.file_type, m.uploaded_at,
+         m.thumbnail_path, m.medium_path
+  FROM posts p
+  JOIN media_files m ON m.post_id = p.id
+  WHERE p.secret_url = p_secret AND p_secret <> '' AND p.deleted_at IS NULL
+    AND NOT m.metadata_kept
+  ORDER BY m.uploaded_at;
+$$;
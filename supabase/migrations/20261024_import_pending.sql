@@ -0,0 +1,21 @@
+-- Migration: Finish imports before counting them as done
+-- The CLI importer creates a post, uploads its images and then rewrites the
+-- local image links. When an upload failed the post kept broken links, and
+-- re-importing skipped it as a duplicate, so nothing ever repaired it; the
+-- link rewrite also went through PATCH, which recorded a revision and bumped
+-- updated_at. Posts with attachments to come are now created with
+-- import_pending set; /api/posts/import resumes them instead of skipping them,
+-- and /api/posts/import/[id]/complete writes the final text and clears it.
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS import_pending boolean NOT NULL DEFAULT false;
+
+-- posts columns are granted one by one (20261021_hide_share_secrets.sql)
+GRANT SELECT (import_pending) ON posts TO anon, authenticated;
+
+-- Completing an import only swaps in the uploaded image links: not an edit
+DROP TRIGGER IF EXISTS posts_record_revision ON posts;
+CREATE TRIGGER posts_record_revision
+  BEFORE UPDATE OF content, tags ON posts
+  FOR EACH ROW
+  WHEN ((OLD.content IS DISTINCT FROM NEW.content OR OLD.tags IS DISTINCT FROM NEW.tags)
+        AND NOT (OLD.import_pending AND NOT NEW.import_pending))
+  EXECUTE FUNCTION record_post_revision();